@@ -3,34 +3,137 @@ import {
   EmailMessage,
   EmailStatus,
   EmailProvider,
-
+  EmailServiceConfig,
+  EmailError,
+  RetryConfig,
+  IdempotencyStore,
+  SendOptions,
+  EmailRequest,
+  EmailAddress,
+  EmailAttachment,
+  AttachmentInput,
+  MessageInput,
+  BatchOptions,
+  BatchResult,
+  ScheduledMessage,
+  EmailPriority,
+  RateLimitStatus,
+  ProviderStatus,
+  CircuitStateType,
+  ProviderSelector,
+  ErrorCategory,
+  EmailServiceEvents,
+  Logger,
+  MetricLabels,
+  Span,
+  Tracer,
+  MessageStatusStore,
+  MessageStatusEntry,
+  MessageStatusQuery,
+  MessageStatusRecord,
+  RecordedError,
+  DeadLetter,
+  DeadLetterStore,
+  DeadLetterQuery,
+  ReplayOptions,
+  QueueRecord,
 } from './types';
 import {
   DEFAULT_CONFIG,
-  EMAIL_STATUS,
+  ERROR_CODES,
+  ERROR_CATEGORY,
   CIRCUIT_STATE,
+  PRIORITY,
   VALIDATION,
   METRICS,
   CACHE,
+  SPAN_KIND,
+  MESSAGE_STATE,
+  isPriority,
+  isOverflowPolicy,
+  isRateLimitStrategy,
+  isCircuitBreakerMode,
+  isRoutingStrategy,
 } from './constants';
 import { RateLimiter } from '../utils/RateLimiter';
 import { CircuitBreaker } from '../utils/CircuitBreaker';
-import { Queue } from '../utils/Queue';
+import { Queue, RestoredDelivery } from '../utils/Queue';
+import { HealthMonitor } from '../utils/HealthMonitor';
+import { createProviderSelector } from '../utils/ProviderSelector';
+import { EventEmitter } from '../utils/EventEmitter';
+import { defaultLogger } from '../utils/Logger';
+import { MetricsRegistry } from '../utils/MetricsRegistry';
+import { BasicTracer, endSpan, formatTraceparent, noopTracer, parseTraceparent } from '../utils/Tracing';
+import { parseAddress, parseAddressList, recipientsOf } from '../utils/Address';
+import { InMemoryIdempotencyStore } from '../stores/InMemoryIdempotencyStore';
+import { InMemoryMessageStatusStore } from '../stores/InMemoryMessageStatusStore';
+import { InMemoryDeadLetterStore } from '../stores/InMemoryDeadLetterStore';
+
+const toEmailError = (error: unknown): EmailError => {
+  if (error instanceof EmailError) {
+    return error;
+  }
+  const cause = error instanceof Error ? error : new Error(String(error));
+  return new EmailError(cause.message, ERROR_CODES.PROVIDER_ERROR, cause);
+};
+
+// Content is kept as base64 so the message survives a trip through a JSON store
+const toAttachment = (attachment: AttachmentInput): EmailAttachment => ({
+  filename: attachment.filename,
+  contentType: attachment.contentType ?? 'application/octet-stream',
+  content: (typeof attachment.content === 'string'
+    ? Buffer.from(attachment.content, 'utf8')
+    : Buffer.from(attachment.content)
+  ).toString('base64'),
+  ...(attachment.contentId === undefined ? {} : { contentId: attachment.contentId }),
+});
+
+const toRecordedError = (error: EmailError): RecordedError => ({
+  code: error.code,
+  category: error.category,
+  message: error.message,
+});
+
+// Providers that throw plain errors have not classified them, so they are
+// treated as worth retrying
+const categoryOf = (error: unknown): ErrorCategory =>
+  error instanceof EmailError ? error.category : ERROR_CATEGORY.TRANSIENT;
 
 export class EmailService {
   private rateLimiter: RateLimiter;
+  private providerRateLimiters: Map<string, RateLimiter>;
+  private domainRateLimiters: Map<string, RateLimiter>;
   private circuitBreakers: Map<string, CircuitBreaker>;
+  private healthMonitor: HealthMonitor | null = null;
+  private providerSelector: ProviderSelector;
   private queue: Queue;
   private providers: EmailProvider[];
   private retryConfig: RetryConfig;
-  private sentMessageIds: Set<string> = new Set();
-  private metrics: Map<string, number> = new Map();
+  private idempotencyStore: IdempotencyStore;
+  private readonly statusStore: MessageStatusStore;
+  private readonly deadLetterStore: DeadLetterStore;
+  private readonly idempotencyTtl: number;
+  private readonly sendTimeout: number;
+  private inFlightSends: Map<string, Promise<EmailStatus>> = new Map();
+  private readonly metrics = new MetricsRegistry();
+  private events: EventEmitter<EmailServiceEvents>;
+  private readonly logger: Logger;
+  private readonly tracer: Tracer;
+  private readonly recovery: Promise<number>;
   private readonly getCurrentTime: () => number;
 
   constructor(config: EmailServiceConfig, getCurrentTime: () => number = Date.now) {
     this.validateConfig(config);
     this.providers = config.providers;
     this.getCurrentTime = getCurrentTime;
+    this.logger = config.logger ?? defaultLogger;
+    this.events = new EventEmitter<EmailServiceEvents>(this.logger);
+    this.tracer = config.tracing ? new BasicTracer(config.tracing, getCurrentTime, this.logger) : noopTracer;
+    this.idempotencyStore = config.idempotencyStore || new InMemoryIdempotencyStore(getCurrentTime);
+    this.idempotencyTtl = config.idempotencyTtl ?? CACHE.IDEMPOTENCY_TTL;
+    this.statusStore = config.statusStore || new InMemoryMessageStatusStore({}, getCurrentTime);
+    this.deadLetterStore = config.deadLetterStore || new InMemoryDeadLetterStore();
+    this.sendTimeout = config.sendTimeout ?? DEFAULT_CONFIG.PROVIDER.TIMEOUT;
     this.retryConfig = {
       maxAttempts: DEFAULT_CONFIG.RETRY.MAX_ATTEMPTS,
       initialDelay: DEFAULT_CONFIG.RETRY.INITIAL_DELAY,
@@ -38,23 +141,83 @@ export class EmailService {
       backoffFactor: DEFAULT_CONFIG.RETRY.BACKOFF_FACTOR,
       ...config.retryConfig,
     };
+    // Every limit gets its own key so instances sharing a store count together
+    const store = config.rateLimiterStore;
+    const logger = this.logger;
     this.rateLimiter = new RateLimiter({
       maxRequests: DEFAULT_CONFIG.RATE_LIMITER.MAX_REQUESTS,
       timeWindow: DEFAULT_CONFIG.RATE_LIMITER.TIME_WINDOW,
+      store,
+      logger,
+      key: 'global',
       ...config.rateLimiterConfig,
     }, getCurrentTime);
+    this.providerRateLimiters = new Map(
+      Object.entries(config.providerRateLimits || {}).map(([name, limits]) => [
+        name,
+        new RateLimiter({ store, logger, key: `provider:${name}`, ...limits }, getCurrentTime),
+      ])
+    );
+    this.domainRateLimiters = new Map(
+      Object.entries(config.domainRateLimits || {}).map(([domain, limits]) => [
+        domain.toLowerCase(),
+        new RateLimiter(
+          { store, logger, key: `domain:${domain.toLowerCase()}`, ...limits },
+          getCurrentTime
+        ),
+      ])
+    );
     this.circuitBreakers = new Map(
       this.providers.map(provider => [
         provider.name,
         new CircuitBreaker({
           failureThreshold: DEFAULT_CONFIG.CIRCUIT_BREAKER.FAILURE_THRESHOLD,
           resetTimeout: DEFAULT_CONFIG.CIRCUIT_BREAKER.RESET_TIMEOUT,
+          logger,
+          // A rejected message or a rate limit means the provider is up and answering
+          isFailure: error => {
+            const category = categoryOf(error);
+            return category === ERROR_CATEGORY.TRANSIENT || category === ERROR_CATEGORY.CONFIGURATION;
+          },
           ...config.circuitBreakerConfig,
+          name: provider.name,
+          onStateChange: change => {
+            config.circuitBreakerConfig?.onStateChange?.(change);
+            if (change.to === CIRCUIT_STATE.OPEN) {
+              this.events.emit('circuitOpen', change);
+            } else if (change.to === CIRCUIT_STATE.CLOSED) {
+              this.events.emit('circuitClose', change);
+            }
+          },
         }, getCurrentTime)
       ])
     );
-    this.queue = new Queue(this.retryConfig.maxAttempts, getCurrentTime);
+    this.providerSelector = createProviderSelector(config.routing);
+    this.queue = new Queue({
+      maxAttempts: this.retryConfig.maxAttempts,
+      store: config.queueStore,
+      logger,
+      tracer: this.tracer,
+      ...config.queueConfig,
+      onDeadLetter: (record, error) => this.storeDeadLetter(record, error),
+    }, getCurrentTime);
+    if (config.healthCheck) {
+      this.healthMonitor = new HealthMonitor(this.providers, {
+        interval: DEFAULT_CONFIG.PROVIDER.HEALTH_CHECK_INTERVAL,
+        timeout: DEFAULT_CONFIG.PROVIDER.TIMEOUT,
+        unhealthyThreshold: DEFAULT_CONFIG.PROVIDER.UNHEALTHY_THRESHOLD,
+        healthyThreshold: DEFAULT_CONFIG.PROVIDER.HEALTHY_THRESHOLD,
+        logger,
+        ...config.healthCheck,
+        onHealthChange: change => {
+          config.healthCheck?.onHealthChange?.(change);
+          this.setGauge(METRICS.PROVIDER_STATUS_GAUGE, { provider: change.name }, change.healthy ? 1 : 0);
+        },
+      }, getCurrentTime);
+      this.healthMonitor.start();
+    }
     this.initializeMetrics();
+    this.recovery = config.queueStore ? this.recoverPendingMessages() : Promise.resolve(0);
   }
 
   private validateConfig(config: EmailServiceConfig): void {
@@ -71,12 +234,186 @@ export class EmailService {
         ERROR_CODES.INVALID_CONFIG
       );
     }
+
+    if (config.idempotencyTtl !== undefined && config.idempotencyTtl <= 0) {
+      throw new EmailError(
+        'Idempotency TTL must be positive',
+        ERROR_CODES.INVALID_CONFIG
+      );
+    }
+
+    if (config.sendTimeout !== undefined && !(config.sendTimeout >= 1)) {
+      throw new EmailError('Send timeout must be at least 1ms', ERROR_CODES.INVALID_CONFIG);
+    }
+
+    const { strategy, burstCapacity, maxWait } = config.rateLimiterConfig || {};
+    if (strategy !== undefined && !isRateLimitStrategy(strategy)) {
+      throw new EmailError(`Unknown rate limit strategy: ${strategy}`, ERROR_CODES.INVALID_CONFIG);
+    }
+    if (burstCapacity !== undefined && !(burstCapacity >= 1)) {
+      throw new EmailError('Burst capacity must be at least 1', ERROR_CODES.INVALID_CONFIG);
+    }
+    if (maxWait !== undefined && !(maxWait >= 0)) {
+      throw new EmailError('Rate limit max wait must not be negative', ERROR_CODES.INVALID_CONFIG);
+    }
+
+    const breaker = config.circuitBreakerConfig || {};
+    if (breaker.mode !== undefined && !isCircuitBreakerMode(breaker.mode)) {
+      throw new EmailError(`Unknown circuit breaker mode: ${breaker.mode}`, ERROR_CODES.INVALID_CONFIG);
+    }
+    if (
+      breaker.failureRateThreshold !== undefined &&
+      !(breaker.failureRateThreshold > 0 && breaker.failureRateThreshold <= 100)
+    ) {
+      throw new EmailError(
+        'Failure rate threshold must be a percentage above 0',
+        ERROR_CODES.INVALID_CONFIG
+      );
+    }
+    const counts = {
+      windowSize: breaker.windowSize,
+      windowDuration: breaker.windowDuration,
+      minimumVolume: breaker.minimumVolume,
+      halfOpenMaxProbes: breaker.halfOpenMaxProbes,
+      successThreshold: breaker.successThreshold,
+    };
+    for (const [option, value] of Object.entries(counts)) {
+      if (value !== undefined && !(value >= 1)) {
+        throw new EmailError(`Circuit breaker ${option} must be at least 1`, ERROR_CODES.INVALID_CONFIG);
+      }
+    }
+
+    const healthCheck = config.healthCheck || {};
+    for (const option of ['interval', 'timeout', 'unhealthyThreshold', 'healthyThreshold'] as const) {
+      const value = healthCheck[option];
+      if (value !== undefined && !(value >= 1)) {
+        throw new EmailError(`Health check ${option} must be at least 1`, ERROR_CODES.INVALID_CONFIG);
+      }
+    }
+
+    const routing = config.routing || {};
+    if (routing.strategy !== undefined && !isRoutingStrategy(routing.strategy)) {
+      throw new EmailError(`Unknown routing strategy: ${routing.strategy}`, ERROR_CODES.INVALID_CONFIG);
+    }
+    for (const [name, weight] of Object.entries(routing.weights || {})) {
+      if (!(weight >= 0)) {
+        throw new EmailError(`Routing weight for ${name} must not be negative`, ERROR_CODES.INVALID_CONFIG);
+      }
+    }
+    for (const [name, cost] of Object.entries(routing.costs || {})) {
+      if (!(cost >= 0)) {
+        throw new EmailError(`Routing cost for ${name} must not be negative`, ERROR_CODES.INVALID_CONFIG);
+      }
+    }
+
+    for (const name of Object.keys(config.providerRateLimits || {})) {
+      if (!config.providers.some(provider => provider.name === name)) {
+        throw new EmailError(
+          `Rate limit configured for unknown provider: ${name}`,
+          ERROR_CODES.INVALID_CONFIG
+        );
+      }
+    }
+
+    const { maxSize, overflowPolicy, overflowTimeout } = config.queueConfig || {};
+    if (maxSize !== undefined && !(Number.isInteger(maxSize) && maxSize >= 1)) {
+      throw new EmailError('Queue max size must be a positive integer', ERROR_CODES.INVALID_CONFIG);
+    }
+    if (overflowPolicy !== undefined && !isOverflowPolicy(overflowPolicy)) {
+      throw new EmailError(`Unknown overflow policy: ${overflowPolicy}`, ERROR_CODES.INVALID_CONFIG);
+    }
+    if (overflowTimeout !== undefined && !(overflowTimeout >= 0)) {
+      throw new EmailError('Overflow timeout must not be negative', ERROR_CODES.INVALID_CONFIG);
+    }
+
+    const concurrency = config.queueConfig?.concurrency;
+    if (concurrency !== undefined && !(Number.isInteger(concurrency) && concurrency >= 1)) {
+      throw new EmailError(
+        'Queue concurrency must be a positive integer',
+        ERROR_CODES.INVALID_CONFIG
+      );
+    }
+
+    for (const [lane, weight] of Object.entries(config.queueConfig?.priorityWeights || {})) {
+      if (!isPriority(lane) || !(weight! > 0)) {
+        throw new EmailError(
+          `Priority weight for ${lane} must be a positive number`,
+          ERROR_CODES.INVALID_CONFIG
+        );
+      }
+    }
+  }
+
+  // Resumes delivery of messages a previous process accepted but never finished
+  private async recoverPendingMessages(): Promise<number> {
+    let recovered: RestoredDelivery[];
+    try {
+      recovered = await this.queue.restore((msg) => this.processEmail(msg));
+    } catch (error) {
+      this.logger.error('Failed to recover queued messages', { error });
+      return 0;
+    }
+
+    for (const { message, delivery } of recovered) {
+      const submittedAt = this.getCurrentTime();
+      this.trackStatus(message.id, {
+        type: MESSAGE_STATE.QUEUED,
+        at: submittedAt,
+        to: recipientsOf(message),
+        priority: message.priority ?? PRIORITY.NORMAL,
+      });
+      delivery.then(
+        status => {
+          this.recordSuccess();
+          this.emitSent(status, submittedAt);
+        },
+        error => {
+          this.recordFailure();
+          this.emitFailed(message.id, error, submittedAt);
+        }
+      );
+    }
+    return recovered.length;
+  }
+
+  // Resolves with the number of recovered messages; sendEmail waits for it before queueing
+  whenRecovered(): Promise<number> {
+    return this.recovery;
   }
 
+  // Registers every metric up front so HELP and TYPE lines render before the
+  // first sample; unlabelled series start at zero
   private initializeMetrics(): void {
-    this.metrics.set(METRICS.SUCCESS_COUNTER, 0);
-    this.metrics.set(METRICS.FAILURE_COUNTER, 0);
-    this.metrics.set(METRICS.QUEUE_SIZE_GAUGE, 0);
+    const counters: Array<[string, string]> = [
+      [METRICS.SUCCESS_COUNTER, 'Messages delivered'],
+      [METRICS.FAILURE_COUNTER, 'Messages that could not be delivered'],
+      [METRICS.QUEUE_REJECTED_COUNTER, 'Messages refused because the queue was full'],
+      [METRICS.QUEUE_SHED_COUNTER, 'Queued messages dropped to make room for others'],
+      [METRICS.BATCH_COUNTER, 'Batches sent'],
+      [METRICS.BATCH_MESSAGE_SUCCESS_COUNTER, 'Messages delivered as part of a batch'],
+      [METRICS.BATCH_MESSAGE_FAILURE_COUNTER, 'Messages in a batch that could not be delivered'],
+    ];
+    for (const [name, help] of counters) {
+      this.metrics.counter(name, help).inc({}, 0);
+    }
+    this.metrics.counter(METRICS.DEFERRED_COUNTER, 'Sends put back on the queue because the recipient domain was throttled');
+    this.metrics.counter(METRICS.PROVIDER_SENT_COUNTER, 'Messages delivered, by provider');
+    this.metrics.counter(METRICS.PROVIDER_ERROR_COUNTER, 'Failed send attempts, by provider and error code');
+    this.metrics.counter(METRICS.PROVIDER_TIMEOUT_COUNTER, 'Send attempts cut off by the send timeout, by provider');
+    this.metrics.counter(METRICS.PROVIDER_QUOTA_EXHAUSTED_COUNTER, 'Attempts skipped because the provider was at its rate limit');
+    this.metrics.counter(METRICS.DEAD_LETTER_COUNTER, 'Messages moved to the dead-letter queue, by error code');
+    this.metrics.histogram(METRICS.LATENCY_HISTOGRAM, 'Duration of send attempts, by provider and outcome');
+
+    this.metrics.gauge(METRICS.QUEUE_SIZE_GAUGE, 'Messages waiting in the queue').set({}, 0);
+    this.metrics.gauge(METRICS.QUEUE_HIGH_WATER_MARK_GAUGE, 'Largest queue size since the last reset').set({}, 0);
+    this.metrics.gauge(METRICS.QUEUE_LANE_SIZE_GAUGE, 'Messages waiting in the queue, by priority lane');
+    this.metrics.gauge(METRICS.PROVIDER_TRAFFIC_SHARE_GAUGE, 'Share of delivered messages each provider sent');
+    const status = this.metrics.gauge(METRICS.PROVIDER_STATUS_GAUGE, '1 while the provider passes its health checks, else 0');
+    for (const provider of this.providers) {
+      status.set({ provider: provider.name }, 1);
+    }
+    this.metrics.gauge(METRICS.BATCH_LAST_SIZE_GAUGE, 'Messages in the most recent batch');
+    this.metrics.gauge(METRICS.BATCH_LAST_DURATION_GAUGE, 'Duration of the most recent batch in milliseconds');
   }
 
   async sendEmail(
@@ -84,51 +421,408 @@ export class EmailService {
     from: string,
     subject: string,
     body: string,
-    metadata?: Record<string, unknown>
+    metadata?: Record<string, unknown>,
+    options: SendOptions = {}
   ): Promise<EmailStatus> {
-    this.validateEmailInput(to, from, subject, body);
+    return this.sendMessage({ to, from, subject, body, metadata }, options);
+  }
+
+  async sendMessage(input: MessageInput, options: SendOptions = {}): Promise<EmailStatus> {
+    const content = this.composeMessage(input);
 
     const message: EmailMessage = {
-      id: uuidv4(),
-      to,
-      from,
-      subject,
-      body,
-      metadata,
+      id: options.messageId ?? uuidv4(),
+      ...content,
+      priority: this.resolvePriority(options.priority ?? input.priority, input.metadata),
+      deadline: this.resolveDeadline(options),
     };
 
-    // Check idempotency
-    if (this.sentMessageIds.has(message.id)) {
+    return this.submit(message, options);
+  }
+
+  async sendBatch(requests: EmailRequest[], options: BatchOptions = {}): Promise<BatchResult[]> {
+    const concurrency = options.concurrency ?? DEFAULT_CONFIG.BATCH.CONCURRENCY;
+    if (!(concurrency >= 1)) {
+      throw new EmailError('Batch concurrency must be at least 1', ERROR_CODES.INVALID_CONFIG);
+    }
+
+    const startTime = this.getCurrentTime();
+    const results: BatchResult[] = new Array(requests.length);
+    const progress = { completed: 0, sent: 0, failed: 0, total: requests.length };
+    const complete = (index: number, result: BatchResult) => {
+      results[index] = result;
+      progress.completed++;
+      if (result instanceof EmailError) {
+        progress.failed++;
+      } else {
+        progress.sent++;
+      }
+      try {
+        options.onProgress?.({ index, result, ...progress });
+      } catch (error) {
+        this.logger.error('Batch progress callback failed', { index, error });
+      }
+    };
+
+    // Validate everything before the first send so bad entries never take a slot
+    const pending: number[] = [];
+    const contents: Omit<EmailMessage, 'id'>[] = [];
+    const priorities: (EmailPriority | undefined)[] = [];
+    requests.forEach((request, index) => {
+      try {
+        contents[index] = this.composeMessage(request);
+        priorities[index] = this.resolvePriority(request.priority, request.metadata);
+        pending.push(index);
+      } catch (error) {
+        complete(index, error as EmailError);
+      }
+    });
+
+    let next = 0;
+    const worker = async () => {
+      while (next < pending.length) {
+        const index = pending[next++];
+        const { idempotencyKey } = requests[index];
+        try {
+          const message = { id: uuidv4(), ...contents[index], priority: priorities[index] };
+          complete(index, await this.submit(message, { idempotencyKey }));
+        } catch (error) {
+          complete(index, toEmailError(error));
+        }
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, pending.length) }, () => worker())
+    );
+
+    this.recordBatch(progress.sent, progress.failed, this.getCurrentTime() - startTime);
+    return results;
+  }
+
+  private async submit(message: EmailMessage, options: SendOptions): Promise<EmailStatus> {
+    const notBefore = this.resolveSendTime(options);
+    if (options.messageId && this.queue.has(options.messageId)) {
       throw new EmailError(
-        'Duplicate message ID detected',
+        `Message ${options.messageId} is already queued`,
         ERROR_CODES.DUPLICATE_MESSAGE
       );
     }
 
-    const startTime = Date.now();
+    const { idempotencyKey } = options;
+    if (!idempotencyKey) {
+      return this.deliver(message, notBefore);
+    }
+
+    // Concurrent sends with the same key join the first one instead of racing it
+    const inFlight = this.inFlightSends.get(idempotencyKey);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const delivery = this.deliverOnce(idempotencyKey, message, notBefore);
+    this.inFlightSends.set(idempotencyKey, delivery);
+    try {
+      return await delivery;
+    } finally {
+      this.inFlightSends.delete(idempotencyKey);
+    }
+  }
+
+  private async deliverOnce(
+    idempotencyKey: string,
+    message: EmailMessage,
+    notBefore?: number
+  ): Promise<EmailStatus> {
+    const previous = await this.idempotencyStore.get(idempotencyKey);
+    if (previous) {
+      return previous;
+    }
+
+    const status = await this.deliver(message, notBefore);
+    try {
+      await this.idempotencyStore.set(idempotencyKey, status, this.idempotencyTtl);
+    } catch (error) {
+      this.logger.error('Failed to record idempotency key', { messageId: message.id, idempotencyKey, error });
+    }
+    return status;
+  }
+
+  private async deliver(message: EmailMessage, notBefore?: number): Promise<EmailStatus> {
+    await this.recovery;
+
+    // A traceparent the caller put in the metadata makes this send part of their trace
+    const span = this.tracer.startSpan('email.send', {
+      parent: parseTraceparent(message.metadata?.traceparent),
+      attributes: {
+        'email.message_id': message.id,
+        'email.priority': message.priority ?? PRIORITY.NORMAL,
+        'email.scheduled': notBefore !== undefined,
+      },
+    });
+    message = this.withTraceContext(message, span);
+    const submittedAt = this.getCurrentTime();
+    this.events.emit('queued', {
+      messageId: message.id,
+      priority: message.priority ?? PRIORITY.NORMAL,
+      sendAt: notBefore,
+      at: submittedAt,
+    });
+    this.trackStatus(message.id, {
+      type: MESSAGE_STATE.QUEUED,
+      at: submittedAt,
+      to: recipientsOf(message),
+      priority: message.priority ?? PRIORITY.NORMAL,
+      sendAt: notBefore,
+    });
     try {
-      const status = await this.queue.enqueue(message, (msg) => this.processEmail(msg));
-      this.recordSuccess(startTime);
+      const delivery = this.queue.enqueue(message, (msg) => this.processEmail(msg), notBefore);
+      const status = await (message.deadline === undefined
+        ? delivery
+        : this.withinDeadline(delivery, message));
+      this.recordSuccess();
+      this.emitSent(status, submittedAt);
+      span.setAttributes({ 'email.provider': status.provider, 'email.attempts': status.attempts });
+      endSpan(span);
       return status;
     } catch (error) {
+      const failure = this.recordDeliveryFailure(error);
+      this.emitFailed(message.id, failure, submittedAt);
+      endSpan(span, failure);
+      throw failure;
+    }
+  }
+
+  // Spans started from the message's metadata become children of `span`; the
+  // caller's metadata object is left untouched
+  private withTraceContext(message: EmailMessage, span: Span): EmailMessage {
+    if (!span.isRecording()) {
+      return message;
+    }
+    return {
+      ...message,
+      metadata: { ...message.metadata, traceparent: formatTraceparent(span.spanContext()) },
+    };
+  }
+
+  // Returns the error to hand to the caller
+  private recordDeliveryFailure(error: unknown): unknown {
+    if (error instanceof Error && error.message === 'QUEUE_FULL') {
+      this.incrementMetric(METRICS.QUEUE_REJECTED_COUNTER);
+      return new EmailError('Queue is full', ERROR_CODES.QUEUE_FULL);
+    }
+    if (error instanceof Error && error.message === 'QUEUE_SHED') {
+      this.incrementMetric(METRICS.QUEUE_SHED_COUNTER);
+      this.recordFailure();
+      return new EmailError('Message was dropped to make room in a full queue', ERROR_CODES.MESSAGE_SHED);
+    }
+    if (!(error instanceof EmailError && error.code === ERROR_CODES.MESSAGE_CANCELLED)) {
       this.recordFailure();
-      throw error;
     }
+    return error;
   }
 
-  private validateEmailInput(
-    to: string,
-    from: string,
-    subject: string,
-    body: string
-  ): void {
-    if (!VALIDATION.EMAIL_REGEX.test(to) || !VALIDATION.EMAIL_REGEX.test(from)) {
+  private emitSent(status: EmailStatus, submittedAt: number): void {
+    const at = this.getCurrentTime();
+    this.logger.info('Email sent', {
+      messageId: status.messageId,
+      provider: status.provider,
+      attempts: status.attempts,
+      duration: at - submittedAt,
+    });
+    if (status.rejectedRecipients?.length) {
+      this.logger.warn('Some recipients were rejected', {
+        messageId: status.messageId,
+        provider: status.provider,
+        rejectedRecipients: status.rejectedRecipients,
+      });
+    }
+    this.events.emit('sent', {
+      messageId: status.messageId,
+      provider: status.provider,
+      attempts: status.attempts,
+      duration: at - submittedAt,
+      at,
+    });
+    this.trackStatus(status.messageId, { type: MESSAGE_STATE.SENT, at, provider: status.provider });
+  }
+
+  private emitFailed(messageId: string, error: unknown, submittedAt: number): void {
+    const at = this.getCurrentTime();
+    this.logger.warn('Email failed', { messageId, error, duration: at - submittedAt });
+    const failure = toEmailError(error);
+    this.events.emit('failed', {
+      messageId,
+      error: failure,
+      duration: at - submittedAt,
+      at,
+    });
+    this.trackStatus(messageId, {
+      type: failure.code === ERROR_CODES.MESSAGE_CANCELLED ? MESSAGE_STATE.CANCELLED : MESSAGE_STATE.FAILED,
+      at,
+      error: toRecordedError(failure),
+    });
+  }
+
+  // The history is for looking into a message later; failing to record it
+  // must not affect the send
+  private trackStatus(messageId: string, entry: MessageStatusEntry): void {
+    this.statusStore.append(messageId, entry).catch(error => {
+      this.logger.error('Failed to record message status', { messageId, state: entry.type, error });
+    });
+  }
+
+  // An explicit priority must be valid; metadata.priority is honoured when it happens to be one
+  private resolvePriority(
+    priority: EmailPriority | undefined,
+    metadata?: Record<string, unknown>
+  ): EmailPriority | undefined {
+    if (priority !== undefined) {
+      if (!isPriority(priority)) {
+        throw new EmailError(`Unknown priority: ${priority}`, ERROR_CODES.INVALID_CONFIG);
+      }
+      return priority;
+    }
+    return isPriority(metadata?.priority) ? metadata!.priority as EmailPriority : undefined;
+  }
+
+  private resolveSendTime(options: SendOptions): number | undefined {
+    if (options.sendAt !== undefined && options.delay !== undefined) {
+      throw new EmailError('Specify either sendAt or delay, not both', ERROR_CODES.INVALID_CONFIG);
+    }
+    if (options.delay !== undefined) {
+      if (!(options.delay >= 0)) {
+        throw new EmailError('Delay must not be negative', ERROR_CODES.INVALID_CONFIG);
+      }
+      return this.getCurrentTime() + options.delay;
+    }
+    if (options.sendAt !== undefined) {
+      const sendAt = options.sendAt instanceof Date ? options.sendAt.getTime() : options.sendAt;
+      if (Number.isNaN(sendAt)) {
+        throw new EmailError('sendAt is not a valid time', ERROR_CODES.INVALID_CONFIG);
+      }
+      return sendAt;
+    }
+    return undefined;
+  }
+
+  private resolveDeadline(options: SendOptions): number | undefined {
+    if (options.deadline === undefined) {
+      return undefined;
+    }
+    const deadline = options.deadline instanceof Date ? options.deadline.getTime() : options.deadline;
+    if (Number.isNaN(deadline)) {
+      throw new EmailError('deadline is not a valid time', ERROR_CODES.INVALID_CONFIG);
+    }
+    return deadline;
+  }
+
+  // Rejects once the message's deadline passes, even while it is still waiting
+  // in the queue; the queue drops it without a send when its turn comes
+  private withinDeadline(delivery: Promise<EmailStatus>, message: EmailMessage): Promise<EmailStatus> {
+    delivery.catch(() => undefined);
+    let timer: NodeJS.Timeout | undefined;
+    const expired = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(this.deadlineExceeded(message)),
+        Math.max(0, message.deadline! - this.getCurrentTime())
+      );
+    });
+    return Promise.race([delivery, expired]).finally(() => clearTimeout(timer));
+  }
+
+  private deadlineExceeded(message: EmailMessage, lastError?: Error): EmailError {
+    return new EmailError(
+      `Message ${message.id} was not sent before its deadline${lastError ? `: ${lastError.message}` : ''}`,
+      ERROR_CODES.DEADLINE_EXCEEDED,
+      lastError
+    );
+  }
+
+  listScheduled(): ScheduledMessage[] {
+    return this.queue.getScheduled().map(record => ({
+      message: record.message,
+      sendAt: new Date(record.notBefore!),
+    }));
+  }
+
+  async reschedule(messageId: string, sendAt: Date | number): Promise<void> {
+    const notBefore = this.resolveSendTime({ sendAt });
+    if (!(await this.queue.reschedule(messageId, notBefore!))) {
       throw new EmailError(
-        'Invalid email address format',
-        ERROR_CODES.INVALID_CONFIG
+        `No scheduled message with id ${messageId}`,
+        ERROR_CODES.MESSAGE_NOT_FOUND
+      );
+    }
+  }
+
+  async cancelScheduled(messageId: string): Promise<void> {
+    const cancelled = await this.queue.cancel(
+      messageId,
+      new EmailError(`Message ${messageId} was cancelled`, ERROR_CODES.MESSAGE_CANCELLED)
+    );
+    if (!cancelled) {
+      throw new EmailError(
+        `No scheduled message with id ${messageId}`,
+        ERROR_CODES.MESSAGE_NOT_FOUND
       );
     }
+  }
 
+  // Normalizes the caller's addresses into the shape providers receive, and
+  // rejects anything that should not go on the wire
+  private composeMessage(input: MessageInput): Omit<EmailMessage, 'id'> {
+    const optionalList = (list: MessageInput['cc']) => (list === undefined ? undefined : parseAddressList(list));
+    const content = {
+      from: parseAddress(input.from),
+      to: parseAddressList(input.to),
+      cc: optionalList(input.cc),
+      bcc: optionalList(input.bcc),
+      replyTo: optionalList(input.replyTo),
+      subject: input.subject,
+      body: input.body,
+      html: input.html,
+      attachments: input.attachments?.map(toAttachment),
+      inReplyTo: input.inReplyTo,
+      references: input.references && [...input.references],
+      headers: input.headers && { ...input.headers },
+      metadata: input.metadata,
+    };
+    this.validateMessage(content);
+    return content;
+  }
+
+  private validateMessage(message: Omit<EmailMessage, 'id'>): void {
+    this.validateAddress(message.from, 'from');
+    for (const field of ['to', 'cc', 'bcc', 'replyTo'] as const) {
+      for (const address of message[field] ?? []) {
+        this.validateAddress(address, field);
+      }
+    }
+    if (recipientsOf(message).length === 0) {
+      throw new EmailError('A message needs at least one recipient', ERROR_CODES.INVALID_CONFIG);
+    }
+
+    for (const [name, value] of Object.entries(message.headers ?? {})) {
+      if (
+        !VALIDATION.HEADER_NAME_REGEX.test(name) ||
+        (VALIDATION.RESERVED_HEADERS as readonly string[]).includes(name.toLowerCase())
+      ) {
+        throw new EmailError(`Invalid custom header: ${name}`, ERROR_CODES.INVALID_CONFIG);
+      }
+      // A line break would let the value inject headers of its own
+      if (/[\r\n]/.test(value)) {
+        throw new EmailError(`Header ${name} must not contain line breaks`, ERROR_CODES.INVALID_CONFIG);
+      }
+    }
+
+    const threadIds = [message.inReplyTo, ...(message.references ?? [])].filter((id): id is string => id !== undefined);
+    for (const id of threadIds) {
+      if (!VALIDATION.MESSAGE_ID_REGEX.test(id)) {
+        throw new EmailError(`Invalid Message-ID: ${id}`, ERROR_CODES.INVALID_CONFIG);
+      }
+    }
+
+    const { subject, body, html } = message;
     if (subject.length > VALIDATION.MAX_SUBJECT_LENGTH) {
       throw new EmailError(
         `Subject exceeds maximum length of ${VALIDATION.MAX_SUBJECT_LENGTH} characters`,
@@ -136,43 +830,151 @@ export class EmailService {
       );
     }
 
-    if (body.length > VALIDATION.MAX_BODY_LENGTH) {
+    if (body.length > VALIDATION.MAX_BODY_LENGTH || (html?.length ?? 0) > VALIDATION.MAX_BODY_LENGTH) {
       throw new EmailError(
         `Body exceeds maximum length of ${VALIDATION.MAX_BODY_LENGTH} characters`,
         ERROR_CODES.INVALID_CONFIG
       );
     }
+
+    this.validateAttachments(message.attachments ?? []);
+  }
+
+  private validateAttachments(attachments: EmailAttachment[]): void {
+    let size = 0;
+    for (const { filename, contentType, content, contentId } of attachments) {
+      if (!filename || /[\r\n]/.test(filename)) {
+        throw new EmailError('Attachments need a filename without line breaks', ERROR_CODES.INVALID_CONFIG);
+      }
+      if (!VALIDATION.CONTENT_TYPE_REGEX.test(contentType)) {
+        throw new EmailError(`Invalid content type for ${filename}: ${contentType}`, ERROR_CODES.INVALID_CONFIG);
+      }
+      if (contentId !== undefined && !/^[^\s<>]+$/.test(contentId)) {
+        throw new EmailError(`Invalid content id for ${filename}: ${contentId}`, ERROR_CODES.INVALID_CONFIG);
+      }
+      size += Buffer.byteLength(content, 'base64');
+    }
+    if (size > VALIDATION.MAX_ATTACHMENTS_SIZE) {
+      throw new EmailError(
+        `Attachments exceed the maximum total size of ${VALIDATION.MAX_ATTACHMENTS_SIZE} bytes`,
+        ERROR_CODES.INVALID_CONFIG
+      );
+    }
+  }
+
+  private validateAddress({ address, name }: EmailAddress, field: string): void {
+    if (address.length > VALIDATION.MAX_EMAIL_LENGTH || !VALIDATION.EMAIL_REGEX.test(address)) {
+      throw new EmailError(`Invalid email address in ${field}: ${address}`, ERROR_CODES.INVALID_CONFIG);
+    }
+    if (name && /[\r\n]/.test(name)) {
+      throw new EmailError(`Display name in ${field} must not contain line breaks`, ERROR_CODES.INVALID_CONFIG);
+    }
   }
 
   private async processEmail(message: EmailMessage): Promise<EmailStatus> {
+    const span = this.tracer.startSpan('email.process', {
+      parent: parseTraceparent(message.metadata?.traceparent),
+      kind: SPAN_KIND.CONSUMER,
+      attributes: { 'email.message_id': message.id },
+    });
     try {
-      await this.rateLimiter.acquire();
+      const status = await this.tryProviders(message, span);
+      span.setAttributes({ 'email.provider': status.provider, 'email.attempts': status.attempts });
+      endSpan(span);
+      return status;
     } catch (error) {
-      if (error instanceof Error && error.message === 'RATE_LIMIT') {
-        throw new EmailError('Rate limit exceeded', ERROR_CODES.RATE_LIMIT);
-      }
+      endSpan(span, error);
       throw error;
     }
+  }
+
+  private async tryProviders(message: EmailMessage, span: Span): Promise<EmailStatus> {
+    if (message.deadline !== undefined && this.getCurrentTime() >= message.deadline) {
+      throw this.deadlineExceeded(message);
+    }
+    await this.acquireRateLimits(message, span);
 
     let lastError: Error | undefined;
     let attempts = 0;
     let lastProviderName: string | undefined;
+    // Providers whose setup is broken are not tried again for this message
+    const misconfigured = new Set<string>();
+    let onlyMisconfigured = false;
 
     while (attempts < this.retryConfig.maxAttempts) {
       attempts++;
       const delay = this.calculateBackoffDelay(attempts);
+      // The provider that last failed in this round, reported when the next one takes over
+      let abandoned: { provider: string; error: Error } | undefined;
 
-      for (const provider of this.providers) {
+      const candidates = this.selectProviders(message);
+      for (const provider of candidates) {
+        if (misconfigured.has(provider.name)) {
+          continue;
+        }
         const circuitBreaker = this.circuitBreakers.get(provider.name)!;
         lastProviderName = provider.name;
 
         try {
-          if (circuitBreaker.getState() === CIRCUIT_STATE.OPEN) {
+          if (!(await this.takeProviderQuota(provider.name))) {
+            span.addEvent('provider_rate_limited', { 'email.provider': provider.name });
+            lastError = new EmailError(
+              `Provider ${provider.name} is at its rate limit`,
+              ERROR_CODES.RATE_LIMIT_EXCEEDED
+            );
             continue;
           }
+          // Skip open circuits, and half-open ones whose probe another worker holds.
+          // Nothing is awaited from here to execute(), so the permit still holds there.
+          if (!circuitBreaker.isCallPermitted()) {
+            await this.releaseProviderQuota(provider.name);
+            // Reported only when nothing else failed, so a real send error is not masked
+            lastError = lastError ?? new EmailError(
+              `Circuit breaker for provider ${provider.name} is open`,
+              ERROR_CODES.CIRCUIT_BREAKER_OPEN
+            );
+            span.addEvent('provider_skipped', {
+              'email.provider': provider.name,
+              'email.circuit_state': circuitBreaker.getState(),
+            });
+            continue;
+          }
+
+          if (abandoned) {
+            this.events.emit('failover', {
+              messageId: message.id,
+              from: abandoned.provider,
+              to: provider.name,
+              attempt: attempts,
+              error: abandoned.error,
+              at: this.getCurrentTime(),
+            });
+            abandoned = undefined;
+          }
 
-          const status = await circuitBreaker.execute(() => provider.send(message));
-          this.sentMessageIds.add(message.id);
+          const sendStart = this.getCurrentTime();
+          const attemptSpan = this.tracer.startSpan('email.provider.send', {
+            parent: span.spanContext(),
+            kind: SPAN_KIND.CLIENT,
+            attributes: {
+              'email.message_id': message.id,
+              'email.provider': provider.name,
+              'email.attempt': attempts,
+              'email.circuit_state': circuitBreaker.getState(),
+            },
+          });
+          // Providers that forward the traceparent tie their side to this attempt
+          const traced = this.withTraceContext(message, attemptSpan);
+          let status: EmailStatus;
+          try {
+            status = await circuitBreaker.execute(() => this.sendWithTimeout(provider, traced));
+          } catch (error) {
+            endSpan(attemptSpan, error);
+            this.recordAttempt(message, provider.name, attempts, sendStart, error);
+            throw error;
+          }
+          endSpan(attemptSpan);
+          this.recordAttempt(message, provider.name, attempts, sendStart);
           return {
             ...status,
             attempts,
@@ -180,13 +982,48 @@ export class EmailService {
           };
         } catch (error) {
           lastError = error instanceof Error ? error : new Error(String(error));
-          console.error(
-            `Provider ${lastProviderName} failed: ${lastError.message}`
-          );
+          this.logger.warn('Provider failed to send', {
+            messageId: message.id,
+            provider: provider.name,
+            attempt: attempts,
+            circuitState: circuitBreaker.getState(),
+            error: lastError,
+          });
+
+          const category = categoryOf(error);
+          if (category === ERROR_CATEGORY.PERMANENT) {
+            // Another provider or another attempt would be refused the same way
+            throw error;
+          }
+          if (category === ERROR_CATEGORY.CONFIGURATION) {
+            misconfigured.add(provider.name);
+          }
+          abandoned = { provider: provider.name, error: lastError };
         }
       }
 
+      // Compared with this message's candidates, which a forced provider narrows to one
+      onlyMisconfigured = candidates.length > 0 && candidates.every(provider => misconfigured.has(provider.name));
+      if (onlyMisconfigured) {
+        break;
+      }
       if (attempts < this.retryConfig.maxAttempts) {
+        if (message.deadline !== undefined && this.getCurrentTime() + delay >= message.deadline) {
+          throw this.deadlineExceeded(message, lastError);
+        }
+        span.addEvent('retry', { 'email.attempt': attempts + 1, 'email.retry_delay': delay });
+        this.logger.info('Retrying message after backoff', {
+          messageId: message.id,
+          attempt: attempts + 1,
+          delay,
+        });
+        this.events.emit('retry', {
+          messageId: message.id,
+          attempt: attempts + 1,
+          delay,
+          error: lastError,
+          at: this.getCurrentTime(),
+        });
         await new Promise(resolve => setTimeout(resolve, delay));
       }
     }
@@ -194,8 +1031,205 @@ export class EmailService {
     throw new EmailError(
       `All providers failed after ${attempts} attempts${lastProviderName ? ` (last provider: ${lastProviderName})` : ''}: ${lastError?.message}`,
       ERROR_CODES.ALL_PROVIDERS_FAILED,
-      lastError
+      lastError,
+      // Retrying later will not help until the configuration is fixed
+      { category: onlyMisconfigured ? ERROR_CATEGORY.CONFIGURATION : undefined }
+    );
+  }
+
+  // Waits for the recipient domain's and the global rate limit
+  private async acquireRateLimits(message: EmailMessage, parent: Span): Promise<void> {
+    const span = this.tracer.startSpan('email.rate_limit', {
+      parent: parent.spanContext(),
+      attributes: { 'email.message_id': message.id },
+    });
+    try {
+      const domainSlots = await this.throttleDomain(message);
+      try {
+        await this.rateLimiter.acquire();
+      } catch (error) {
+        await this.releaseSlots(domainSlots);
+        throw error;
+      }
+      endSpan(span);
+    } catch (error) {
+      const failure = error instanceof Error && error.message === 'RATE_LIMIT'
+        ? new EmailError('Rate limit exceeded', ERROR_CODES.RATE_LIMIT)
+        : error;
+      endSpan(span, failure);
+      throw failure;
+    }
+  }
+
+  // A hung provider would otherwise hold its worker forever. The attempt is
+  // also cut short when the message's deadline comes first.
+  private async sendWithTimeout(provider: EmailProvider, message: EmailMessage): Promise<EmailStatus> {
+    const remaining = message.deadline === undefined
+      ? Infinity
+      : message.deadline - this.getCurrentTime();
+    if (remaining <= 0) {
+      throw this.deadlineExceeded(message);
+    }
+
+    const timeout = Math.min(this.sendTimeout, remaining);
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        if (timeout < this.sendTimeout) {
+          reject(this.deadlineExceeded(message));
+          return;
+        }
+        this.incrementMetric(METRICS.PROVIDER_TIMEOUT_COUNTER, { provider: provider.name });
+        reject(new EmailError(
+          `Provider ${provider.name} did not respond within ${timeout}ms`,
+          ERROR_CODES.SEND_TIMEOUT
+        ));
+      }, timeout);
+    });
+
+    try {
+      return await Promise.race([provider.send(message, { signal: controller.signal, date: new Date(this.getCurrentTime()) }), timedOut]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Receiving domains throttle senders on their own terms; a message over the
+  // limit of any of its recipients' domains goes back on the queue for later
+  // rather than failing. Resolves to the limiters it took a slot from.
+  private async throttleDomain(message: EmailMessage): Promise<RateLimiter[]> {
+    const domains = new Set(recipientsOf(message).map(recipient => recipient.split('@').pop()!.toLowerCase()));
+    // Slots taken so far, given back if a later domain turns the message away
+    const taken: RateLimiter[] = [];
+    for (const domain of domains) {
+      const limiter = this.domainRateLimiters.get(domain);
+      if (!limiter) {
+        continue;
+      }
+
+      try {
+        await limiter.acquire({ wait: false });
+        taken.push(limiter);
+      } catch (error) {
+        await this.releaseSlots(taken);
+        if (!(error instanceof Error && error.message === 'RATE_LIMIT')) {
+          throw error;
+        }
+        this.incrementMetric(METRICS.DEFERRED_COUNTER);
+        throw new EmailError(
+          `Sending to ${domain} is throttled`,
+          ERROR_CODES.DOMAIN_THROTTLED,
+          error as Error,
+          { retryAfter: Math.max(1, limiter.getTimeUntilNextAvailable()) }
+        );
+      }
+    }
+    return taken;
+  }
+
+  private async releaseProviderQuota(providerName: string): Promise<void> {
+    const limiter = this.providerRateLimiters.get(providerName);
+    if (limiter) {
+      await this.releaseSlots([limiter]);
+    }
+  }
+
+  // A slot that cannot be given back only delays later messages, so a failure is logged, not thrown
+  private async releaseSlots(limiters: RateLimiter[]): Promise<void> {
+    await Promise.all(
+      limiters.map(limiter =>
+        limiter.release().catch(error => this.logger.error('Failed to release a rate limit slot', { error }))
+      )
+    );
+  }
+
+  private async takeProviderQuota(providerName: string): Promise<boolean> {
+    const limiter = this.providerRateLimiters.get(providerName);
+    if (!limiter) {
+      return true;
+    }
+
+    try {
+      await limiter.acquire({ wait: false });
+      return true;
+    } catch (error) {
+      if (!(error instanceof Error && error.message === 'RATE_LIMIT')) {
+        throw error;
+      }
+      this.incrementMetric(METRICS.PROVIDER_QUOTA_EXHAUSTED_COUNTER, { provider: providerName });
+      return false;
+    }
+  }
+
+  // Providers failing their health checks are skipped, unless every provider
+  // is; the checks may be wrong, so a send is still attempted then. The
+  // routing strategy decides the order the rest are tried in.
+  private selectProviders(message: EmailMessage): EmailProvider[] {
+    if (message.provider !== undefined) {
+      return this.providers.filter(provider => provider.name === message.provider);
+    }
+    const healthy = this.providers.filter(
+      provider => this.healthMonitor?.isHealthy(provider.name) ?? true
     );
+    return this.providerSelector.select(healthy.length > 0 ? healthy : this.providers, message);
+  }
+
+  private recordAttempt(
+    message: EmailMessage,
+    providerName: string,
+    attempt: number,
+    startTime: number,
+    error?: unknown
+  ): void {
+    const ok = error === undefined;
+    const at = this.getCurrentTime();
+    const failure = ok ? undefined : toEmailError(error);
+    this.events.emit('attempt', {
+      messageId: message.id,
+      provider: providerName,
+      attempt,
+      latency: at - startTime,
+      error: failure,
+      at,
+    });
+    this.trackStatus(message.id, {
+      type: 'attempt',
+      at,
+      provider: providerName,
+      attempt,
+      latency: at - startTime,
+      error: failure && toRecordedError(failure),
+    });
+    this.metrics
+      .histogram(METRICS.LATENCY_HISTOGRAM)
+      .observe({ provider: providerName, outcome: ok ? 'success' : 'failure' }, (at - startTime) / 1000);
+    if (failure) {
+      this.incrementMetric(METRICS.PROVIDER_ERROR_COUNTER, { provider: providerName, code: failure.code });
+    }
+    try {
+      this.providerSelector.recordResult?.(providerName, { ok, latency: at - startTime });
+    } catch (selectorError) {
+      this.logger.error('Provider selector failed to record a result', {
+        provider: providerName,
+        error: selectorError,
+      });
+    }
+    if (!ok) {
+      return;
+    }
+
+    this.incrementMetric(METRICS.PROVIDER_SENT_COUNTER, { provider: providerName });
+    const counter = this.metrics.counter(METRICS.PROVIDER_SENT_COUNTER);
+    const sent = this.providers.map(provider => ({
+      name: provider.name,
+      count: counter.get({ provider: provider.name }),
+    }));
+    const total = sent.reduce((sum, { count }) => sum + count, 0);
+    for (const { name, count } of sent) {
+      this.setGauge(METRICS.PROVIDER_TRAFFIC_SHARE_GAUGE, { provider: name }, count / total);
+    }
   }
 
   private calculateBackoffDelay(attempt: number): number {
@@ -207,48 +1241,241 @@ export class EmailService {
     return delay * (0.75 + Math.random() * 0.5);
   }
 
-  private recordSuccess(startTime: number): void {
-    const latency = Date.now() - startTime;
-    this.metrics.set(
-      METRICS.SUCCESS_COUNTER,
-      (this.metrics.get(METRICS.SUCCESS_COUNTER) || 0) + 1
-    );
-    this.metrics.set(
-      METRICS.LATENCY_HISTOGRAM,
-      (this.metrics.get(METRICS.LATENCY_HISTOGRAM) || 0) + latency
-    );
+  private recordSuccess(): void {
+    this.incrementMetric(METRICS.SUCCESS_COUNTER);
+  }
+
+  private incrementMetric(name: string, labels: MetricLabels = {}, amount = 1): void {
+    this.metrics.counter(name).inc(labels, amount);
+  }
+
+  private setGauge(name: string, labels: MetricLabels, value: number): void {
+    this.metrics.gauge(name).set(labels, value);
+  }
+
+  private recordBatch(sent: number, failed: number, duration: number): void {
+    this.incrementMetric(METRICS.BATCH_COUNTER);
+    this.incrementMetric(METRICS.BATCH_MESSAGE_SUCCESS_COUNTER, {}, sent);
+    this.incrementMetric(METRICS.BATCH_MESSAGE_FAILURE_COUNTER, {}, failed);
+    this.setGauge(METRICS.BATCH_LAST_SIZE_GAUGE, {}, sent + failed);
+    this.setGauge(METRICS.BATCH_LAST_DURATION_GAUGE, {}, duration);
   }
 
   private recordFailure(): void {
-    this.metrics.set(
-      METRICS.FAILURE_COUNTER,
-      (this.metrics.get(METRICS.FAILURE_COUNTER) || 0) + 1
-    );
+    this.incrementMetric(METRICS.FAILURE_COUNTER);
   }
 
-  async getProviderStatus(): Promise<Record<string, typeof CIRCUIT_STATE[keyof typeof CIRCUIT_STATE]>> {
-    const status: Record<string, typeof CIRCUIT_STATE[keyof typeof CIRCUIT_STATE]> = {};
+  async getProviderStatus(): Promise<Record<string, ProviderStatus>> {
+    const status: Record<string, ProviderStatus> = {};
     for (const [name, breaker] of this.circuitBreakers) {
-      status[name] = breaker.getState();
+      const health = this.healthMonitor?.getHealth(name);
+      status[name] = {
+        circuitState: breaker.getState(),
+        healthy: health?.healthy ?? true,
+        lastCheck: health?.lastCheck,
+      };
+      this.setGauge(METRICS.PROVIDER_STATUS_GAUGE, { provider: name }, status[name].healthy ? 1 : 0);
     }
     return status;
   }
 
+  // Each provider's circuit state alone; getProviderStatus() returned this shape before health checks
+  async getCircuitStates(): Promise<Record<string, CircuitStateType>> {
+    const states: Record<string, CircuitStateType> = {};
+    for (const [name, breaker] of this.circuitBreakers) {
+      states[name] = breaker.getState();
+    }
+    return states;
+  }
+
+  // Runs a round of health checks now instead of waiting for the next interval
+  async checkProviderHealth(): Promise<Record<string, ProviderStatus>> {
+    await this.healthMonitor?.checkAll();
+    return this.getProviderStatus();
+  }
+
+  stopHealthChecks(): void {
+    this.healthMonitor?.stop();
+  }
+
   getQueueLength(): number {
     const length = this.queue.getQueueLength();
-    this.metrics.set(METRICS.QUEUE_SIZE_GAUGE, length);
+    this.setGauge(METRICS.QUEUE_SIZE_GAUGE, {}, length);
+    this.setGauge(METRICS.QUEUE_HIGH_WATER_MARK_GAUGE, {}, this.queue.getHighWaterMark());
     return length;
   }
 
-  getCurrentRateLimit(): { current: number; max: number } {
+  // Starts a new observation window for the high-water mark
+  resetQueueHighWaterMark(): void {
+    this.queue.resetHighWaterMark();
+    this.setGauge(METRICS.QUEUE_HIGH_WATER_MARK_GAUGE, {}, this.queue.getHighWaterMark());
+  }
+
+  getQueueDepthByLane(): Record<EmailPriority, number> {
+    const depth = this.queue.getQueueDepthByLane();
+    for (const [lane, size] of Object.entries(depth)) {
+      this.setGauge(METRICS.QUEUE_LANE_SIZE_GAUGE, { lane }, size);
+    }
+    return depth;
+  }
+
+  getCurrentRateLimit(): RateLimitStatus {
+    const current = this.rateLimiter.getCurrentRequestCount();
+    const max = this.rateLimiter.getLimit();
     return {
-      current: this.rateLimiter.getCurrentRequestCount(),
-      max: this.rateLimiter.getTimeUntilNextAvailable(),
+      current,
+      max,
+      available: Math.max(0, max - current),
+      retryAfter: this.rateLimiter.getTimeUntilNextAvailable(),
+      waiting: this.rateLimiter.getWaitingCount(),
     };
   }
 
+  // Subscribes to a lifecycle event; returns a function that unsubscribes
+  on<K extends keyof EmailServiceEvents>(
+    event: K,
+    listener: (payload: EmailServiceEvents[K]) => void
+  ): () => void {
+    return this.events.on(event, listener);
+  }
+
+  off<K extends keyof EmailServiceEvents>(
+    event: K,
+    listener: (payload: EmailServiceEvents[K]) => void
+  ): void {
+    this.events.off(event, listener);
+  }
+
+  private async storeDeadLetter(record: QueueRecord, error: Error): Promise<void> {
+    const { message } = record;
+    const failure = toEmailError(error);
+    // The history is a convenience; a status store that is down must not stop the move
+    const status = await this.statusStore.get(message.id).catch(() => undefined);
+    await this.deadLetterStore.add({
+      message,
+      error: toRecordedError(failure),
+      attempts: record.attempts + 1,
+      history: status?.history ?? [],
+      failedAt: this.getCurrentTime(),
+    });
+    this.incrementMetric(METRICS.DEAD_LETTER_COUNTER, { code: failure.code });
+    this.logger.warn('Message moved to the dead-letter queue', { messageId: message.id, error: failure });
+  }
+
+  // Newest first
+  async listDeadLetters(query: DeadLetterQuery = {}): Promise<DeadLetter[]> {
+    const since = query.since === undefined ? -Infinity : new Date(query.since).getTime();
+    const until = query.until === undefined ? Infinity : new Date(query.until).getTime();
+    const matches = (await this.deadLetterStore.list())
+      .reverse()
+      .filter(letter =>
+        (!query.code || letter.error.code === query.code) &&
+        letter.failedAt >= since &&
+        letter.failedAt < until
+      );
+    return query.limit === undefined ? matches : matches.slice(0, query.limit);
+  }
+
+  getDeadLetter(messageId: string): Promise<DeadLetter | undefined> {
+    return this.deadLetterStore.get(messageId);
+  }
+
+  async purgeDeadLetter(messageId: string): Promise<void> {
+    if (!(await this.deadLetterStore.remove(messageId))) {
+      throw new EmailError(`No dead letter with id ${messageId}`, ERROR_CODES.MESSAGE_NOT_FOUND);
+    }
+  }
+
+  // Resolves with the number of dead letters removed
+  async purgeDeadLetters(query: DeadLetterQuery = {}): Promise<number> {
+    const letters = await this.listDeadLetters(query);
+    for (const letter of letters) {
+      await this.deadLetterStore.remove(letter.message.id);
+    }
+    return letters.length;
+  }
+
+  // Sends the message again under its original id, without its deadline. If it
+  // fails for good again, it comes back as a new dead letter.
+  async replayDeadLetter(messageId: string, options: ReplayOptions = {}): Promise<EmailStatus> {
+    this.validateReplayOptions(options);
+    const letter = await this.deadLetterStore.get(messageId);
+    if (!letter) {
+      throw new EmailError(`No dead letter with id ${messageId}`, ERROR_CODES.MESSAGE_NOT_FOUND);
+    }
+
+    await this.deadLetterStore.remove(messageId);
+    const message: EmailMessage = {
+      ...letter.message,
+      deadline: undefined,
+      provider: options.provider ?? letter.message.provider,
+    };
+    try {
+      return await this.submit(message, { messageId });
+    } catch (error) {
+      // A message that fails for good again is already back as a new dead
+      // letter; one the queue refused or dropped must not be lost
+      if (!(await this.deadLetterStore.get(messageId))) {
+        await this.deadLetterStore.add(letter);
+      }
+      throw error;
+    }
+  }
+
+  // Results line up with listDeadLetters(query); a replay that fails does not stop the others
+  async replayDeadLetters(query: DeadLetterQuery = {}, options: ReplayOptions = {}): Promise<BatchResult[]> {
+    this.validateReplayOptions(options);
+    const concurrency = options.concurrency ?? DEFAULT_CONFIG.BATCH.CONCURRENCY;
+    const letters = await this.listDeadLetters(query);
+
+    // A bounded number in flight keeps a large backlog from overflowing the queue
+    const results: BatchResult[] = new Array(letters.length);
+    let next = 0;
+    const worker = async () => {
+      while (next < letters.length) {
+        const index = next++;
+        results[index] = await this.replayDeadLetter(letters[index].message.id, options).catch(toEmailError);
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, letters.length) }, () => worker())
+    );
+    return results;
+  }
+
+  private validateReplayOptions(options: ReplayOptions): void {
+    if (options.concurrency !== undefined && !(options.concurrency >= 1)) {
+      throw new EmailError('Replay concurrency must be at least 1', ERROR_CODES.INVALID_CONFIG);
+    }
+    if (options.provider !== undefined && !this.providers.some(provider => provider.name === options.provider)) {
+      throw new EmailError(`Unknown provider: ${options.provider}`, ERROR_CODES.INVALID_CONFIG);
+    }
+  }
+
+  // Everything recorded about a message so far, while its record is retained
+  getStatus(messageId: string): Promise<MessageStatusRecord | undefined> {
+    return this.statusStore.get(messageId);
+  }
+
+  listMessages(query: MessageStatusQuery = {}): Promise<MessageStatusRecord[]> {
+    return this.statusStore.list(query);
+  }
+
+  // Every series keyed the way Prometheus renders it, e.g. `name{provider="a"}`
   getMetrics(): Map<string, number> {
-    return new Map(this.metrics);
+    this.refreshQueueGauges();
+    return this.metrics.snapshot();
+  }
+
+  // The Prometheus text exposition format, for a /metrics endpoint
+  getPrometheusMetrics(): string {
+    this.refreshQueueGauges();
+    return this.metrics.render();
+  }
+
+  private refreshQueueGauges(): void {
+    this.getQueueLength();
+    this.getQueueDepthByLane();
   }
 
   resetCircuitBreakers(): void {
@@ -257,12 +1484,24 @@ export class EmailService {
     }
   }
 
+  // Waiting messages are rejected with QUEUE_CLEARED; sends already in flight finish
   clearQueue(): void {
-    this.queue.clear();
-    this.metrics.set(METRICS.QUEUE_SIZE_GAUGE, 0);
+    this.queue.clear(new EmailError('Queue cleared', ERROR_CODES.QUEUE_CLEARED));
+    this.setGauge(METRICS.QUEUE_SIZE_GAUGE, {}, this.queue.getQueueLength());
+  }
+
+  // Resolves once every message that is due has been processed; messages scheduled for a
+  // later send time are not waited for
+  async drain(): Promise<void> {
+    await this.queue.drain();
+  }
+
+  async clearIdempotencyKeys(): Promise<void> {
+    await this.idempotencyStore.clear();
   }
 
-  clearSentMessageIds(): void {
-    this.sentMessageIds.clear();
+  /** @deprecated Use clearIdempotencyKeys(), which this now calls */
+  clearSentMessageIds(): Promise<void> {
+    return this.clearIdempotencyKeys();
   }
 }
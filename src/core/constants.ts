@@ -9,7 +9,42 @@ export const ERROR_CODES = {
     CIRCUIT_BREAKER_OPEN: 'CIRCUIT_BREAKER_OPEN',
     INVALID_CONFIG: 'INVALID_CONFIG',
     QUEUE_FULL: 'QUEUE_FULL',
+    AUTH_FAILED: 'AUTH_FAILED',
+    RECIPIENT_REJECTED: 'RECIPIENT_REJECTED',
+    CONNECTION_FAILED: 'CONNECTION_FAILED',
+    REQUEST_REJECTED: 'REQUEST_REJECTED',
+    MESSAGE_CANCELLED: 'MESSAGE_CANCELLED',
+    MESSAGE_NOT_FOUND: 'MESSAGE_NOT_FOUND',
+    QUEUE_CLEARED: 'QUEUE_CLEARED',
+    DOMAIN_THROTTLED: 'DOMAIN_THROTTLED',
+    MESSAGE_SHED: 'MESSAGE_SHED',
+    SEND_TIMEOUT: 'SEND_TIMEOUT',
+    DEADLINE_EXCEEDED: 'DEADLINE_EXCEEDED',
   } as const;
+
+  // How an error should be handled, independent of which code it carries
+  export const ERROR_CATEGORY = {
+    TRANSIENT: 'transient', // may succeed if retried, possibly elsewhere
+    PERMANENT: 'permanent', // this message will never be accepted; fail fast
+    RATE_LIMITED: 'rate-limited', // try another provider or later, the provider is fine
+    CONFIGURATION: 'configuration', // the provider is unusable until someone fixes its setup
+  } as const;
+
+  // Category an EmailError gets when whoever throws it does not choose one;
+  // codes not listed here are transient
+  export const ERROR_CODE_CATEGORY: Partial<Record<keyof typeof ERROR_CODES, typeof ERROR_CATEGORY[keyof typeof ERROR_CATEGORY]>> = {
+    DUPLICATE_MESSAGE: 'permanent',
+    RECIPIENT_REJECTED: 'permanent',
+    REQUEST_REJECTED: 'permanent',
+    MESSAGE_CANCELLED: 'permanent',
+    MESSAGE_NOT_FOUND: 'permanent',
+    DEADLINE_EXCEEDED: 'permanent',
+    RATE_LIMIT_EXCEEDED: 'rate-limited',
+    RATE_LIMIT: 'rate-limited',
+    DOMAIN_THROTTLED: 'rate-limited',
+    AUTH_FAILED: 'configuration',
+    INVALID_CONFIG: 'configuration',
+  };
   
   // Default Configuration Values
   export const DEFAULT_CONFIG = {
@@ -22,18 +57,63 @@ export const ERROR_CODES = {
     RATE_LIMITER: {
       MAX_REQUESTS: 10,
       TIME_WINDOW: 1000, // 1 second
+      STRATEGY: 'sliding-window',
+      MAX_WAIT: 5000, // longest a waiting acquire blocks
     },
     CIRCUIT_BREAKER: {
       FAILURE_THRESHOLD: 5,
       RESET_TIMEOUT: 30000, // 30 seconds
+      MODE: 'count',
+      FAILURE_RATE_THRESHOLD: 50, // percent
+      WINDOW_SIZE: 20, // calls
+      MINIMUM_VOLUME: 10,
+      HALF_OPEN_MAX_PROBES: 1,
+      SUCCESS_THRESHOLD: 1,
     },
     QUEUE: {
       MAX_SIZE: 1000,
       PROCESSING_INTERVAL: 100, // 100ms
+      CONCURRENCY: 1,
+      OVERFLOW_POLICY: 'reject',
+      OVERFLOW_TIMEOUT: 30000, // how long the wait policy blocks a sender
+      // Relative share of dispatches each lane gets while all lanes have work
+      PRIORITY_WEIGHTS: {
+        high: 6,
+        normal: 3,
+        low: 1,
+      },
     },
     PROVIDER: {
       HEALTH_CHECK_INTERVAL: 5000, // 5 sec
-      TIMEOUT: 5000, // 5 seconds
+      TIMEOUT: 5000, // 5 seconds, for a send attempt or a health check
+      UNHEALTHY_THRESHOLD: 3, // failed checks in a row
+      HEALTHY_THRESHOLD: 2, // passed checks in a row
+      ROUTING_STRATEGY: 'priority',
+      LATENCY_SMOOTHING: 0.3, // weight of the newest sample in the latency average
+    },
+    BATCH: {
+      CONCURRENCY: 10,
+    },
+    LOGGING: {
+      LEVEL: 'WARN',
+    },
+    METRICS: {
+      // Upper bounds of the latency histogram buckets, in seconds
+      LATENCY_BUCKETS: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    },
+    TRACING: {
+      SERVICE_NAME: 'email-service',
+    },
+    STATUS_STORE: {
+      MAX_MESSAGES: 10000, // oldest records are dropped beyond this
+      RETENTION: 604800000, // 7 days; finished messages are forgotten after this
+    },
+    SMTP: {
+      PORT: 587,
+      MAX_CONNECTIONS: 5,
+      MAX_MESSAGES_PER_CONNECTION: 100,
+      IDLE_TIMEOUT: 30000, // 30 seconds
+      SOCKET_TIMEOUT: 30000, // 30 seconds
     },
   } as const;
   
@@ -44,13 +124,71 @@ export const ERROR_CODES = {
     FAILED: 'failed',
   } as const;
   
+  // Where a message is in its life, as kept by the message status store
+  export const MESSAGE_STATE = {
+    QUEUED: 'queued',
+    SENT: 'sent',
+    FAILED: 'failed',
+    CANCELLED: 'cancelled',
+  } as const;
+
+  // Message Priorities, highest first
+  export const PRIORITY = {
+    HIGH: 'high',
+    NORMAL: 'normal',
+    LOW: 'low',
+  } as const;
+
+  // How the rate limiter counts requests
+  export const RATE_LIMIT_STRATEGY = {
+    SLIDING_WINDOW: 'sliding-window',
+    TOKEN_BUCKET: 'token-bucket',
+  } as const;
+
+  // What enqueue does when the queue is at its maximum size
+  export const OVERFLOW_POLICY = {
+    REJECT: 'reject',
+    WAIT: 'wait',
+    SHED_LOWEST_PRIORITY: 'shed-lowest-priority',
+    SHED_OLDEST: 'shed-oldest',
+  } as const;
+
+  // How EmailService orders providers for each message
+  export const ROUTING_STRATEGY = {
+    PRIORITY: 'priority', // configured order, later providers only on failover
+    WEIGHTED_ROUND_ROBIN: 'weighted-round-robin',
+    LEAST_LATENCY: 'least-latency',
+    LOWEST_COST: 'lowest-cost',
+  } as const;
+  
   // Circuit Breaker States
   export const CIRCUIT_STATE = {
     CLOSED: 'CLOSED',
     OPEN: 'OPEN',
     HALF_OPEN: 'HALF_OPEN',
   } as const;
+
+  // What trips a circuit breaker
+  export const CIRCUIT_BREAKER_MODE = {
+    COUNT: 'count', // failureThreshold failures in total
+    ROLLING_WINDOW: 'rolling-window', // failure percentage over recent calls
+  } as const;
   
+  // Span kinds and status codes, as defined by OpenTelemetry
+  export const SPAN_KIND = {
+    INTERNAL: 'internal',
+    SERVER: 'server',
+    CLIENT: 'client', // an outgoing call, e.g. a provider send
+    PRODUCER: 'producer',
+    CONSUMER: 'consumer',
+  } as const;
+
+  export const SPAN_STATUS = {
+    UNSET: 'unset',
+    OK: 'ok',
+    ERROR: 'error',
+  } as const;
+
   // Logging Levels
   export const LOG_LEVELS = {
     ERROR: 'ERROR',
@@ -70,7 +208,27 @@ export const ERROR_CODES = {
     MAX_EMAIL_LENGTH: 254,
     MAX_SUBJECT_LENGTH: 78,
     MAX_BODY_LENGTH: 1000000, // 1MB
+    MAX_ATTACHMENTS_SIZE: 25 * 1024 * 1024, // in bytes, all attachments together
+    CONTENT_TYPE_REGEX: /^[\w.+-]+\/[\w.+-]+$/,
     EMAIL_REGEX: /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/,
+    HEADER_NAME_REGEX: /^[!-9;-~]+$/, // printable ASCII except the colon
+    MESSAGE_ID_REGEX: /^<?[^\s<>@]+@[^\s<>@]+>?$/,
+    // Written from the message's own fields, so they cannot be set as custom headers
+    RESERVED_HEADERS: [
+      'from',
+      'to',
+      'cc',
+      'bcc',
+      'reply-to',
+      'subject',
+      'date',
+      'message-id',
+      'in-reply-to',
+      'references',
+      'mime-version',
+      'content-type',
+      'content-transfer-encoding',
+    ],
   } as const;
   
   // Metrics Constants
@@ -79,7 +237,23 @@ export const ERROR_CODES = {
     FAILURE_COUNTER: 'email_send_failure_total',
     LATENCY_HISTOGRAM: 'email_send_latency_seconds',
     QUEUE_SIZE_GAUGE: 'email_queue_size',
+    QUEUE_LANE_SIZE_GAUGE: 'email_queue_lane_size',
+    QUEUE_HIGH_WATER_MARK_GAUGE: 'email_queue_high_water_mark',
+    QUEUE_REJECTED_COUNTER: 'email_queue_rejected_total',
+    QUEUE_SHED_COUNTER: 'email_queue_shed_total',
+    DEFERRED_COUNTER: 'email_send_deferred_total',
+    PROVIDER_QUOTA_EXHAUSTED_COUNTER: 'email_provider_quota_exhausted_total',
+    PROVIDER_SENT_COUNTER: 'email_provider_sent_total',
+    PROVIDER_TIMEOUT_COUNTER: 'email_provider_timeout_total',
+    PROVIDER_ERROR_COUNTER: 'email_provider_errors_total',
+    DEAD_LETTER_COUNTER: 'email_dead_letter_total',
+    PROVIDER_TRAFFIC_SHARE_GAUGE: 'email_provider_traffic_share',
     PROVIDER_STATUS_GAUGE: 'email_provider_status',
+    BATCH_COUNTER: 'email_batch_total',
+    BATCH_MESSAGE_SUCCESS_COUNTER: 'email_batch_message_success_total',
+    BATCH_MESSAGE_FAILURE_COUNTER: 'email_batch_message_failure_total',
+    BATCH_LAST_SIZE_GAUGE: 'email_batch_last_size',
+    BATCH_LAST_DURATION_GAUGE: 'email_batch_last_duration_ms',
   } as const;
   
   // Cache Constants
@@ -98,6 +272,26 @@ export const ERROR_CODES = {
     return Object.values(CIRCUIT_STATE).includes(state as any);
   };
   
+  export const isPriority = (priority: unknown): priority is typeof PRIORITY[keyof typeof PRIORITY] => {
+    return Object.values(PRIORITY).includes(priority as any);
+  };
+  
+  export const isRateLimitStrategy = (strategy: unknown): strategy is typeof RATE_LIMIT_STRATEGY[keyof typeof RATE_LIMIT_STRATEGY] => {
+    return Object.values(RATE_LIMIT_STRATEGY).includes(strategy as any);
+  };
+  
+  export const isRoutingStrategy = (strategy: unknown): strategy is typeof ROUTING_STRATEGY[keyof typeof ROUTING_STRATEGY] => {
+    return Object.values(ROUTING_STRATEGY).includes(strategy as any);
+  };
+  
+  export const isCircuitBreakerMode = (mode: unknown): mode is typeof CIRCUIT_BREAKER_MODE[keyof typeof CIRCUIT_BREAKER_MODE] => {
+    return Object.values(CIRCUIT_BREAKER_MODE).includes(mode as any);
+  };
+  
+  export const isOverflowPolicy = (policy: unknown): policy is typeof OVERFLOW_POLICY[keyof typeof OVERFLOW_POLICY] => {
+    return Object.values(OVERFLOW_POLICY).includes(policy as any);
+  };
+  
   export const isLogLevel = (level: string): level is typeof LOG_LEVELS[keyof typeof LOG_LEVELS] => {
     return Object.values(LOG_LEVELS).includes(level as any);
   };
@@ -1,16 +1,153 @@
-import { EMAIL_STATUS, CIRCUIT_STATE, ERROR_CODES } from './constants';
+import {
+  EMAIL_STATUS,
+  CIRCUIT_STATE,
+  ERROR_CODES,
+  PRIORITY,
+  OVERFLOW_POLICY,
+  RATE_LIMIT_STRATEGY,
+  CIRCUIT_BREAKER_MODE,
+  ROUTING_STRATEGY,
+  ERROR_CATEGORY,
+  ERROR_CODE_CATEGORY,
+  LOG_LEVELS,
+  SPAN_KIND,
+  SPAN_STATUS,
+  MESSAGE_STATE,
+} from './constants';
 
 export type EmailStatusType = typeof EMAIL_STATUS[keyof typeof EMAIL_STATUS];
 export type CircuitStateType = typeof CIRCUIT_STATE[keyof typeof CIRCUIT_STATE];
 export type ErrorCodeType = typeof ERROR_CODES[keyof typeof ERROR_CODES];
+export type EmailPriority = typeof PRIORITY[keyof typeof PRIORITY];
+
+export type RateLimitStrategy = typeof RATE_LIMIT_STRATEGY[keyof typeof RATE_LIMIT_STRATEGY];
+
+export type QueueOverflowPolicy = typeof OVERFLOW_POLICY[keyof typeof OVERFLOW_POLICY];
+
+export type LogLevel = typeof LOG_LEVELS[keyof typeof LOG_LEVELS];
+
+// Fields attached to a log entry, e.g. messageId, provider, attempt, circuitState
+export type LogContext = Record<string, unknown>;
+
+export interface Logger {
+  error(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  debug(message: string, context?: LogContext): void;
+}
+
+export interface JsonLoggerConfig {
+  level?: LogLevel; // entries below this level are dropped
+  context?: LogContext; // added to every entry
+  write?: (line: string) => void; // defaults to console.error
+}
+
+export type SpanKind = typeof SPAN_KIND[keyof typeof SPAN_KIND];
+export type SpanStatusCode = typeof SPAN_STATUS[keyof typeof SPAN_STATUS];
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+// Identifies a span across processes; carried in W3C traceparent form
+export interface SpanContext {
+  traceId: string; // 32 hex characters
+  spanId: string; // 16 hex characters
+  traceFlags: number; // 1 when sampled
+}
+
+export interface SpanEvent {
+  name: string;
+  time: number; // epoch milliseconds
+  attributes?: SpanAttributes;
+}
+
+// A finished span as handed to an exporter
+export interface SpanData {
+  name: string;
+  kind: SpanKind;
+  spanContext: SpanContext;
+  parentSpanId?: string;
+  startTime: number; // epoch milliseconds
+  endTime: number;
+  attributes: SpanAttributes;
+  events: SpanEvent[];
+  status: { code: SpanStatusCode; message?: string };
+  resource: SpanAttributes; // e.g. service.name
+}
+
+export interface Span {
+  spanContext(): SpanContext;
+  // False for spans of a tracer without an exporter; they record nothing
+  isRecording(): boolean;
+  setAttribute(key: string, value: string | number | boolean | undefined): void;
+  setAttributes(attributes: SpanAttributes): void;
+  addEvent(name: string, attributes?: SpanAttributes): void;
+  setStatus(code: SpanStatusCode, message?: string): void;
+  // Adds an `exception` event with the error's type and message
+  recordException(error: unknown): void;
+  end(endTime?: number): void;
+}
+
+export interface SpanOptions {
+  parent?: SpanContext; // a root span is started without one
+  kind?: SpanKind; // defaults to internal
+  attributes?: SpanAttributes;
+  startTime?: number; // epoch milliseconds; defaults to now
+}
+
+export interface Tracer {
+  startSpan(name: string, options?: SpanOptions): Span;
+}
+
+export interface SpanExporter {
+  // Called with each span as it ends
+  export(spans: SpanData[]): void | Promise<void>;
+  shutdown?(): Promise<void>;
+}
+
+export interface TracingConfig {
+  exporter: SpanExporter;
+  serviceName?: string; // the service.name resource attribute
+}
+
+export interface EmailAddress {
+  address: string;
+  name?: string; // display name
+}
+
+// A bare address, `Display Name <address>`, or an address object
+export type AddressInput = string | EmailAddress;
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: string; // base64, so messages stay plain JSON in queue and dead-letter stores
+  contentId?: string; // inline parts are referenced from the HTML as cid:<contentId>
+}
+
+export interface AttachmentInput {
+  filename: string;
+  content: string | Uint8Array; // strings are sent as UTF-8 text
+  contentType?: string; // defaults to application/octet-stream
+  contentId?: string;
+}
 
 export interface EmailMessage {
   id: string;
-  to: string;
-  from: string;
+  from: EmailAddress;
+  to: EmailAddress[];
+  cc?: EmailAddress[];
+  bcc?: EmailAddress[];
+  replyTo?: EmailAddress[];
   subject: string;
-  body: string;
+  body: string; // the plain-text part
+  html?: string;
+  attachments?: EmailAttachment[];
+  inReplyTo?: string; // Message-ID of the message this one answers
+  references?: string[]; // Message-IDs of the thread, oldest first
+  headers?: Record<string, string>; // extra headers, e.g. X-Entity-Ref-ID
+  priority?: EmailPriority; // defaults to normal
   metadata?: Record<string, unknown>;
+  deadline?: number; // epoch ms; the send is abandoned if not done by then
+  provider?: string; // only this provider is tried, e.g. when replaying a dead letter
 }
 
 export interface EmailStatus {
@@ -20,17 +157,66 @@ export interface EmailStatus {
   attempts: number;
   lastAttempt: Date;
   error?: string;
+  rejectedRecipients?: string[]; // refused by the server; the message was delivered to the rest
+}
+
+export interface ProviderSendOptions {
+  // Aborted when the attempt times out; implementations should stop work on the message
+  signal?: AbortSignal;
+  // The Date header for transports that build the MIME text; defaults to now
+  date?: Date;
 }
 
 export interface EmailProvider {
   name: string;
-  send(message: EmailMessage): Promise<EmailStatus>;
+  send(message: EmailMessage, options?: ProviderSendOptions): Promise<EmailStatus>;
   isAvailable(): Promise<boolean>;
 }
 
 export interface RateLimiterConfig {
   maxRequests: number;
   timeWindow: number; // in milliseconds
+  strategy?: RateLimitStrategy;
+  burstCapacity?: number; // token-bucket size; defaults to maxRequests
+  wait?: boolean; // wait for a free slot instead of failing at once
+  maxWait?: number; // in milliseconds
+  store?: RateLimiterStore; // share the count with other processes
+  key?: string; // name of this limit in the store
+  logger?: Logger;
+}
+
+export interface RateLimitState {
+  timestamps: number[]; // sliding window: requests still inside the window
+  tokens: number; // token bucket
+  lastRefill: number;
+}
+
+export interface RateLimitUpdate<T> {
+  state: RateLimitState;
+  result: T;
+}
+
+export interface RateLimiterStore {
+  // Must run `update` on the latest state for `key` and save its result with no
+  // other update to that key in between, across every process sharing the store
+  update<T>(
+    key: string,
+    update: (state: RateLimitState | undefined) => RateLimitUpdate<T>
+  ): Promise<T>;
+}
+
+export interface AcquireOptions {
+  wait?: boolean;
+  maxWait?: number;
+  signal?: AbortSignal;
+}
+
+export interface RateLimitStatus {
+  current: number; // requests counted against the limit right now
+  max: number; // requests allowed per window, or the bucket size
+  available: number;
+  retryAfter: number; // ms until the next request is allowed
+  waiting: number; // acquires blocked waiting for a slot
 }
 
 export interface RetryConfig {
@@ -40,16 +226,362 @@ export interface RetryConfig {
   backoffFactor: number;
 }
 
+export type CircuitBreakerMode = typeof CIRCUIT_BREAKER_MODE[keyof typeof CIRCUIT_BREAKER_MODE];
+
+export interface CircuitStateChange {
+  name?: string; // the breaker's name; the provider name in EmailService
+  from: CircuitStateType;
+  to: CircuitStateType;
+  at: number;
+}
+
 export interface CircuitBreakerConfig {
-  failureThreshold: number;
+  failureThreshold: number; // count mode
   resetTimeout: number; // in milliseconds
+  mode?: CircuitBreakerMode;
+  // Rolling-window mode: opens once at least minimumVolume calls in the window
+  // failed at failureRateThreshold percent or more. The window is the last
+  // windowSize calls, or the last windowDuration ms when that is set.
+  failureRateThreshold?: number;
+  windowSize?: number;
+  windowDuration?: number;
+  minimumVolume?: number;
+  halfOpenMaxProbes?: number; // trial calls allowed at once while half-open
+  successThreshold?: number; // successful trial calls needed to close again
+  name?: string;
+  onStateChange?: (change: CircuitStateChange) => void;
+  // Errors this returns false for neither count against the circuit nor toward closing it
+  isFailure?: (error: unknown) => boolean;
+  logger?: Logger;
+}
+
+// Lifecycle events emitted by EmailService; `at` is always the event time
+export interface QueuedEvent {
+  messageId: string;
+  priority: EmailPriority;
+  sendAt?: number; // for scheduled messages
+  at: number;
+}
+
+export interface AttemptEvent {
+  messageId: string;
+  provider: string;
+  attempt: number;
+  latency: number; // ms the provider took
+  error?: Error; // set when the attempt failed
+  at: number;
+}
+
+export interface RetryEvent {
+  messageId: string;
+  attempt: number; // the attempt about to start
+  delay: number; // ms of backoff before it
+  error?: Error;
+  at: number;
+}
+
+export interface FailoverEvent {
+  messageId: string;
+  from: string;
+  to: string;
+  attempt: number;
+  error: Error; // why `from` was abandoned
+  at: number;
+}
+
+export interface SentEvent {
+  messageId: string;
+  provider: string;
+  attempts: number;
+  duration: number; // ms since the message was submitted
+  at: number;
+}
+
+export interface FailedEvent {
+  messageId: string;
+  error: EmailError;
+  duration: number;
+  at: number;
+}
+
+export interface EmailServiceEvents {
+  queued: QueuedEvent;
+  attempt: AttemptEvent;
+  retry: RetryEvent;
+  failover: FailoverEvent;
+  sent: SentEvent;
+  failed: FailedEvent; // the send promise rejected; nothing more will be tried
+  circuitOpen: CircuitStateChange;
+  circuitClose: CircuitStateChange;
+}
+
+export type RoutingStrategy = typeof ROUTING_STRATEGY[keyof typeof ROUTING_STRATEGY];
+
+export interface SendAttemptResult {
+  ok: boolean;
+  latency: number; // in milliseconds
+}
+
+export interface ProviderSelector {
+  // Orders the candidate providers for one message; later entries are failovers
+  select(providers: EmailProvider[], message: EmailMessage): EmailProvider[];
+  // Called after every send attempt so adaptive strategies can learn
+  recordResult?(providerName: string, result: SendAttemptResult): void;
+}
+
+export interface RoutingConfig {
+  strategy?: RoutingStrategy;
+  weights?: Record<string, number>; // weighted-round-robin, by provider name (default 1)
+  costs?: Record<string, number>; // lowest-cost, per message; providers without one go last
+  selector?: ProviderSelector; // a custom strategy, used instead of `strategy`
+}
+
+export interface HealthCheckConfig {
+  interval: number; // in milliseconds
+  timeout: number; // in milliseconds
+  // Consecutive check results needed to flip a provider's health, so a single
+  // blip does not take it out of rotation
+  unhealthyThreshold: number;
+  healthyThreshold: number;
+  onHealthChange?: (change: ProviderHealthChange) => void;
+  logger?: Logger;
+}
+
+export interface HealthCheckResult {
+  at: number;
+  ok: boolean;
+  latency: number; // in milliseconds
+  error?: string;
+}
+
+export interface ProviderHealth {
+  healthy: boolean;
+  consecutiveFailures: number;
+  consecutiveSuccesses: number;
+  lastCheck?: HealthCheckResult;
+}
+
+export interface ProviderHealthChange {
+  name: string;
+  healthy: boolean;
+  at: number;
+}
+
+export interface ProviderStatus {
+  circuitState: CircuitStateType;
+  healthy: boolean; // always true without health checks
+  lastCheck?: HealthCheckResult;
+}
+
+// Label names and values of one metric series, rendered in the order given
+export type MetricLabels = Record<string, string>;
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export interface QueueRecord {
+  message: EmailMessage;
+  attempts: number;
+  enqueuedAt: number; // epoch milliseconds
+  notBefore?: number; // epoch milliseconds; held back until then
+}
+
+export interface QueueStore {
+  add(record: QueueRecord): Promise<void>;
+  update(record: QueueRecord): Promise<void>;
+  remove(messageId: string): Promise<void>;
+  // Returns every record that has not been removed, in enqueue order
+  load(): Promise<QueueRecord[]>;
+}
+
+export interface QueueConfig {
+  maxAttempts: number;
+  store?: QueueStore;
+  priorityWeights?: Partial<Record<EmailPriority, number>>;
+  concurrency?: number; // messages processed in parallel
+  // Never send two messages to the same recipient at once, and keep their order
+  preserveRecipientOrder?: boolean;
+  maxSize?: number; // waiting plus in-flight messages
+  overflowPolicy?: QueueOverflowPolicy;
+  overflowTimeout?: number; // ms a sender waits for space under the wait policy
+  logger?: Logger;
+  tracer?: Tracer; // records how long each message waited for a worker
+  // Called before a message the queue gives up on is dropped: its attempts ran
+  // out or it failed for good. Not called for cleared or cancelled messages.
+  onDeadLetter?: (record: QueueRecord, error: Error) => Promise<void> | void;
+}
+
+export type MessageState = typeof MESSAGE_STATE[keyof typeof MESSAGE_STATE];
+
+// An error as kept in the message status store
+export interface RecordedError {
+  code: string;
+  category: ErrorCategory;
+  message: string;
+}
+
+// One state change of a message; `attempt` entries record a single provider call
+export interface MessageStatusEntry {
+  type: MessageState | 'attempt';
+  at: number; // epoch milliseconds
+  to?: string[]; // queued entries only; every recipient, including cc and bcc
+  priority?: EmailPriority; // queued entries only
+  sendAt?: number; // queued entries of scheduled messages
+  provider?: string;
+  attempt?: number; // the retry round the provider call belonged to
+  latency?: number; // in milliseconds, for attempts
+  error?: RecordedError;
+}
+
+export interface MessageStatusRecord {
+  messageId: string;
+  to: string[]; // every recipient, including cc and bcc
+  priority: EmailPriority;
+  state: MessageState;
+  provider?: string; // the provider that sent it, or the last one tried
+  attempts: number; // provider calls made
+  createdAt: number;
+  updatedAt: number;
+  lastError?: RecordedError;
+  history: MessageStatusEntry[]; // oldest first
+}
+
+export interface MessageStatusQuery {
+  state?: MessageState | MessageState[];
+  to?: string; // matches messages with this address among their recipients
+  provider?: string;
+  since?: Date | number; // created at or after
+  until?: Date | number; // created before
+  limit?: number;
+}
+
+export interface MessageStatusStore {
+  // Applies an entry to the message's record; a queued entry starts a record and
+  // entries for messages without one are ignored
+  append(messageId: string, entry: MessageStatusEntry): Promise<void>;
+  get(messageId: string): Promise<MessageStatusRecord | undefined>;
+  // Matching records, newest first
+  list(query?: MessageStatusQuery): Promise<MessageStatusRecord[]>;
+}
+
+export interface MessageStatusStoreConfig {
+  maxMessages?: number;
+  retention?: number; // ms a finished message is kept after its last change
+}
+
+// A message the queue gave up on, kept for inspection and replay
+export interface DeadLetter {
+  message: EmailMessage;
+  error: RecordedError; // the error it finally failed with
+  attempts: number; // times the queue ran the message
+  history: MessageStatusEntry[]; // from the status store, while it has the message
+  failedAt: number; // epoch milliseconds
+}
+
+export interface DeadLetterStore {
+  // Replaces a dead letter with the same message id
+  add(letter: DeadLetter): Promise<void>;
+  get(messageId: string): Promise<DeadLetter | undefined>;
+  // Every dead letter, oldest first
+  list(): Promise<DeadLetter[]>;
+  // Resolves false when there was no dead letter with that id
+  remove(messageId: string): Promise<boolean>;
+}
+
+export interface DeadLetterQuery {
+  code?: string; // the final error code
+  since?: Date | number; // failed at or after
+  until?: Date | number; // failed before
+  limit?: number;
+}
+
+export interface ReplayOptions {
+  provider?: string; // send through this provider only, skipping routing and failover
+  concurrency?: number; // replays in flight at once for replayDeadLetters; defaults to the batch concurrency
+}
+
+export interface IdempotencyStore {
+  get(key: string): Promise<EmailStatus | undefined>;
+  set(key: string, status: EmailStatus, ttl: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface SendOptions {
+  // Repeated sends with the same key within the TTL return the original status
+  idempotencyKey?: string;
+  // Caller-chosen id for the message, e.g. to reschedule or cancel it later
+  messageId?: string;
+  // Falls back to metadata.priority, then normal
+  priority?: EmailPriority;
+  // Deliver at (or after) this time; mutually exclusive with delay
+  sendAt?: Date | number;
+  delay?: number; // in milliseconds
+  // Give up if the message has not been sent by then, wherever it is in the retry cycle
+  deadline?: Date | number;
+}
+
+export interface ScheduledMessage {
+  message: EmailMessage;
+  sendAt: Date;
+}
+
+// What callers pass in; the service validates it and turns it into an EmailMessage
+export interface MessageInput {
+  from: AddressInput;
+  to: AddressInput | AddressInput[];
+  cc?: AddressInput | AddressInput[];
+  bcc?: AddressInput | AddressInput[];
+  replyTo?: AddressInput | AddressInput[];
+  subject: string;
+  body: string;
+  html?: string;
+  attachments?: AttachmentInput[];
+  inReplyTo?: string;
+  references?: string[];
+  headers?: Record<string, string>;
+  priority?: EmailPriority;
+  metadata?: Record<string, unknown>;
+}
+
+export interface EmailRequest extends MessageInput {
+  idempotencyKey?: string;
+}
+
+export type BatchResult = EmailStatus | EmailError;
+
+export interface BatchProgress {
+  index: number; // position of the message that just finished
+  result: BatchResult;
+  completed: number;
+  sent: number;
+  failed: number;
+  total: number;
+}
+
+export interface BatchOptions {
+  concurrency?: number;
+  onProgress?: (progress: BatchProgress) => void;
 }
 
 export interface EmailServiceConfig {
   providers: EmailProvider[];
   retryConfig?: Partial<RetryConfig>;
   rateLimiterConfig?: Partial<RateLimiterConfig>;
+  rateLimiterStore?: RateLimiterStore; // shared by the global, provider and domain limits
+  healthCheck?: Partial<HealthCheckConfig>; // polls providers in the background when set
+  routing?: RoutingConfig;
+  sendTimeout?: number; // ms a single provider attempt may take
   circuitBreakerConfig?: Partial<CircuitBreakerConfig>;
+  queueStore?: QueueStore;
+  queueConfig?: Partial<Omit<QueueConfig, 'maxAttempts' | 'store' | 'onDeadLetter'>>;
+  idempotencyStore?: IdempotencyStore;
+  idempotencyTtl?: number; // in milliseconds
+  providerRateLimits?: Record<string, RateLimiterConfig>; // keyed by provider name
+  domainRateLimits?: Record<string, RateLimiterConfig>; // keyed by recipient domain
+  logger?: Logger; // shared by every component; defaults to JSON lines at WARN on stderr
+  tracing?: TracingConfig; // spans are only recorded when set
+  statusStore?: MessageStatusStore; // defaults to an in-memory store
+  deadLetterStore?: DeadLetterStore; // defaults to an in-memory store
 }
 
 export interface Metrics {
@@ -57,14 +589,31 @@ export interface Metrics {
   [key: string]: number;
 }
 
+export type ErrorCategory = typeof ERROR_CATEGORY[keyof typeof ERROR_CATEGORY];
+
+export interface EmailErrorOptions {
+  retryAfter?: number; // ms until the message may be tried again
+  category?: ErrorCategory; // defaults to the category of `code`
+}
+
 export class EmailError extends Error {
+  public readonly retryAfter?: number;
+  public readonly category: ErrorCategory;
+  // Whether sending the same message again could succeed
+  public readonly retryable: boolean;
+
   constructor(
     message: string,
     public readonly code: ErrorCodeType,
-    public readonly originalError?: Error
+    public readonly originalError?: Error,
+    options: EmailErrorOptions = {}
   ) {
     super(message);
     this.name = 'EmailError';
+    this.retryAfter = options.retryAfter;
+    this.category = options.category ?? ERROR_CODE_CATEGORY[code] ?? ERROR_CATEGORY.TRANSIENT;
+    this.retryable =
+      this.category === ERROR_CATEGORY.TRANSIENT || this.category === ERROR_CATEGORY.RATE_LIMITED;
   }
 }
 
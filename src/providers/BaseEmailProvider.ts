@@ -1,10 +1,18 @@
-import { EmailMessage, EmailProvider, EmailStatus, EmailError } from '../core/types';
+import {
+  EmailMessage,
+  EmailProvider,
+  EmailStatus,
+  EmailError,
+  EmailErrorOptions,
+  ProviderSendOptions,
+} from '../core/types';
 import { ERROR_CODES } from '../core/constants';
+import { buildMime, MimeOptions } from '../utils/Mime';
 
 export abstract class BaseEmailProvider implements EmailProvider {
   protected constructor(public readonly name: string) {}
 
-  abstract send(message: EmailMessage): Promise<EmailStatus>;
+  abstract send(message: EmailMessage, options?: ProviderSendOptions): Promise<EmailStatus>;
 
   async isAvailable(): Promise<boolean> {
     try {
@@ -18,6 +26,12 @@ export abstract class BaseEmailProvider implements EmailProvider {
 
   protected abstract healthCheck(): Promise<void>;
 
+  // The message as raw RFC 5322 text, for transports that take whole mails
+  // rather than structured fields
+  protected toMime(message: EmailMessage, options?: MimeOptions): string {
+    return buildMime(message, options);
+  }
+
   protected createSuccessStatus(message: EmailMessage): EmailStatus {
     return {
       messageId: message.id,
@@ -43,7 +57,12 @@ export abstract class BaseEmailProvider implements EmailProvider {
     };
   }
 
-  protected throwProviderError(message: string, code: keyof typeof ERROR_CODES, originalError?: Error): never {
-    throw new EmailError(message, ERROR_CODES[code], originalError);
+  protected throwProviderError(
+    message: string,
+    code: keyof typeof ERROR_CODES,
+    originalError?: Error,
+    options?: EmailErrorOptions
+  ): never {
+    throw new EmailError(message, ERROR_CODES[code], originalError, options);
   }
 }
\ No newline at end of file
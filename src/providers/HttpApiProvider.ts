@@ -0,0 +1,146 @@
+import { EmailMessage, EmailStatus, EmailError, ErrorCodeType, ProviderSendOptions } from '../core/types';
+import { BaseEmailProvider } from './BaseEmailProvider';
+import { ERROR_CATEGORY, ERROR_CODES } from '../core/constants';
+
+export interface HttpApiResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown; // parsed JSON when the response is JSON, raw text otherwise
+}
+
+export interface HttpApiProviderConfig {
+  name: string;
+  endpoint: string;
+  method?: string;
+  authHeader?: { name: string; value: string };
+  headers?: Record<string, string>;
+  // `mime()` renders the message as raw RFC 5322 text, for vendors that accept whole mails
+  mapRequest: (message: EmailMessage, mime: () => string) => unknown;
+  // Only consulted for 2xx responses; error statuses are classified by httpStatusToErrorCode
+  mapResponse?: (response: HttpApiResponse, message: EmailMessage) => EmailStatus | EmailError;
+  statusEndpoint?: string;
+  fetch?: typeof fetch;
+}
+
+export const httpStatusToErrorCode = (status: number): ErrorCodeType => {
+  if (status === 429) {
+    return ERROR_CODES.RATE_LIMIT_EXCEEDED;
+  }
+  if (status === 401 || status === 403) {
+    return ERROR_CODES.AUTH_FAILED;
+  }
+  if (status >= 500) {
+    return ERROR_CODES.SERVICE_DEGRADED;
+  }
+  if (status >= 400) {
+    return ERROR_CODES.REQUEST_REJECTED;
+  }
+  return ERROR_CODES.PROVIDER_ERROR;
+};
+
+const parseBody = (text: string, contentType?: string): unknown => {
+  if (!contentType?.includes('json') || text.length === 0) {
+    return text;
+  }
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    return text;
+  }
+};
+
+const describeBody = (body: unknown): string =>
+  typeof body === 'string' ? body : JSON.stringify(body);
+
+export class HttpApiProvider extends BaseEmailProvider {
+  private readonly config: HttpApiProviderConfig;
+  private readonly fetch: typeof fetch;
+
+  constructor(config: HttpApiProviderConfig) {
+    super(config.name);
+    this.config = config;
+    this.fetch = config.fetch || fetch;
+  }
+
+  async send(message: EmailMessage, options: ProviderSendOptions = {}): Promise<EmailStatus> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Lets the provider's side of the request join the caller's trace
+    if (typeof message.metadata?.traceparent === 'string') {
+      headers.traceparent = message.metadata.traceparent;
+    }
+    const response = await this.request(this.config.endpoint, {
+      method: this.config.method || 'POST',
+      headers,
+      body: JSON.stringify(this.config.mapRequest(message, () => this.toMime(message, { date: options.date }))),
+      signal: options.signal,
+    });
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new EmailError(
+        `${this.name} responded with HTTP ${response.status}: ${describeBody(response.body)}`,
+        httpStatusToErrorCode(response.status),
+        undefined,
+        // A request timeout is the one 4xx worth sending again
+        { category: response.status === 408 ? ERROR_CATEGORY.TRANSIENT : undefined }
+      );
+    }
+
+    if (!this.config.mapResponse) {
+      return this.createSuccessStatus(message);
+    }
+
+    const result = this.config.mapResponse(response, message);
+    if (result instanceof EmailError) {
+      throw result;
+    }
+    return result;
+  }
+
+  // Providers without a status endpoint are assumed healthy until a send fails
+  protected async healthCheck(): Promise<void> {
+    if (!this.config.statusEndpoint) {
+      return;
+    }
+
+    const response = await this.request(this.config.statusEndpoint, { method: 'GET' });
+    if (response.status < 200 || response.status >= 300) {
+      throw new EmailError(
+        `${this.name} status endpoint responded with HTTP ${response.status}`,
+        httpStatusToErrorCode(response.status)
+      );
+    }
+  }
+
+  private async request(
+    url: string,
+    init: { method: string; headers?: Record<string, string>; body?: string; signal?: AbortSignal }
+  ): Promise<HttpApiResponse> {
+    const headers: Record<string, string> = { ...this.config.headers, ...init.headers };
+    if (this.config.authHeader) {
+      headers[this.config.authHeader.name] = this.config.authHeader.value;
+    }
+
+    let response: Response;
+    try {
+      response = await this.fetch(url, { ...init, headers });
+    } catch (error) {
+      throw new EmailError(
+        `${this.name} request to ${url} failed`,
+        ERROR_CODES.CONNECTION_FAILED,
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+
+    const text = await response.text();
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      responseHeaders[key] = value;
+    });
+
+    return {
+      status: response.status,
+      headers: responseHeaders,
+      body: parseBody(text, responseHeaders['content-type']),
+    };
+  }
+}
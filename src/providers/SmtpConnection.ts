@@ -0,0 +1,466 @@
+import * as net from 'net';
+import * as tls from 'tls';
+import { EmailError, ErrorCategory, ErrorCodeType } from '../core/types';
+import { ERROR_CATEGORY, ERROR_CODES } from '../core/constants';
+
+export type SmtpStage = 'GREETING' | 'EHLO' | 'STARTTLS' | 'AUTH' | 'MAIL' | 'RCPT' | 'DATA' | 'NOOP' | 'RSET';
+
+export interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export interface SmtpRejection {
+  recipient: string;
+  error: EmailError;
+}
+
+export interface SmtpDelivery {
+  reply: SmtpReply;
+  rejected: SmtpRejection[]; // recipients the server refused; the message went to the others
+}
+
+export interface SmtpAuthConfig {
+  user: string;
+  pass: string;
+  method?: 'PLAIN' | 'LOGIN';
+}
+
+export interface SmtpConnectionOptions {
+  host: string;
+  port: number;
+  secure: boolean; // implicit TLS (usually port 465)
+  requireTLS: boolean;
+  ignoreTLS: boolean;
+  clientName: string;
+  socketTimeout: number; // in milliseconds
+  auth?: SmtpAuthConfig;
+  tls?: tls.ConnectionOptions;
+}
+
+export interface SmtpPoolConfig {
+  maxConnections: number;
+  maxMessagesPerConnection: number;
+  idleTimeout: number; // in milliseconds
+}
+
+// Maps an SMTP reply code onto the closest EmailError code for the stage it was received in
+export const smtpReplyToErrorCode = (code: number, stage: SmtpStage): ErrorCodeType => {
+  // A 4xx during AUTH (e.g. 454) is a temporary server problem, not bad credentials
+  if (code >= 400 && code < 500) {
+    return ERROR_CODES.SERVICE_DEGRADED;
+  }
+  if (stage === 'AUTH' || code === 530 || code === 534 || code === 535) {
+    return ERROR_CODES.AUTH_FAILED;
+  }
+  if (stage === 'RCPT' && (code === 550 || code === 551 || code === 553)) {
+    return ERROR_CODES.RECIPIENT_REJECTED;
+  }
+  return ERROR_CODES.PROVIDER_ERROR;
+};
+
+// A 5xx reply to one of a message's own commands rejects that message for good
+// (RFC 5321 section 4.2.1); anywhere else the code's own category applies
+export const smtpReplyToErrorCategory = (code: number, stage: SmtpStage): ErrorCategory | undefined => {
+  const messageStage = stage === 'MAIL' || stage === 'RCPT' || stage === 'DATA';
+  if (messageStage && code >= 500 && smtpReplyToErrorCode(code, stage) !== ERROR_CODES.AUTH_FAILED) {
+    return ERROR_CATEGORY.PERMANENT;
+  }
+  return undefined;
+};
+
+const formatReply = (reply: SmtpReply): string => `${reply.code} ${reply.lines.join(' ')}`;
+
+// Normalises line endings to CRLF and escapes lines starting with a dot (RFC 5321 section 4.5.2)
+const dotStuff = (data: string): string =>
+  data
+    .replace(/\r?\n/g, '\r\n')
+    .split('\r\n')
+    .map(line => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n');
+
+export class SmtpConnection {
+  private socket: net.Socket | null = null;
+  private buffer = '';
+  private partialLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiters: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+  private extensions = new Map<string, string>();
+  private closed = false;
+  private closeError: Error | null = null;
+  private messagesSent = 0;
+  private lastUsed = 0;
+
+  constructor(
+    private readonly options: SmtpConnectionOptions,
+    private readonly getCurrentTime: () => number = Date.now
+  ) {}
+
+  async connect(): Promise<void> {
+    const { host, port, secure } = this.options;
+    const socket = secure
+      ? tls.connect({ host, port, servername: this.serverName(), ...this.options.tls })
+      : net.connect({ host, port });
+    await this.waitForConnect(socket, secure ? 'secureConnect' : 'connect');
+    this.attach(socket);
+
+    await this.expect(await this.readReply(), [220], 'GREETING');
+    await this.ehlo();
+
+    if (!secure && !this.options.ignoreTLS && this.extensions.has('STARTTLS')) {
+      await this.startTls();
+    } else if (!secure && this.options.requireTLS) {
+      throw new EmailError(
+        `SMTP server ${host}:${port} does not support STARTTLS`,
+        ERROR_CODES.CONNECTION_FAILED
+      );
+    }
+
+    if (this.options.auth) {
+      await this.authenticate(this.options.auth);
+    }
+    this.lastUsed = this.getCurrentTime();
+  }
+
+  // Delivers to every recipient the server accepts; fails only when it accepts none
+  async sendMail(from: string, recipients: string[], data: string): Promise<SmtpDelivery> {
+    await this.expect(await this.command(`MAIL FROM:<${from}>`), [250], 'MAIL');
+    const rejected: SmtpRejection[] = [];
+    for (const recipient of recipients) {
+      const reply = await this.command(`RCPT TO:<${recipient}>`);
+      try {
+        await this.expect(reply, [250, 251], 'RCPT');
+      } catch (error) {
+        rejected.push({ recipient, error: error as EmailError });
+      }
+    }
+    if (rejected.length === recipients.length) {
+      // A transient refusal is worth retrying, so it wins over a permanent one
+      const failure = rejected.find(({ error }) => error.category !== ERROR_CATEGORY.PERMANENT) ?? rejected[0];
+      throw failure.error;
+    }
+    await this.expect(await this.command('DATA'), [354], 'DATA');
+    const reply = await this.expect(await this.command(`${dotStuff(data)}\r\n.`), [250], 'DATA');
+    this.messagesSent++;
+    this.lastUsed = this.getCurrentTime();
+    return { reply, rejected };
+  }
+
+  async noop(): Promise<void> {
+    await this.expect(await this.command('NOOP'), [250], 'NOOP');
+    this.lastUsed = this.getCurrentTime();
+  }
+
+  // Aborts a failed transaction; resolves to whether the connection can still be reused
+  async reset(): Promise<boolean> {
+    if (this.closed) {
+      return false;
+    }
+    try {
+      await this.expect(await this.command('RSET'), [250], 'RSET');
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async quit(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    try {
+      await this.command('QUIT');
+    } catch (error) {
+      // The server may drop the connection before replying
+    }
+    this.destroy();
+  }
+
+  destroy(): void {
+    if (this.socket) {
+      this.socket.destroy();
+    }
+    this.handleClose(new Error('Connection closed'));
+  }
+
+  isUsable(maxMessages: number, idleTimeout: number): boolean {
+    return (
+      !this.closed &&
+      this.messagesSent < maxMessages &&
+      this.getCurrentTime() - this.lastUsed < idleTimeout
+    );
+  }
+
+  setIdle(idle: boolean): void {
+    if (idle) {
+      this.socket?.unref();
+    } else {
+      this.socket?.ref();
+    }
+  }
+
+  getMessagesSent(): number {
+    return this.messagesSent;
+  }
+
+  hasExtension(name: string): boolean {
+    return this.extensions.has(name.toUpperCase());
+  }
+
+  private async ehlo(): Promise<void> {
+    const reply = await this.expect(await this.command(`EHLO ${this.options.clientName}`), [250], 'EHLO');
+    this.extensions.clear();
+    // The first line is the server greeting; the rest advertise extensions
+    for (const line of reply.lines.slice(1)) {
+      const [keyword, ...params] = line.trim().split(/\s+/);
+      this.extensions.set(keyword.toUpperCase(), params.join(' '));
+    }
+  }
+
+  private async startTls(): Promise<void> {
+    await this.expect(await this.command('STARTTLS'), [220], 'STARTTLS');
+    const plainSocket = this.socket!;
+    plainSocket.removeAllListeners('data');
+    plainSocket.removeAllListeners('error');
+    plainSocket.removeAllListeners('close');
+    plainSocket.removeAllListeners('timeout');
+
+    const secureSocket = tls.connect({
+      socket: plainSocket,
+      servername: this.serverName(),
+      ...this.options.tls,
+    });
+    await this.waitForConnect(secureSocket, 'secureConnect');
+    this.attach(secureSocket);
+    await this.ehlo();
+  }
+
+  private async authenticate(auth: SmtpAuthConfig): Promise<void> {
+    const advertised = (this.extensions.get('AUTH') || '').toUpperCase().split(/\s+/);
+    const method = auth.method || (advertised.includes('PLAIN') || !advertised.includes('LOGIN') ? 'PLAIN' : 'LOGIN');
+
+    if (method === 'PLAIN') {
+      const credentials = Buffer.from(`\u0000${auth.user}\u0000${auth.pass}`).toString('base64');
+      await this.expect(await this.command(`AUTH PLAIN ${credentials}`), [235], 'AUTH');
+      return;
+    }
+
+    await this.expect(await this.command('AUTH LOGIN'), [334], 'AUTH');
+    await this.expect(await this.command(Buffer.from(auth.user).toString('base64')), [334], 'AUTH');
+    await this.expect(await this.command(Buffer.from(auth.pass).toString('base64')), [235], 'AUTH');
+  }
+
+  // SNI must not carry an IP address (RFC 6066 section 3)
+  private serverName(): string | undefined {
+    return net.isIP(this.options.host) ? undefined : this.options.host;
+  }
+
+  private command(line: string): Promise<SmtpReply> {
+    if (this.closed || !this.socket) {
+      return Promise.reject(this.connectionError());
+    }
+    const reply = this.readReply();
+    this.socket.write(`${line}\r\n`);
+    return reply;
+  }
+
+  private async expect(reply: SmtpReply, codes: number[], stage: SmtpStage): Promise<SmtpReply> {
+    if (!codes.includes(reply.code)) {
+      throw new EmailError(
+        `SMTP ${stage} rejected: ${formatReply(reply)}`,
+        smtpReplyToErrorCode(reply.code, stage),
+        new Error(formatReply(reply)),
+        { category: smtpReplyToErrorCategory(reply.code, stage) }
+      );
+    }
+    return reply;
+  }
+
+  private readReply(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.closed) {
+      return Promise.reject(this.connectionError());
+    }
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+    });
+  }
+
+  private waitForConnect(socket: net.Socket, event: 'connect' | 'secureConnect'): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onError = (error: Error) => {
+        socket.destroy();
+        reject(
+          new EmailError(
+            `Failed to connect to SMTP server ${this.options.host}:${this.options.port}: ${error.message}`,
+            ERROR_CODES.CONNECTION_FAILED,
+            error
+          )
+        );
+      };
+      const onTimeout = () => onError(new Error('Connection timed out'));
+      socket.setTimeout(this.options.socketTimeout);
+      socket.once('timeout', onTimeout);
+      socket.once('error', onError);
+      socket.once(event, () => {
+        socket.removeListener('error', onError);
+        socket.removeListener('timeout', onTimeout);
+        resolve();
+      });
+    });
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.options.socketTimeout);
+    socket.on('data', (chunk: string) => this.handleData(chunk));
+    socket.on('timeout', () => {
+      socket.destroy();
+      this.handleClose(new Error('Socket timed out'));
+    });
+    socket.on('error', (error: Error) => this.handleClose(error));
+    socket.on('close', () => this.handleClose(new Error('Connection closed by server')));
+  }
+
+  private handleData(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      this.partialLines.push(line.slice(4));
+
+      // "250-..." continues a multiline reply, "250 ..." terminates it
+      if (line.charAt(3) !== '-') {
+        const reply: SmtpReply = { code: parseInt(line.slice(0, 3), 10), lines: this.partialLines };
+        this.partialLines = [];
+        const waiter = this.waiters.shift();
+        if (waiter) {
+          waiter.resolve(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private handleClose(error: Error): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.closeError = error;
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const waiter of waiters) {
+      waiter.reject(this.connectionError());
+    }
+  }
+
+  private connectionError(): EmailError {
+    return new EmailError(
+      `SMTP connection to ${this.options.host}:${this.options.port} lost`,
+      ERROR_CODES.CONNECTION_FAILED,
+      this.closeError || undefined
+    );
+  }
+}
+
+export class SmtpConnectionPool {
+  private idle: SmtpConnection[] = [];
+  private size = 0;
+  private waiters: { resolve: (connection: SmtpConnection) => void; reject: (error: Error) => void }[] = [];
+  private closed = false;
+
+  constructor(
+    private readonly options: SmtpConnectionOptions,
+    private readonly config: SmtpPoolConfig,
+    private readonly getCurrentTime: () => number = Date.now
+  ) {}
+
+  async acquire(): Promise<SmtpConnection> {
+    if (this.closed) {
+      throw new EmailError('SMTP connection pool is closed', ERROR_CODES.CONNECTION_FAILED);
+    }
+
+    while (this.idle.length > 0) {
+      const connection = this.idle.pop()!;
+      if (connection.isUsable(this.config.maxMessagesPerConnection, this.config.idleTimeout)) {
+        connection.setIdle(false);
+        return connection;
+      }
+      this.discard(connection);
+    }
+
+    if (this.size < this.config.maxConnections) {
+      this.size++;
+      const connection = new SmtpConnection(this.options, this.getCurrentTime);
+      try {
+        await connection.connect();
+        return connection;
+      } catch (error) {
+        connection.destroy();
+        this.size--;
+        this.wakeWaiter();
+        throw error;
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+    });
+  }
+
+  release(connection: SmtpConnection, reusable: boolean): void {
+    if (
+      this.closed ||
+      !reusable ||
+      !connection.isUsable(this.config.maxMessagesPerConnection, this.config.idleTimeout)
+    ) {
+      this.discard(connection);
+      this.wakeWaiter();
+      return;
+    }
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve(connection);
+      return;
+    }
+    connection.setIdle(true);
+    this.idle.push(connection);
+  }
+
+  getSize(): number {
+    return this.size;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const waiter of waiters) {
+      waiter.reject(new EmailError('SMTP connection pool is closed', ERROR_CODES.CONNECTION_FAILED));
+    }
+    const idle = this.idle;
+    this.idle = [];
+    this.size -= idle.length;
+    await Promise.all(idle.map(connection => connection.quit()));
+  }
+
+  private discard(connection: SmtpConnection): void {
+    this.size--;
+    connection.quit().catch(() => connection.destroy());
+  }
+
+  private wakeWaiter(): void {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      this.acquire().then(waiter.resolve, waiter.reject);
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import * as os from 'os';
+import * as tls from 'tls';
+import { EmailMessage, EmailStatus, EmailError, ProviderSendOptions } from '../core/types';
+import { BaseEmailProvider } from './BaseEmailProvider';
+import { DEFAULT_CONFIG } from '../core/constants';
+import { SmtpAuthConfig, SmtpConnectionPool, SmtpPoolConfig } from './SmtpConnection';
+import { recipientsOf } from '../utils/Address';
+
+export interface SmtpProviderConfig {
+  host: string;
+  port?: number;
+  name?: string;
+  secure?: boolean;
+  requireTLS?: boolean;
+  ignoreTLS?: boolean;
+  clientName?: string;
+  socketTimeout?: number; // in milliseconds
+  auth?: SmtpAuthConfig;
+  tls?: tls.ConnectionOptions;
+  pool?: Partial<SmtpPoolConfig>;
+}
+
+export class SmtpProvider extends BaseEmailProvider {
+  private readonly pool: SmtpConnectionPool;
+  private readonly clientName: string;
+
+  constructor(config: SmtpProviderConfig, getCurrentTime: () => number = Date.now) {
+    super(config.name || `smtp:${config.host}`);
+    this.clientName = config.clientName || os.hostname();
+    this.pool = new SmtpConnectionPool(
+      {
+        host: config.host,
+        port: config.port ?? (config.secure ? 465 : DEFAULT_CONFIG.SMTP.PORT),
+        secure: config.secure ?? false,
+        requireTLS: config.requireTLS ?? false,
+        ignoreTLS: config.ignoreTLS ?? false,
+        clientName: this.clientName,
+        socketTimeout: config.socketTimeout ?? DEFAULT_CONFIG.SMTP.SOCKET_TIMEOUT,
+        auth: config.auth,
+        tls: config.tls,
+      },
+      {
+        maxConnections: DEFAULT_CONFIG.SMTP.MAX_CONNECTIONS,
+        maxMessagesPerConnection: DEFAULT_CONFIG.SMTP.MAX_MESSAGES_PER_CONNECTION,
+        idleTimeout: DEFAULT_CONFIG.SMTP.IDLE_TIMEOUT,
+        ...config.pool,
+      },
+      getCurrentTime
+    );
+  }
+
+  async send(message: EmailMessage, options: ProviderSendOptions = {}): Promise<EmailStatus> {
+    const connection = await this.pool.acquire();
+    let reusable = true;
+    // Dropping the connection is the only way to stop a transaction midway
+    const { signal } = options;
+    const abort = () => connection.destroy();
+    if (signal?.aborted) {
+      abort();
+    }
+    signal?.addEventListener('abort', abort, { once: true });
+    // A late abort must not destroy a connection that is back in the pool
+    const detach = () => signal?.removeEventListener('abort', abort);
+
+    try {
+      const { rejected } = await connection.sendMail(
+        message.from.address,
+        recipientsOf(message),
+        this.toMime(message, { hostname: this.clientName, date: options.date })
+      );
+      const status = this.createSuccessStatus(message);
+      if (rejected.length > 0) {
+        status.rejectedRecipients = rejected.map(({ recipient }) => recipient);
+      }
+      return status;
+    } catch (error) {
+      reusable = await connection.reset();
+      if (error instanceof EmailError) {
+        throw error;
+      }
+      this.throwProviderError(
+        `SMTP provider ${this.name} failed to send email`,
+        'PROVIDER_ERROR',
+        error instanceof Error ? error : new Error(String(error))
+      );
+    } finally {
+      detach();
+      this.pool.release(connection, reusable);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pool.close();
+  }
+
+  protected async healthCheck(): Promise<void> {
+    const connection = await this.pool.acquire();
+    let reusable = true;
+
+    try {
+      await connection.noop();
+    } catch (error) {
+      reusable = false;
+      throw error;
+    } finally {
+      this.pool.release(connection, reusable);
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  MessageStatusEntry,
+  MessageStatusQuery,
+  MessageStatusRecord,
+  MessageStatusStore,
+  MessageStatusStoreConfig,
+} from '../core/types';
+import { InMemoryMessageStatusStore } from './InMemoryMessageStatusStore';
+
+type JournalEntry = { id: string; entry: MessageStatusEntry };
+
+export interface FileMessageStatusStoreConfig extends MessageStatusStoreConfig {
+  path: string;
+  fsync?: boolean; // flush every entry to disk before acknowledging it (default false)
+}
+
+// Append-only journal of status entries, replayed into memory on first use.
+// Replaying drops whatever the retention limits no longer keep, and the
+// journal is rewritten to match, so it does not grow across restarts. While
+// running, records evicted by those limits are left in the journal until they
+// are as many as the records kept, and it is rewritten then, so the file stays
+// within twice the limits.
+export class FileMessageStatusStore implements MessageStatusStore {
+  private readonly filePath: string;
+  private readonly fsync: boolean;
+  private readonly index: InMemoryMessageStatusStore;
+  private handle: fs.FileHandle | null = null;
+  private evicted = 0; // records still in the journal but no longer in the index
+  private loaded: Promise<void> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(config: FileMessageStatusStoreConfig, getCurrentTime: () => number = Date.now) {
+    this.filePath = config.path;
+    this.fsync = config.fsync ?? false;
+    this.index = new InMemoryMessageStatusStore(config, getCurrentTime);
+  }
+
+  append(messageId: string, entry: MessageStatusEntry): Promise<void> {
+    return this.enqueue(async () => {
+      this.evicted += this.index.apply(messageId, entry);
+      // Compaction writes the new entry along with the rest
+      if (await this.compactIfEvicted()) {
+        return;
+      }
+      const handle = await this.open();
+      await handle.appendFile(`${JSON.stringify({ id: messageId, entry })}\n`);
+      if (this.fsync) {
+        await handle.datasync();
+      }
+    });
+  }
+
+  get(messageId: string): Promise<MessageStatusRecord | undefined> {
+    return this.enqueue(async () => {
+      await this.compactIfEvicted();
+      return this.index.get(messageId);
+    });
+  }
+
+  list(query?: MessageStatusQuery): Promise<MessageStatusRecord[]> {
+    return this.enqueue(async () => {
+      await this.compactIfEvicted();
+      return this.index.list(query);
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.writes;
+    if (this.handle) {
+      await this.handle.close();
+      this.handle = null;
+    }
+  }
+
+  // Every operation runs after the journal is loaded and after earlier appends,
+  // so reads see everything appended before them
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const next = this.writes.then(() => this.load()).then(operation);
+    // The caller sees the outcome through `next`; the chain itself always settles so
+    // one failed operation does not block the ones queued behind it
+    this.writes = next.then(() => undefined, () => undefined);
+    return next;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.replay().catch(error => {
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async open(): Promise<fs.FileHandle> {
+    if (!this.handle) {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      this.handle = await fs.open(this.filePath, 'a');
+    }
+    return this.handle;
+  }
+
+  private async replay(): Promise<void> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    for (const line of contents.split('\n')) {
+      if (!line) {
+        continue;
+      }
+      let journalEntry: JournalEntry;
+      try {
+        journalEntry = JSON.parse(line);
+      } catch (error) {
+        // A torn final line left by a crash
+        continue;
+      }
+      this.index.apply(journalEntry.id, journalEntry.entry);
+    }
+    await this.compact();
+  }
+
+  // Resolves to whether the journal was rewritten
+  private async compactIfEvicted(): Promise<boolean> {
+    this.evicted += this.index.evictExpired();
+    if (this.evicted === 0 || this.evicted < this.index.size()) {
+      return false;
+    }
+    await this.compact();
+    return true;
+  }
+
+  // Drops evicted records from the journal; the rewritten copy replaces it by rename
+  private async compact(): Promise<void> {
+    if (this.handle) {
+      await this.handle.close();
+      this.handle = null;
+    }
+    const records = (await this.index.list()).reverse();
+    const contents = records
+      .flatMap(record => record.history.map(entry => `${JSON.stringify({ id: record.messageId, entry })}\n`))
+      .join('');
+    const tempPath = `${this.filePath}.compact`;
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(contents);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, this.filePath);
+    this.evicted = 0;
+  }
+}
@@ -0,0 +1,151 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { QueueRecord, QueueStore } from '../core/types';
+
+type JournalEntry =
+  | { op: 'add'; record: QueueRecord }
+  | { op: 'update'; record: QueueRecord }
+  | { op: 'remove'; id: string };
+
+export interface FileQueueStoreConfig {
+  path: string;
+  fsync?: boolean; // flush every entry to disk before acknowledging it (default true)
+  compactThreshold?: number; // entries appended between compactions (default 1000)
+}
+
+// Append-only journal: every mutation is one JSON line, so a crash can at worst
+// leave a torn final line, which is ignored on replay. The journal is compacted
+// on load and again whenever it has grown by `compactThreshold` entries (or by
+// its size after the last compaction, if larger), so it stays proportional to
+// the live records in a long-running process.
+export class FileQueueStore implements QueueStore {
+  private readonly filePath: string;
+  private readonly fsync: boolean;
+  private readonly compactThreshold: number;
+  private appended = 0;
+  private compactedSize = 0;
+  private handle: fs.FileHandle | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(config: FileQueueStoreConfig) {
+    this.filePath = config.path;
+    this.fsync = config.fsync ?? true;
+    this.compactThreshold = config.compactThreshold ?? 1000;
+  }
+
+  add(record: QueueRecord): Promise<void> {
+    return this.append({ op: 'add', record });
+  }
+
+  update(record: QueueRecord): Promise<void> {
+    return this.append({ op: 'update', record });
+  }
+
+  remove(messageId: string): Promise<void> {
+    return this.append({ op: 'remove', id: messageId });
+  }
+
+  load(): Promise<QueueRecord[]> {
+    // Runs on the write chain so no entry can be appended to the journal being replaced
+    const load = this.writes.then(async () => {
+      const records = await this.replay();
+      await this.compact(records);
+      return records;
+    });
+    this.writes = load.then(() => undefined, () => undefined);
+    return load;
+  }
+
+  async close(): Promise<void> {
+    await this.writes;
+    if (this.handle) {
+      await this.handle.close();
+      this.handle = null;
+    }
+  }
+
+  private append(entry: JournalEntry): Promise<void> {
+    const write = this.writes.then(async () => {
+      const handle = await this.open();
+      await handle.appendFile(`${JSON.stringify(entry)}\n`);
+      if (this.fsync) {
+        await handle.datasync();
+      }
+      this.appended++;
+    });
+    // A failed append rejects only its own caller; the next one starts from a settled chain.
+    // A failed compaction leaves the journal as it was and is retried after the next entry.
+    this.writes = write.then(() => this.compactIfGrown()).catch(() => undefined);
+    return write;
+  }
+
+  private async compactIfGrown(): Promise<void> {
+    if (this.appended >= Math.max(this.compactThreshold, this.compactedSize)) {
+      await this.compact(await this.replay());
+    }
+  }
+
+  private async open(): Promise<fs.FileHandle> {
+    if (!this.handle) {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      this.handle = await fs.open(this.filePath, 'a');
+    }
+    return this.handle;
+  }
+
+  private async replay(): Promise<QueueRecord[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records = new Map<string, QueueRecord>();
+    for (const line of contents.split('\n')) {
+      if (!line) {
+        continue;
+      }
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch (error) {
+        continue;
+      }
+
+      if (entry.op === 'add' && !records.has(entry.record.message.id)) {
+        records.set(entry.record.message.id, entry.record);
+      } else if (entry.op === 'update' && records.has(entry.record.message.id)) {
+        records.set(entry.record.message.id, entry.record);
+      } else if (entry.op === 'remove') {
+        records.delete(entry.id);
+      }
+    }
+    return Array.from(records.values());
+  }
+
+  // Writes the live records to a temp file and renames it over the journal, so a crash
+  // leaves either the old journal or the new one
+  private async compact(records: QueueRecord[]): Promise<void> {
+    if (this.handle) {
+      await this.handle.close();
+      this.handle = null;
+    }
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.compact`;
+    const contents = records.map(record => `${JSON.stringify({ op: 'add', record })}\n`).join('');
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(contents);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, this.filePath);
+    this.appended = 0;
+    this.compactedSize = records.length;
+  }
+}
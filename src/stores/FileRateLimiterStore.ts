@@ -0,0 +1,135 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { RateLimiterStore, RateLimitState, RateLimitUpdate } from '../core/types';
+
+export interface FileRateLimiterStoreConfig {
+  path: string;
+  lockTimeout?: number; // ms to wait for the lock before failing (default 5000)
+  staleLockAge?: number; // ms after which a lock left by a dead process is broken (default 10000)
+  retryDelay?: number; // ms between attempts to take the lock (default 5)
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Keeps every limit in one JSON file. Processes on the same host take turns
+// through an exclusive lock file, so each update sees the previous one.
+export class FileRateLimiterStore implements RateLimiterStore {
+  private readonly filePath: string;
+  private readonly lockPath: string;
+  private readonly lockTimeout: number;
+  private readonly staleLockAge: number;
+  private readonly retryDelay: number;
+  private updates: Promise<unknown> = Promise.resolve();
+
+  constructor(config: FileRateLimiterStoreConfig) {
+    this.filePath = config.path;
+    this.lockPath = `${config.path}.lock`;
+    this.lockTimeout = config.lockTimeout ?? 5000;
+    this.staleLockAge = config.staleLockAge ?? 10000;
+    this.retryDelay = config.retryDelay ?? 5;
+  }
+
+  update<T>(
+    key: string,
+    update: (state: RateLimitState | undefined) => RateLimitUpdate<T>
+  ): Promise<T> {
+    // Updates from this process queue up here rather than spinning on the lock
+    const next = this.updates.then(() =>
+      this.withLock(async () => {
+        const states = await this.read();
+        const { state, result } = update(states[key]);
+        states[key] = state;
+        await this.write(states);
+        return result;
+      })
+    );
+    this.updates = next.catch(() => undefined);
+    return next;
+  }
+
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const deadline = Date.now() + this.lockTimeout;
+
+    for (;;) {
+      try {
+        const handle = await fs.open(this.lockPath, 'wx');
+        await handle.close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      if (await this.breakStaleLock()) {
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for rate limit lock ${this.lockPath}`);
+      }
+      await sleep(this.retryDelay);
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await fs.rm(this.lockPath, { force: true });
+    }
+  }
+
+  private async breakStaleLock(): Promise<boolean> {
+    try {
+      const stale = await fs.stat(this.lockPath);
+      if (Date.now() - stale.mtimeMs < this.staleLockAge) {
+        return false;
+      }
+      // Another process may have broken it and taken a fresh lock since the stat, so the
+      // lock is moved aside first and only deleted if it is still the file that went stale
+      const asidePath = `${this.lockPath}.${process.pid}.${randomBytes(4).toString('hex')}.stale`;
+      await fs.rename(this.lockPath, asidePath);
+      const moved = await fs.stat(asidePath);
+      if (moved.ino !== stale.ino || moved.mtimeMs !== stale.mtimeMs) {
+        await this.restoreLock(asidePath);
+      }
+      await fs.rm(asidePath, { force: true });
+      return true;
+    } catch (error) {
+      // The holder released it, or another process broke it, before we got to it
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return true;
+      }
+      throw error;
+    }
+  }
+
+  // link() fails rather than overwrite, so a lock taken meanwhile by yet another process is kept
+  private async restoreLock(asidePath: string): Promise<void> {
+    try {
+      await fs.link(asidePath, this.lockPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+  }
+
+  private async read(): Promise<Record<string, RateLimitState>> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  // Replaced via rename so a reader never sees a half-written file
+  private async write(states: Record<string, RateLimitState>): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(states));
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,26 @@
+import { DeadLetter, DeadLetterStore } from '../core/types';
+
+export class InMemoryDeadLetterStore implements DeadLetterStore {
+  private letters = new Map<string, DeadLetter>(); // in the order they failed
+
+  async add(letter: DeadLetter): Promise<void> {
+    this.letters.delete(letter.message.id);
+    this.letters.set(letter.message.id, letter);
+  }
+
+  async get(messageId: string): Promise<DeadLetter | undefined> {
+    return this.letters.get(messageId);
+  }
+
+  async list(): Promise<DeadLetter[]> {
+    return Array.from(this.letters.values());
+  }
+
+  async remove(messageId: string): Promise<boolean> {
+    return this.letters.delete(messageId);
+  }
+
+  size(): number {
+    return this.letters.size;
+  }
+}
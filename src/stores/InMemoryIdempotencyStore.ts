@@ -0,0 +1,58 @@
+import { EmailStatus, IdempotencyStore } from '../core/types';
+
+type Entry = {
+  status: EmailStatus;
+  expiresAt: number;
+};
+
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private entries = new Map<string, Entry>();
+  private readonly getCurrentTime: () => number;
+
+  constructor(getCurrentTime: () => number = Date.now) {
+    this.getCurrentTime = getCurrentTime;
+  }
+
+  async get(key: string): Promise<EmailStatus | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= this.getCurrentTime()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.status;
+  }
+
+  async set(key: string, status: EmailStatus, ttl: number): Promise<void> {
+    const now = this.getCurrentTime();
+    this.evictExpired(now);
+    // Re-inserting keeps the map ordered by write time
+    this.entries.delete(key);
+    this.entries.set(key, { status, expiresAt: now + ttl });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  // Entries are ordered by write time, so with a uniform TTL the expired ones
+  // are all at the front; any stragglers are caught lazily by get().
+  private evictExpired(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt > now) {
+        break;
+      }
+      this.entries.delete(key);
+    }
+  }
+}
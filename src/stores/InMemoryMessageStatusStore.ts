@@ -0,0 +1,130 @@
+import {
+  MessageState,
+  MessageStatusEntry,
+  MessageStatusQuery,
+  MessageStatusRecord,
+  MessageStatusStore,
+  MessageStatusStoreConfig,
+} from '../core/types';
+import { DEFAULT_CONFIG, MESSAGE_STATE, PRIORITY } from '../core/constants';
+
+const toTime = (value: Date | number): number => (value instanceof Date ? value.getTime() : value);
+
+const copy = (record: MessageStatusRecord): MessageStatusRecord => ({ ...record, history: [...record.history] });
+
+export class InMemoryMessageStatusStore implements MessageStatusStore {
+  private records = new Map<string, MessageStatusRecord>(); // in creation order
+  private readonly maxMessages: number;
+  private readonly retention: number;
+  private readonly getCurrentTime: () => number;
+
+  constructor(config: MessageStatusStoreConfig = {}, getCurrentTime: () => number = Date.now) {
+    this.maxMessages = config.maxMessages ?? DEFAULT_CONFIG.STATUS_STORE.MAX_MESSAGES;
+    this.retention = config.retention ?? DEFAULT_CONFIG.STATUS_STORE.RETENTION;
+    this.getCurrentTime = getCurrentTime;
+  }
+
+  async append(messageId: string, entry: MessageStatusEntry): Promise<void> {
+    this.apply(messageId, entry);
+  }
+
+  async get(messageId: string): Promise<MessageStatusRecord | undefined> {
+    this.evictExpired();
+    const record = this.records.get(messageId);
+    return record && copy(record);
+  }
+
+  async list(query: MessageStatusQuery = {}): Promise<MessageStatusRecord[]> {
+    this.evictExpired();
+    const states = query.state === undefined ? undefined : ([] as MessageState[]).concat(query.state);
+    const to = query.to?.toLowerCase();
+    const since = query.since === undefined ? -Infinity : toTime(query.since);
+    const until = query.until === undefined ? Infinity : toTime(query.until);
+
+    const matches: MessageStatusRecord[] = [];
+    for (const record of Array.from(this.records.values()).reverse()) {
+      if (query.limit !== undefined && matches.length >= query.limit) {
+        break;
+      }
+      if (
+        (!states || states.includes(record.state)) &&
+        (!to || record.to.some(recipient => recipient.toLowerCase() === to)) &&
+        (!query.provider || record.provider === query.provider) &&
+        record.createdAt >= since &&
+        record.createdAt < until
+      ) {
+        matches.push(copy(record));
+      }
+    }
+    return matches;
+  }
+
+  size(): number {
+    return this.records.size;
+  }
+
+  // Synchronous so a store built on this one can replay entries in order;
+  // returns the number of records evicted to make room
+  apply(messageId: string, entry: MessageStatusEntry): number {
+    let evicted = 0;
+    let record = this.records.get(messageId);
+    if (!record) {
+      if (entry.type !== MESSAGE_STATE.QUEUED) {
+        return 0;
+      }
+      record = {
+        messageId,
+        to: entry.to ?? [],
+        priority: entry.priority ?? PRIORITY.NORMAL,
+        state: MESSAGE_STATE.QUEUED,
+        attempts: 0,
+        createdAt: entry.at,
+        updatedAt: entry.at,
+        history: [],
+      };
+      this.records.set(messageId, record);
+      evicted = this.evictOverflow();
+    }
+
+    record.history.push(entry);
+    record.updatedAt = entry.at;
+    if (entry.provider) {
+      record.provider = entry.provider;
+    }
+    if (entry.error) {
+      record.lastError = entry.error;
+    }
+    if (entry.type === 'attempt') {
+      record.attempts++;
+    } else {
+      record.state = entry.type;
+    }
+    return evicted;
+  }
+
+  // The oldest records go first, whatever their state, so memory stays bounded
+  private evictOverflow(): number {
+    let evicted = 0;
+    for (const messageId of this.records.keys()) {
+      if (this.records.size <= this.maxMessages) {
+        break;
+      }
+      this.records.delete(messageId);
+      evicted++;
+    }
+    return evicted;
+  }
+
+  // Messages still queued are kept however old they are; returns the number removed
+  evictExpired(): number {
+    const cutoff = this.getCurrentTime() - this.retention;
+    let evicted = 0;
+    for (const [messageId, record] of this.records) {
+      if (record.state !== MESSAGE_STATE.QUEUED && record.updatedAt < cutoff) {
+        this.records.delete(messageId);
+        evicted++;
+      }
+    }
+    return evicted;
+  }
+}
@@ -0,0 +1,24 @@
+import { QueueRecord, QueueStore } from '../core/types';
+
+export class InMemoryQueueStore implements QueueStore {
+  // Map preserves insertion order, which doubles as enqueue order
+  private records = new Map<string, QueueRecord>();
+
+  async add(record: QueueRecord): Promise<void> {
+    this.records.set(record.message.id, { ...record });
+  }
+
+  async update(record: QueueRecord): Promise<void> {
+    if (this.records.has(record.message.id)) {
+      this.records.set(record.message.id, { ...record });
+    }
+  }
+
+  async remove(messageId: string): Promise<void> {
+    this.records.delete(messageId);
+  }
+
+  async load(): Promise<QueueRecord[]> {
+    return Array.from(this.records.values(), record => ({ ...record }));
+  }
+}
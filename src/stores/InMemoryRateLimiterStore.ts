@@ -0,0 +1,21 @@
+import { RateLimiterStore, RateLimitState, RateLimitUpdate } from '../core/types';
+
+const copy = (state: RateLimitState): RateLimitState => ({
+  ...state,
+  timestamps: [...state.timestamps],
+});
+
+export class InMemoryRateLimiterStore implements RateLimiterStore {
+  private states = new Map<string, RateLimitState>();
+
+  // Node runs the update without interruption, which is all the atomicity one process needs
+  async update<T>(
+    key: string,
+    update: (state: RateLimitState | undefined) => RateLimitUpdate<T>
+  ): Promise<T> {
+    const current = this.states.get(key);
+    const { state, result } = update(current && copy(current));
+    this.states.set(key, copy(state));
+    return result;
+  }
+}
@@ -0,0 +1,45 @@
+import { AddressInput, EmailAddress, EmailMessage } from '../core/types';
+
+const NAME_ADDR = /^(.*?)\s*<([^<>]*)>$/;
+
+// Display names made only of these need no quoting in a header (RFC 5322 atext and spaces)
+const PLAIN_NAME = /^[A-Za-z0-9!#$%&'*+\-/=?^_`{|}~ ]+$/;
+
+const unquote = (name: string): string =>
+  /^".*"$/.test(name) ? name.slice(1, -1).replace(/\\(.)/g, '$1') : name;
+
+const address = (addr: string, name?: string): EmailAddress => (name ? { name, address: addr } : { address: addr });
+
+export const parseAddress = (input: AddressInput): EmailAddress => {
+  if (typeof input !== 'string') {
+    return address(input.address.trim(), input.name?.trim());
+  }
+  const match = NAME_ADDR.exec(input.trim());
+  return match ? address(match[2].trim(), unquote(match[1])) : address(input.trim());
+};
+
+export const parseAddressList = (input?: AddressInput | AddressInput[]): EmailAddress[] =>
+  input === undefined ? [] : ([] as AddressInput[]).concat(input).map(parseAddress);
+
+export const formatAddress = ({ name, address: addr }: EmailAddress): string => {
+  if (!name) {
+    return addr;
+  }
+  const display = PLAIN_NAME.test(name) ? name : `"${name.replace(/(["\\])/g, '\\$1')}"`;
+  return `${display} <${addr}>`;
+};
+
+export const formatAddressList = (addresses: EmailAddress[]): string => addresses.map(formatAddress).join(', ');
+
+// Everyone the message is delivered to, once each
+export const recipientsOf = (message: Pick<EmailMessage, 'to' | 'cc' | 'bcc'>): string[] => {
+  const seen = new Set<string>();
+  const recipients: string[] = [];
+  for (const { address: addr } of [...message.to, ...(message.cc ?? []), ...(message.bcc ?? [])]) {
+    if (!seen.has(addr.toLowerCase())) {
+      seen.add(addr.toLowerCase());
+      recipients.push(addr);
+    }
+  }
+  return recipients;
+};
@@ -1,47 +1,190 @@
-import { CIRCUIT_STATE } from '../core/constants';
+import { CircuitBreakerConfig, CircuitBreakerMode, CircuitStateChange, Logger } from '../core/types';
+import { CIRCUIT_BREAKER_MODE, CIRCUIT_STATE, DEFAULT_CONFIG } from '../core/constants';
+import { defaultLogger } from './Logger';
+
+type Outcome = {
+  at: number;
+  failed: boolean;
+};
 
 export class CircuitBreaker {
   private state: typeof CIRCUIT_STATE[keyof typeof CIRCUIT_STATE] = CIRCUIT_STATE.CLOSED;
   private failureCount = 0;
   private lastFailureTime: number | null = null;
+  private outcomes: Outcome[] = []; // rolling window, oldest first
+  private probesInFlight = 0;
+  private probeSuccesses = 0;
   private readonly failureThreshold: number;
+  private readonly resetTimeout: number;
+  private readonly mode: CircuitBreakerMode;
+  private readonly failureRateThreshold: number;
+  private readonly windowSize: number;
+  private readonly windowDuration?: number;
+  private readonly minimumVolume: number;
+  private readonly halfOpenMaxProbes: number;
+  private readonly successThreshold: number;
+  private readonly name?: string;
+  private readonly onStateChange?: (change: CircuitStateChange) => void;
+  private readonly isFailure: (error: unknown) => boolean;
+  private readonly logger: Logger;
   private readonly getCurrentTime: () => number;
 
-  constructor(
-    config: { failureThreshold: number; resetTimeout: number },
-    getCurrentTime: () => number = Date.now
-  ) {
+  constructor(config: CircuitBreakerConfig, getCurrentTime: () => number = Date.now) {
     this.failureThreshold = config.failureThreshold;
     this.resetTimeout = config.resetTimeout;
+    this.mode = config.mode ?? DEFAULT_CONFIG.CIRCUIT_BREAKER.MODE;
+    this.failureRateThreshold = config.failureRateThreshold ?? DEFAULT_CONFIG.CIRCUIT_BREAKER.FAILURE_RATE_THRESHOLD;
+    this.windowSize = config.windowSize ?? DEFAULT_CONFIG.CIRCUIT_BREAKER.WINDOW_SIZE;
+    this.windowDuration = config.windowDuration;
+    this.minimumVolume = config.minimumVolume ?? DEFAULT_CONFIG.CIRCUIT_BREAKER.MINIMUM_VOLUME;
+    this.halfOpenMaxProbes = config.halfOpenMaxProbes ?? DEFAULT_CONFIG.CIRCUIT_BREAKER.HALF_OPEN_MAX_PROBES;
+    this.successThreshold = config.successThreshold ?? DEFAULT_CONFIG.CIRCUIT_BREAKER.SUCCESS_THRESHOLD;
+    this.name = config.name;
+    this.onStateChange = config.onStateChange;
+    this.isFailure = config.isFailure ?? (() => true);
+    this.logger = config.logger ?? defaultLogger;
     this.getCurrentTime = getCurrentTime;
   }
 
   async execute<T>(fn: () => Promise<T>): Promise<T> {
+    if (!this.isCallPermitted()) {
+      throw new Error('CIRCUIT');
+    }
     if (this.state === CIRCUIT_STATE.OPEN) {
-      const now = this.getCurrentTime();
-      if (this.lastFailureTime && now - this.lastFailureTime >= this.resetTimeout) {
-        this.state = CIRCUIT_STATE.HALF_OPEN;
-      } else {
-        throw new Error('CIRCUIT');
-      }
+      this.transition(CIRCUIT_STATE.HALF_OPEN);
+    }
+
+    // While half-open only a limited number of trial calls may run at once;
+    // concurrent callers are turned away until one settles
+    const probe = this.state === CIRCUIT_STATE.HALF_OPEN;
+    if (probe) {
+      this.probesInFlight++;
     }
 
     try {
       const result = await fn();
-      if (this.state === CIRCUIT_STATE.HALF_OPEN) {
-        this.state = CIRCUIT_STATE.CLOSED;
-        this.failureCount = 0;
-        this.lastFailureTime = null;
-      }
+      this.onSuccess(probe);
       return result;
     } catch (error) {
-      this.failureCount++;
-      this.lastFailureTime = this.getCurrentTime();
-
-      if (this.failureCount >= this.failureThreshold) {
-        this.state = CIRCUIT_STATE.OPEN;
+      // Errors that say nothing about the protected service's health only free the probe slot
+      if (this.isFailure(error)) {
+        this.onFailure(probe);
       }
       throw error;
+    } finally {
+      if (probe) {
+        this.probesInFlight--;
+      }
+    }
+  }
+
+  // Whether execute() would let a call through right now
+  isCallPermitted(): boolean {
+    if (this.state === CIRCUIT_STATE.OPEN) {
+      return (
+        this.lastFailureTime !== null &&
+        this.getCurrentTime() - this.lastFailureTime >= this.resetTimeout
+      );
+    }
+    if (this.state === CIRCUIT_STATE.HALF_OPEN) {
+      return this.probesInFlight < this.halfOpenMaxProbes;
+    }
+    return true;
+  }
+
+  private onSuccess(probe: boolean): void {
+    if (probe) {
+      // A probe that outlived a failed sibling no longer counts
+      if (this.state === CIRCUIT_STATE.HALF_OPEN && ++this.probeSuccesses >= this.successThreshold) {
+        this.close();
+      }
+      return;
+    }
+    this.record(false);
+  }
+
+  private onFailure(probe: boolean): void {
+    this.failureCount++;
+    this.lastFailureTime = this.getCurrentTime();
+
+    if (probe) {
+      if (this.state === CIRCUIT_STATE.HALF_OPEN) {
+        this.transition(CIRCUIT_STATE.OPEN);
+      }
+      return;
+    }
+    this.record(true);
+    if (this.state === CIRCUIT_STATE.CLOSED && this.shouldTrip()) {
+      this.transition(CIRCUIT_STATE.OPEN);
+    }
+  }
+
+  private record(failed: boolean): void {
+    if (this.mode !== CIRCUIT_BREAKER_MODE.ROLLING_WINDOW) {
+      return;
+    }
+    const now = this.getCurrentTime();
+    this.outcomes.push({ at: now, failed });
+    this.pruneWindow(now);
+  }
+
+  private pruneWindow(now: number): void {
+    if (this.windowDuration !== undefined) {
+      const cutoff = now - this.windowDuration;
+      const firstInWindow = this.outcomes.findIndex(outcome => outcome.at > cutoff);
+      this.outcomes = firstInWindow === -1 ? [] : this.outcomes.slice(firstInWindow);
+    } else if (this.outcomes.length > this.windowSize) {
+      this.outcomes = this.outcomes.slice(-this.windowSize);
+    }
+  }
+
+  private shouldTrip(): boolean {
+    if (this.mode !== CIRCUIT_BREAKER_MODE.ROLLING_WINDOW) {
+      return this.failureCount >= this.failureThreshold;
+    }
+    // Too few calls say nothing about the provider's health
+    if (this.outcomes.length < this.minimumVolume) {
+      return false;
+    }
+    return this.getFailureRate() >= this.failureRateThreshold;
+  }
+
+  // Percentage of failed calls in the rolling window
+  getFailureRate(): number {
+    this.pruneWindow(this.getCurrentTime());
+    if (this.outcomes.length === 0) {
+      return 0;
+    }
+    const failures = this.outcomes.filter(outcome => outcome.failed).length;
+    return (failures / this.outcomes.length) * 100;
+  }
+
+  private close(): void {
+    this.failureCount = 0;
+    this.lastFailureTime = null;
+    this.outcomes = [];
+    this.transition(CIRCUIT_STATE.CLOSED);
+  }
+
+  private transition(to: typeof CIRCUIT_STATE[keyof typeof CIRCUIT_STATE]): void {
+    const from = this.state;
+    if (from === to) {
+      return;
+    }
+    this.state = to;
+    this.probeSuccesses = 0;
+
+    const context = { circuit: this.name, from, circuitState: to, failureCount: this.failureCount };
+    if (to === CIRCUIT_STATE.OPEN) {
+      this.logger.warn('Circuit opened', context);
+    } else {
+      this.logger.info('Circuit state changed', context);
+    }
+
+    try {
+      this.onStateChange?.({ name: this.name, from, to, at: this.getCurrentTime() });
+    } catch (error) {
+      this.logger.error('Circuit breaker state change callback failed', { circuit: this.name, error });
     }
   }
 
@@ -49,9 +192,8 @@ export class CircuitBreaker {
     return this.state;
   }
 
+  // Probes still in flight finish normally but no longer affect the state
   reset(): void {
-    this.state = CIRCUIT_STATE.CLOSED;
-    this.failureCount = 0;
-    this.lastFailureTime = null;
+    this.close();
   }
 }
@@ -0,0 +1,48 @@
+import { Logger } from '../core/types';
+import { defaultLogger } from './Logger';
+
+type Listener<T> = (event: T) => void;
+
+type ListenerSets<Events> = { [K in keyof Events]?: Set<Listener<Events[K]>> };
+
+// Listeners run synchronously in subscription order. One that throws is logged
+// and does not stop the others or the code that emitted the event.
+export class EventEmitter<Events> {
+  private listeners: ListenerSets<Events> = {};
+
+  constructor(private readonly logger: Logger = defaultLogger) {}
+
+  // Returns a function that removes the listener again
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    let listeners = this.listeners[event];
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners[event] = listeners;
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const listeners = this.listeners[event];
+    if (!listeners) {
+      return;
+    }
+    // Copied so listeners may unsubscribe while being called
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(payload);
+      } catch (error) {
+        this.logger.error('Event listener failed', { event, error });
+      }
+    }
+  }
+
+  listenerCount(event: keyof Events): number {
+    return this.listeners[event]?.size ?? 0;
+  }
+}
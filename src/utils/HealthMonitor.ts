@@ -0,0 +1,135 @@
+import { EmailProvider, HealthCheckConfig, HealthCheckResult, Logger, ProviderHealth } from '../core/types';
+import { defaultLogger } from './Logger';
+
+export class HealthMonitor {
+  private health = new Map<string, ProviderHealth>();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private readonly providers: EmailProvider[];
+  private readonly config: HealthCheckConfig;
+  private readonly logger: Logger;
+  private readonly getCurrentTime: () => number;
+
+  constructor(
+    providers: EmailProvider[],
+    config: HealthCheckConfig,
+    getCurrentTime: () => number = Date.now
+  ) {
+    this.providers = providers;
+    this.config = config;
+    this.logger = config.logger ?? defaultLogger;
+    this.getCurrentTime = getCurrentTime;
+    for (const provider of providers) {
+      this.health.set(provider.name, { healthy: true, consecutiveFailures: 0, consecutiveSuccesses: 0 });
+    }
+  }
+
+  // Checks every provider now and then every interval; rounds never overlap
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.poll();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async checkAll(): Promise<void> {
+    await Promise.all(this.providers.map(provider => this.check(provider)));
+  }
+
+  // Providers count as healthy until checks prove otherwise
+  isHealthy(name: string): boolean {
+    return this.health.get(name)?.healthy ?? true;
+  }
+
+  getHealth(name: string): ProviderHealth | undefined {
+    const health = this.health.get(name);
+    return health && { ...health };
+  }
+
+  private poll(): void {
+    this.checkAll().finally(() => {
+      if (!this.running) {
+        return;
+      }
+      this.timer = setTimeout(() => this.poll(), this.config.interval);
+      // Health checks alone should not keep the process alive
+      this.timer.unref?.();
+    });
+  }
+
+  private async check(provider: EmailProvider): Promise<void> {
+    const startedAt = this.getCurrentTime();
+    let ok = false;
+    let error: string | undefined;
+    try {
+      ok = await this.withTimeout(provider.isAvailable());
+      if (!ok) {
+        error = 'Provider reported itself unavailable';
+      }
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : String(caught);
+    }
+
+    this.record(provider.name, {
+      at: startedAt,
+      ok,
+      latency: this.getCurrentTime() - startedAt,
+      error,
+    });
+  }
+
+  private withTimeout<T>(check: Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Health check timed out after ${this.config.timeout}ms`)),
+        this.config.timeout
+      );
+    });
+    return Promise.race([check, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  private record(name: string, result: HealthCheckResult): void {
+    const health = this.health.get(name)!;
+    health.lastCheck = result;
+    if (result.ok) {
+      health.consecutiveSuccesses++;
+      health.consecutiveFailures = 0;
+    } else {
+      health.consecutiveFailures++;
+      health.consecutiveSuccesses = 0;
+    }
+
+    const flip = health.healthy
+      ? health.consecutiveFailures >= this.config.unhealthyThreshold
+      : health.consecutiveSuccesses >= this.config.healthyThreshold;
+    if (!flip) {
+      return;
+    }
+    health.healthy = !health.healthy;
+    if (health.healthy) {
+      this.logger.info('Provider is healthy again', { provider: name });
+    } else {
+      this.logger.warn('Provider marked unhealthy', {
+        provider: name,
+        consecutiveFailures: health.consecutiveFailures,
+        error: result.error,
+      });
+    }
+
+    try {
+      this.config.onHealthChange?.({ name, healthy: health.healthy, at: result.at });
+    } catch (error) {
+      this.logger.error('Health change callback failed', { provider: name, error });
+    }
+  }
+}
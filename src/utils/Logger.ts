@@ -0,0 +1,98 @@
+import { JsonLoggerConfig, LogContext, Logger, LogLevel } from '../core/types';
+import { DEFAULT_CONFIG, LOG_LEVELS } from '../core/constants';
+
+// Lower is more severe; a logger keeps entries at or below its own level
+const SEVERITY: Record<LogLevel, number> = {
+  [LOG_LEVELS.ERROR]: 0,
+  [LOG_LEVELS.WARN]: 1,
+  [LOG_LEVELS.INFO]: 2,
+  [LOG_LEVELS.DEBUG]: 3,
+};
+
+// Errors do not survive JSON.stringify, so the useful fields are copied out
+const serialize = (value: unknown): unknown => {
+  if (!(value instanceof Error)) {
+    return value;
+  }
+  const { code, category } = value as { code?: string; category?: string };
+  return { name: value.name, message: value.message, code, category };
+};
+
+// Writes one JSON object per line: time, level, message, then context fields
+export class JsonLogger implements Logger {
+  private readonly level: LogLevel;
+  private readonly context: LogContext;
+  private readonly write: (line: string) => void;
+  private readonly getCurrentTime: () => number;
+
+  constructor(config: JsonLoggerConfig = {}, getCurrentTime: () => number = Date.now) {
+    this.level = config.level ?? DEFAULT_CONFIG.LOGGING.LEVEL;
+    this.context = config.context ?? {};
+    this.write = config.write ?? (line => console.error(line));
+    this.getCurrentTime = getCurrentTime;
+  }
+
+  error(message: string, context?: LogContext): void {
+    this.log(LOG_LEVELS.ERROR, message, context);
+  }
+
+  warn(message: string, context?: LogContext): void {
+    this.log(LOG_LEVELS.WARN, message, context);
+  }
+
+  info(message: string, context?: LogContext): void {
+    this.log(LOG_LEVELS.INFO, message, context);
+  }
+
+  debug(message: string, context?: LogContext): void {
+    this.log(LOG_LEVELS.DEBUG, message, context);
+  }
+
+  // A logger that adds `context` to every entry, e.g. a component name
+  child(context: LogContext): JsonLogger {
+    return new JsonLogger(
+      { level: this.level, context: { ...this.context, ...context }, write: this.write },
+      this.getCurrentTime
+    );
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return SEVERITY[level] <= SEVERITY[this.level];
+  }
+
+  private log(level: LogLevel, message: string, context: LogContext = {}): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+
+    const entry: LogContext = {
+      time: new Date(this.getCurrentTime()).toISOString(),
+      level,
+      message,
+    };
+    for (const [key, value] of Object.entries({ ...this.context, ...context })) {
+      if (value !== undefined) {
+        entry[key] = serialize(value);
+      }
+    }
+
+    // Logging is best effort: a sink that throws or a field JSON cannot encode costs only this entry
+    try {
+      this.write(JSON.stringify(entry));
+    } catch (error) {
+      // Nowhere left to report it
+    }
+  }
+}
+
+export class NoopLogger implements Logger {
+  error(): void {}
+  warn(): void {}
+  info(): void {}
+  debug(): void {}
+}
+
+export const noopLogger: Logger = new NoopLogger();
+
+// Used wherever no logger is configured
+export const defaultLogger: Logger = new JsonLogger();
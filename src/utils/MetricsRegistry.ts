@@ -0,0 +1,194 @@
+import { MetricLabels, MetricType } from '../core/types';
+import { DEFAULT_CONFIG } from '../core/constants';
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+// `{provider="a",outcome="success"}`, or nothing for an unlabelled series
+const formatLabels = (labels: MetricLabels): string => {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(String(value))}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+const formatValue = (value: number): string => {
+  if (value === Infinity) {
+    return '+Inf';
+  }
+  if (value === -Infinity) {
+    return '-Inf';
+  }
+  return String(value);
+};
+
+// One sample line of the exposition format, e.g. `email_send_success_total 3`
+export interface MetricSample {
+  name: string;
+  labels: MetricLabels;
+  value: number;
+}
+
+abstract class Metric {
+  abstract readonly type: MetricType;
+
+  constructor(public readonly name: string, public readonly help: string) {}
+
+  abstract samples(): MetricSample[];
+}
+
+export class Counter extends Metric {
+  readonly type = 'counter';
+  private series: Map<string, MetricSample> = new Map();
+
+  inc(labels: MetricLabels = {}, amount = 1): void {
+    if (!(amount >= 0)) {
+      throw new Error(`Counter ${this.name} can only go up`);
+    }
+    const key = formatLabels(labels);
+    const sample = this.series.get(key) ?? { name: this.name, labels, value: 0 };
+    sample.value += amount;
+    this.series.set(key, sample);
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(formatLabels(labels))?.value ?? 0;
+  }
+
+  samples(): MetricSample[] {
+    return [...this.series.values()];
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = 'gauge';
+  private series: Map<string, MetricSample> = new Map();
+
+  set(labels: MetricLabels, value: number): void {
+    this.series.set(formatLabels(labels), { name: this.name, labels, value });
+  }
+
+  inc(labels: MetricLabels = {}, amount = 1): void {
+    this.set(labels, this.get(labels) + amount);
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(formatLabels(labels))?.value ?? 0;
+  }
+
+  samples(): MetricSample[] {
+    return [...this.series.values()];
+  }
+}
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  bucketCounts: number[]; // per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+// Rendered as cumulative `_bucket` series plus `_sum` and `_count`
+export class Histogram extends Metric {
+  readonly type = 'histogram';
+  private readonly buckets: number[];
+  private series: Map<string, HistogramSeries> = new Map();
+
+  constructor(name: string, help: string, buckets: readonly number[] = DEFAULT_CONFIG.METRICS.LATENCY_BUCKETS) {
+    super(name, help);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = formatLabels(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    const bucket = this.buckets.findIndex(bound => value <= bound);
+    if (bucket !== -1) {
+      series.bucketCounts[bucket]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  getCount(labels: MetricLabels = {}): number {
+    return this.series.get(formatLabels(labels))?.count ?? 0;
+  }
+
+  getSum(labels: MetricLabels = {}): number {
+    return this.series.get(formatLabels(labels))?.sum ?? 0;
+  }
+
+  samples(): MetricSample[] {
+    const samples: MetricSample[] = [];
+    for (const { labels, bucketCounts, sum, count } of this.series.values()) {
+      let cumulative = 0;
+      this.buckets.forEach((bound, index) => {
+        cumulative += bucketCounts[index];
+        samples.push({ name: `${this.name}_bucket`, labels: { ...labels, le: formatValue(bound) }, value: cumulative });
+      });
+      samples.push({ name: `${this.name}_bucket`, labels: { ...labels, le: '+Inf' }, value: count });
+      samples.push({ name: `${this.name}_sum`, labels, value: sum });
+      samples.push({ name: `${this.name}_count`, labels, value: count });
+    }
+    return samples;
+  }
+}
+
+// Holds every metric by name; asking for a registered name returns the
+// existing metric, so call sites do not need to keep references around
+export class MetricsRegistry {
+  private metrics: Map<string, Metric> = new Map();
+
+  counter(name: string, help = ''): Counter {
+    return this.getOrCreate(name, 'counter', () => new Counter(name, help));
+  }
+
+  gauge(name: string, help = ''): Gauge {
+    return this.getOrCreate(name, 'gauge', () => new Gauge(name, help));
+  }
+
+  histogram(name: string, help = '', buckets?: readonly number[]): Histogram {
+    return this.getOrCreate(name, 'histogram', () => new Histogram(name, help, buckets));
+  }
+
+  // Every sample keyed the way it is rendered, e.g. `name{provider="a"}`
+  snapshot(): Map<string, number> {
+    const snapshot = new Map<string, number>();
+    for (const metric of this.metrics.values()) {
+      for (const { name, labels, value } of metric.samples()) {
+        snapshot.set(`${name}${formatLabels(labels)}`, value);
+      }
+    }
+    return snapshot;
+  }
+
+  // Prometheus text exposition format, version 0.0.4
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      if (metric.help) {
+        lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+      }
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      for (const { name, labels, value } of metric.samples()) {
+        lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`);
+      }
+    }
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+
+  private getOrCreate<T extends Metric>(name: string, type: MetricType, create: () => T): T {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing as T;
+    }
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
@@ -0,0 +1,187 @@
+import { randomBytes } from 'crypto';
+import * as os from 'os';
+import { EmailAddress, EmailAttachment, EmailMessage } from '../core/types';
+import { formatAddress } from './Address';
+
+export interface MimeOptions {
+  hostname?: string; // domain part of the generated Message-ID; defaults to the host name
+  date?: Date; // the Date header; defaults to now
+}
+
+interface MimePart {
+  headers: string[];
+  body: string;
+}
+
+const CRLF = '\r\n';
+const MAX_LINE_LENGTH = 76; // for encoded content (RFC 2045)
+const MAX_HEADER_LENGTH = 78; // recommended, before folding (RFC 5322)
+const MAX_UNENCODED_LINE_LENGTH = 998;
+// An encoded-word may be 75 characters; `=?UTF-8?B?` and `?=` leave 63 for
+// base64, which holds 45 bytes
+const MAX_ENCODED_WORD_BYTES = 45;
+
+const isAscii = (text: string): boolean => /^[\x00-\x7f]*$/.test(text);
+
+const toCrlf = (text: string): string => text.replace(/\r?\n/g, CRLF);
+
+// RFC 2047 encoded-words, split between characters, never inside one
+export const encodeHeaderValue = (value: string): string => {
+  if (isAscii(value)) {
+    return value;
+  }
+  const words: string[] = [];
+  let chunk = '';
+  for (const char of value) {
+    if (Buffer.byteLength(chunk + char) > MAX_ENCODED_WORD_BYTES) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  words.push(chunk);
+  return words.map(word => `=?UTF-8?B?${Buffer.from(word).toString('base64')}?=`).join(`${CRLF} `);
+};
+
+// RFC 2045 section 6.7, with CRLF line breaks and soft breaks keeping lines within 76 characters
+export const encodeQuotedPrintable = (text: string): string =>
+  text
+    .split(/\r?\n/)
+    .map(line => {
+      const bytes = Buffer.from(line);
+      let encoded = '';
+      let current = '';
+      bytes.forEach((byte, index) => {
+        // Trailing spaces and tabs would be stripped in transit, so they are encoded
+        const literal =
+          (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && index < bytes.length - 1);
+        const token = literal ? String.fromCharCode(byte) : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+        if (current.length + token.length > MAX_LINE_LENGTH - 1) {
+          encoded += `${current}=${CRLF}`;
+          current = '';
+        }
+        current += token;
+      });
+      return encoded + current;
+    })
+    .join(CRLF);
+
+const encodeAddress = (address: EmailAddress): string =>
+  address.name && !isAscii(address.name)
+    ? `${encodeHeaderValue(address.name)} <${address.address}>`
+    : formatAddress(address);
+
+const addressHeader = (name: string, addresses: EmailAddress[]): string => {
+  const encoded = addresses.map(encodeAddress);
+  const line = `${name}: ${encoded.join(', ')}`;
+  return line.length <= MAX_HEADER_LENGTH ? line : `${name}: ${encoded.join(`,${CRLF} `)}`;
+};
+
+const messageIdHeader = (name: string, ids: string[]): string =>
+  `${name}: ${ids.map(id => (id.startsWith('<') ? id : `<${id}>`)).join(`${CRLF} `)}`;
+
+// RFC 2231 for names that are not plain ASCII
+const filenameParameter = (filename: string): string =>
+  isAscii(filename)
+    ? `filename="${filename.replace(/(["\\])/g, '\\$1')}"`
+    : `filename*=UTF-8''${encodeURIComponent(filename).replace(
+        /['()*]/g,
+        char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+      )}`;
+
+// Date header in RFC 5322 form, e.g. `Mon, 19 Oct 2026 09:30:00 +0000`
+const formatDate = (date: Date): string => date.toUTCString().replace(/GMT$/, '+0000');
+
+const textPart = (text: string, subtype: 'plain' | 'html'): MimePart => {
+  const body = toCrlf(text);
+  const sevenBit = isAscii(text) && body.split(CRLF).every(line => line.length <= MAX_UNENCODED_LINE_LENGTH);
+  return {
+    headers: [
+      `Content-Type: text/${subtype}; charset=utf-8`,
+      `Content-Transfer-Encoding: ${sevenBit ? '7bit' : 'quoted-printable'}`,
+    ],
+    body: sevenBit ? body : encodeQuotedPrintable(text),
+  };
+};
+
+const attachmentPart = (attachment: EmailAttachment, inline: boolean): MimePart => {
+  const headers = [
+    `Content-Type: ${attachment.contentType}`,
+    'Content-Transfer-Encoding: base64',
+    `Content-Disposition: ${inline ? 'inline' : 'attachment'}; ${filenameParameter(attachment.filename)}`,
+  ];
+  if (attachment.contentId) {
+    headers.push(`Content-ID: <${attachment.contentId}>`);
+  }
+  const lines = attachment.content.match(new RegExp(`.{1,${MAX_LINE_LENGTH}}`, 'g')) ?? [];
+  return { headers, body: lines.join(CRLF) };
+};
+
+const multipart = (subtype: 'mixed' | 'alternative' | 'related', parts: MimePart[]): MimePart => {
+  const boundary = `=_${randomBytes(12).toString('hex')}`;
+  return {
+    headers: [`Content-Type: multipart/${subtype}; boundary="${boundary}"`],
+    body: [...parts.map(part => `--${boundary}${CRLF}${renderPart(part)}`), `--${boundary}--`].join(CRLF),
+  };
+};
+
+const renderPart = (part: MimePart): string => `${part.headers.join(CRLF)}${CRLF}${CRLF}${part.body}`;
+
+// The body tree, from the inside out: inline images sit next to the HTML they
+// belong to, text and HTML are alternatives, and attachments go alongside both
+const buildContent = (message: EmailMessage): MimePart => {
+  const attachments = message.attachments ?? [];
+  const inline = message.html === undefined ? [] : attachments.filter(attachment => attachment.contentId);
+  const attached = attachments.filter(attachment => !inline.includes(attachment));
+
+  let content = textPart(message.body, 'plain');
+  if (message.html !== undefined) {
+    let html = textPart(message.html, 'html');
+    if (inline.length > 0) {
+      html = multipart('related', [html, ...inline.map(attachment => attachmentPart(attachment, true))]);
+    }
+    content = multipart('alternative', [content, html]);
+  }
+  if (attached.length > 0) {
+    content = multipart('mixed', [content, ...attached.map(attachment => attachmentPart(attachment, false))]);
+  }
+  return content;
+};
+
+// Message-ID is derived from the message id, so every attempt and every
+// provider sends the same one and receivers can spot duplicates
+export const messageIdOf = (message: EmailMessage, hostname: string = os.hostname()): string =>
+  `<${message.id.replace(/[^\w!#$%&'*+\-/=?^`{|}~.]/g, '-')}@${hostname}>`;
+
+// Serializes a message to RFC 5322 / RFC 2045 text with CRLF line breaks.
+// Bcc recipients are left out; they belong in the envelope only.
+export const buildMime = (message: EmailMessage, options: MimeOptions = {}): string => {
+  const headers = [addressHeader('From', [message.from])];
+  if (message.to.length > 0) {
+    headers.push(addressHeader('To', message.to));
+  }
+  if (message.cc?.length) {
+    headers.push(addressHeader('Cc', message.cc));
+  }
+  if (message.replyTo?.length) {
+    headers.push(addressHeader('Reply-To', message.replyTo));
+  }
+  headers.push(
+    `Subject: ${encodeHeaderValue(message.subject)}`,
+    `Date: ${formatDate(options.date ?? new Date())}`,
+    `Message-ID: ${messageIdOf(message, options.hostname)}`
+  );
+  if (message.inReplyTo) {
+    headers.push(messageIdHeader('In-Reply-To', [message.inReplyTo]));
+  }
+  if (message.references?.length) {
+    headers.push(messageIdHeader('References', message.references));
+  }
+  for (const [name, value] of Object.entries(message.headers ?? {})) {
+    headers.push(`${name}: ${encodeHeaderValue(value)}`);
+  }
+  headers.push('MIME-Version: 1.0');
+
+  const content = buildContent(message);
+  return renderPart({ headers: [...headers, ...content.headers], body: content.body });
+};
@@ -0,0 +1,101 @@
+import { EmailProvider, ProviderSelector, RoutingConfig, SendAttemptResult } from '../core/types';
+import { DEFAULT_CONFIG, ROUTING_STRATEGY } from '../core/constants';
+
+// Moves `first` to the front and keeps the rest in configured order for failover
+const leading = (providers: EmailProvider[], first: EmailProvider): EmailProvider[] => [
+  first,
+  ...providers.filter(provider => provider !== first),
+];
+
+export class PriorityFailoverSelector implements ProviderSelector {
+  select(providers: EmailProvider[]): EmailProvider[] {
+    return [...providers];
+  }
+}
+
+// Smooth weighted round-robin: every provider earns its weight in credit per
+// pick and the richest one leads, which spreads picks evenly over time
+export class WeightedRoundRobinSelector implements ProviderSelector {
+  private credits = new Map<string, number>();
+
+  constructor(private readonly weights: Record<string, number> = {}) {}
+
+  select(providers: EmailProvider[]): EmailProvider[] {
+    if (providers.length === 0) {
+      return [];
+    }
+
+    let total = 0;
+    let selected = providers[0];
+    for (const provider of providers) {
+      const weight = this.weights[provider.name] ?? 1;
+      const credit = (this.credits.get(provider.name) ?? 0) + weight;
+      this.credits.set(provider.name, credit);
+      total += weight;
+      if (credit > this.credits.get(selected.name)!) {
+        selected = provider;
+      }
+    }
+
+    this.credits.set(selected.name, this.credits.get(selected.name)! - total);
+    return leading(providers, selected);
+  }
+}
+
+// Prefers the provider with the lowest moving-average latency. Providers
+// without a sample yet go first so each gets measured.
+export class LeastLatencySelector implements ProviderSelector {
+  private latencies = new Map<string, number>();
+
+  constructor(private readonly smoothing: number = DEFAULT_CONFIG.PROVIDER.LATENCY_SMOOTHING) {}
+
+  select(providers: EmailProvider[]): EmailProvider[] {
+    const latency = (provider: EmailProvider) => this.latencies.get(provider.name) ?? -1;
+    return [...providers].sort((a, b) => latency(a) - latency(b));
+  }
+
+  // Failed attempts say little about speed; the circuit breaker handles those
+  recordResult(providerName: string, result: SendAttemptResult): void {
+    if (!result.ok) {
+      return;
+    }
+    const previous = this.latencies.get(providerName);
+    this.latencies.set(
+      providerName,
+      previous === undefined
+        ? result.latency
+        : previous + this.smoothing * (result.latency - previous)
+    );
+  }
+
+  getLatency(providerName: string): number | undefined {
+    return this.latencies.get(providerName);
+  }
+}
+
+export class LowestCostSelector implements ProviderSelector {
+  constructor(private readonly costs: Record<string, number> = {}) {}
+
+  select(providers: EmailProvider[]): EmailProvider[] {
+    const cost = (provider: EmailProvider) => this.costs[provider.name] ?? Infinity;
+    // Array.prototype.sort is stable, so equal costs keep the configured order
+    return [...providers].sort((a, b) => cost(a) - cost(b));
+  }
+}
+
+export const createProviderSelector = (config: RoutingConfig = {}): ProviderSelector => {
+  if (config.selector) {
+    return config.selector;
+  }
+
+  switch (config.strategy ?? DEFAULT_CONFIG.PROVIDER.ROUTING_STRATEGY) {
+    case ROUTING_STRATEGY.WEIGHTED_ROUND_ROBIN:
+      return new WeightedRoundRobinSelector(config.weights);
+    case ROUTING_STRATEGY.LEAST_LATENCY:
+      return new LeastLatencySelector();
+    case ROUTING_STRATEGY.LOWEST_COST:
+      return new LowestCostSelector(config.costs);
+    default:
+      return new PriorityFailoverSelector();
+  }
+};
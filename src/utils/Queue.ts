@@ -1,77 +1,553 @@
-import { EmailMessage, EmailStatus } from '../core/types';
+import {
+  EmailMessage,
+  EmailPriority,
+  EmailStatus,
+  QueueConfig,
+  QueueOverflowPolicy,
+  QueueRecord,
+  QueueStore,
+  Logger,
+  Tracer,
+} from '../core/types';
+import { DEFAULT_CONFIG, OVERFLOW_POLICY, PRIORITY } from '../core/constants';
+import { InMemoryQueueStore } from '../stores/InMemoryQueueStore';
+import { defaultLogger } from './Logger';
+import { noopTracer, parseTraceparent } from './Tracing';
+import { recipientsOf } from './Address';
 
 type QueueItem = {
-  message: EmailMessage;
+  record: QueueRecord;
   process: (message: EmailMessage) => Promise<EmailStatus>;
-  attempts: number;
   resolve: (value: EmailStatus) => void;
   reject: (error: Error) => void;
+  generation: number; // clear() generation the item was accepted in
+  readyAt: number; // when the item last became eligible to run
+};
+
+export type RestoredDelivery = {
+  message: EmailMessage;
+  delivery: Promise<EmailStatus>;
 };
 
+type CapacityWaiter = {
+  admit: () => void;
+  timer: NodeJS.Timeout;
+};
+
+// setTimeout overflows past ~24.8 days; longer waits are re-armed when they fire
+const MAX_TIMER_DELAY = 2147483647;
+
+const LANES: EmailPriority[] = [PRIORITY.HIGH, PRIORITY.NORMAL, PRIORITY.LOW];
+
+const laneOf = (item: QueueItem): EmailPriority => item.record.message.priority ?? PRIORITY.NORMAL;
+
+const recipientsOfItem = (item: QueueItem): string[] =>
+  recipientsOf(item.record.message).map(recipient => recipient.toLowerCase());
+
 export class Queue {
-  private queue: QueueItem[] = [];
-  private processing = false;
+  private lanes: Record<EmailPriority, QueueItem[]> = { high: [], normal: [], low: [] };
+  private laneCredits: Record<EmailPriority, number> = { high: 0, normal: 0, low: 0 };
+  private readonly laneWeights: Record<EmailPriority, number>;
+  private scheduled: QueueItem[] = []; // sorted by notBefore
+  private inFlight = new Set<QueueItem>();
+  private generation = 0;
+  private drainWaiters: (() => void)[] = [];
+  private capacityWaiters: CapacityWaiter[] = [];
+  private admitting = 0; // admitted senders whose record is still being stored
+  private storing = new Set<string>(); // ids of admitted messages whose record is being stored
+  private highWaterMark = 0;
+  private wakeUpTimer: NodeJS.Timeout | null = null;
+  private readonly maxAttempts: number;
+  private readonly concurrency: number;
+  private readonly preserveRecipientOrder: boolean;
+  private readonly maxSize: number;
+  private readonly overflowPolicy: QueueOverflowPolicy;
+  private readonly overflowTimeout: number;
+  private readonly store: QueueStore;
+  private readonly logger: Logger;
+  private readonly tracer: Tracer;
+  private readonly onDeadLetter?: (record: QueueRecord, error: Error) => Promise<void> | void;
   private readonly getCurrentTime: () => number;
 
-  constructor(maxAttempts: number, getCurrentTime: () => number = Date.now) {
-    this.maxAttempts = maxAttempts;
+  constructor(config: QueueConfig, getCurrentTime: () => number = Date.now) {
+    this.maxAttempts = config.maxAttempts;
+    this.concurrency = config.concurrency ?? DEFAULT_CONFIG.QUEUE.CONCURRENCY;
+    this.preserveRecipientOrder = config.preserveRecipientOrder ?? false;
+    this.maxSize = config.maxSize ?? DEFAULT_CONFIG.QUEUE.MAX_SIZE;
+    this.overflowPolicy = config.overflowPolicy ?? DEFAULT_CONFIG.QUEUE.OVERFLOW_POLICY;
+    this.overflowTimeout = config.overflowTimeout ?? DEFAULT_CONFIG.QUEUE.OVERFLOW_TIMEOUT;
+    this.store = config.store || new InMemoryQueueStore();
+    this.logger = config.logger ?? defaultLogger;
+    this.tracer = config.tracer ?? noopTracer;
+    this.onDeadLetter = config.onDeadLetter;
+    this.laneWeights = { ...DEFAULT_CONFIG.QUEUE.PRIORITY_WEIGHTS, ...config.priorityWeights };
     this.getCurrentTime = getCurrentTime;
   }
 
   async enqueue(
     message: EmailMessage,
-    processor: (message: EmailMessage) => Promise<EmailStatus>
+    processor: (message: EmailMessage) => Promise<EmailStatus>,
+    notBefore?: number
   ): Promise<EmailStatus> {
-    return new Promise((resolve, reject) => {
-      this.queue.push({
+    await this.admit(message.priority ?? PRIORITY.NORMAL);
+
+    let delivery: Promise<EmailStatus>;
+    try {
+      const record: QueueRecord = {
         message,
-        process: processor,
         attempts: 0,
+        enqueuedAt: this.getCurrentTime(),
+        notBefore,
+      };
+      // Persist before accepting so the message survives a crash from here on
+      this.storing.add(message.id);
+      await this.store.add(record);
+      delivery = this.push(record, processor);
+    } finally {
+      this.storing.delete(message.id);
+      this.admitting--;
+      this.releaseCapacity();
+      this.notifyIfDrained();
+    }
+    return delivery;
+  }
+
+  // Re-queues records left in the store by a previous process. Records that are
+  // already queued in this process are skipped so nothing is delivered twice.
+  // They were accepted before, so the size limit does not apply to them.
+  async restore(
+    processor: (message: EmailMessage) => Promise<EmailStatus>
+  ): Promise<RestoredDelivery[]> {
+    const records = await this.store.load();
+    return records
+      .filter(record => !this.has(record.message.id))
+      .map(record => ({ message: record.message, delivery: this.push(record, processor) }));
+  }
+
+  getScheduled(): QueueRecord[] {
+    return this.scheduled.map(item => ({ ...item.record }));
+  }
+
+  async reschedule(messageId: string, notBefore: number): Promise<boolean> {
+    const item = this.scheduled.find(candidate => candidate.record.message.id === messageId);
+    if (!item) {
+      return false;
+    }
+
+    // Moved back before the store write finishes so has() and clear() never miss it; the write
+    // is started first so a removal after delivery lands after it
+    this.scheduled = this.scheduled.filter(candidate => candidate !== item);
+    item.record.notBefore = notBefore;
+    const persisted = this.persist(messageId, () => this.store.update(item.record));
+    this.schedule(item);
+    this.releaseDueItems();
+    await persisted;
+    return true;
+  }
+
+  // Only messages that are still waiting for their send time can be cancelled
+  async cancel(messageId: string, reason: Error): Promise<boolean> {
+    const item = this.scheduled.find(candidate => candidate.record.message.id === messageId);
+    if (!item) {
+      return false;
+    }
+
+    this.scheduled = this.scheduled.filter(candidate => candidate !== item);
+    this.armWakeUpTimer();
+    this.releaseCapacity();
+    await this.persist(messageId, () => this.store.remove(messageId));
+    item.reject(reason);
+    return true;
+  }
+
+  has(messageId: string): boolean {
+    return (
+      this.storing.has(messageId) ||
+      Array.from(this.inFlight).some(item => item.record.message.id === messageId) ||
+      LANES.some(lane => this.lanes[lane].some(item => item.record.message.id === messageId)) ||
+      this.scheduled.some(item => item.record.message.id === messageId)
+    );
+  }
+
+  private size(): number {
+    return this.getQueueLength() + this.admitting;
+  }
+
+  // Reserves room for one message or throws QUEUE_FULL, as the overflow policy dictates
+  private async admit(lane: EmailPriority): Promise<void> {
+    if (this.size() < this.maxSize && this.capacityWaiters.length === 0) {
+      this.admitting++;
+      return;
+    }
+
+    if (this.overflowPolicy === OVERFLOW_POLICY.WAIT) {
+      return this.waitForCapacity();
+    }
+    if (this.overflowPolicy !== OVERFLOW_POLICY.REJECT) {
+      const victim = this.overflowPolicy === OVERFLOW_POLICY.SHED_OLDEST
+        ? this.oldestWaiting()
+        : this.lowestPriorityWaiting(lane);
+      if (victim) {
+        this.shed(victim);
+        this.admitting++;
+        return;
+      }
+    }
+    this.logger.warn('Queue is full, rejecting message', { queueSize: this.size(), maxSize: this.maxSize });
+    throw new Error('QUEUE_FULL');
+  }
+
+  private waitForCapacity(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const waiter: CapacityWaiter = {
+        admit: resolve,
+        timer: setTimeout(() => {
+          this.capacityWaiters = this.capacityWaiters.filter(candidate => candidate !== waiter);
+          this.logger.warn('Gave up waiting for queue space', { overflowTimeout: this.overflowTimeout });
+          reject(new Error('QUEUE_FULL'));
+        }, this.overflowTimeout),
+      };
+      this.capacityWaiters.push(waiter);
+    });
+  }
+
+  // Hands freed room to waiting senders in arrival order
+  private releaseCapacity(): void {
+    while (this.capacityWaiters.length > 0 && this.size() < this.maxSize) {
+      const waiter = this.capacityWaiters.shift()!;
+      clearTimeout(waiter.timer);
+      this.admitting++;
+      waiter.admit();
+    }
+  }
+
+  private waitingItems(): QueueItem[] {
+    return [...LANES.flatMap(lane => this.lanes[lane]), ...this.scheduled];
+  }
+
+  private oldestWaiting(): QueueItem | undefined {
+    return this.waitingItems().reduce<QueueItem | undefined>(
+      (oldest, item) => (!oldest || item.record.enqueuedAt < oldest.record.enqueuedAt ? item : oldest),
+      undefined
+    );
+  }
+
+  // The newest message of the lowest lane below `lane`; a newcomer never
+  // displaces messages of its own priority
+  private lowestPriorityWaiting(lane: EmailPriority): QueueItem | undefined {
+    const rank = LANES.indexOf(lane);
+    for (const candidate of [...LANES].reverse()) {
+      if (LANES.indexOf(candidate) <= rank) {
+        break;
+      }
+      const items = this.waitingItems().filter(item => laneOf(item) === candidate);
+      if (items.length > 0) {
+        return items.reduce((newest, item) =>
+          item.record.enqueuedAt >= newest.record.enqueuedAt ? item : newest
+        );
+      }
+    }
+    return undefined;
+  }
+
+  private shed(item: QueueItem): void {
+    const lane = laneOf(item);
+    this.lanes[lane] = this.lanes[lane].filter(candidate => candidate !== item);
+    if (this.lanes[lane].length === 0) {
+      this.laneCredits[lane] = 0;
+    }
+    if (this.scheduled.includes(item)) {
+      this.scheduled = this.scheduled.filter(candidate => candidate !== item);
+      this.armWakeUpTimer();
+    }
+    this.logger.warn('Shedding message to make room', {
+      messageId: item.record.message.id,
+      priority: lane,
+      overflowPolicy: this.overflowPolicy,
+    });
+    this.persist(item.record.message.id, () => this.store.remove(item.record.message.id));
+    item.reject(new Error('QUEUE_SHED'));
+  }
+
+  private push(
+    record: QueueRecord,
+    processor: (message: EmailMessage) => Promise<EmailStatus>
+  ): Promise<EmailStatus> {
+    const delivery = new Promise<EmailStatus>((resolve, reject) => {
+      const item: QueueItem = {
+        record,
+        process: processor,
         resolve,
         reject,
-      });
+        generation: this.generation,
+        readyAt: this.getCurrentTime(),
+      };
 
-      if (!this.processing) {
-        this.process();
+      if (record.notBefore !== undefined && record.notBefore > this.getCurrentTime()) {
+        this.schedule(item);
+        return;
       }
+
+      this.pushReady(item);
+      this.dispatch();
     });
+    this.highWaterMark = Math.max(this.highWaterMark, this.getQueueLength());
+    return delivery;
+  }
+
+  private pushReady(item: QueueItem): void {
+    item.readyAt = this.getCurrentTime();
+    this.lanes[laneOf(item)].push(item);
+  }
+
+  // Index of the first item in the lane that may start now. With recipient
+  // ordering, items with a recipient that already has a send in flight must
+  // wait, and so must later items sharing a recipient with one that waits.
+  private firstEligible(lane: EmailPriority): number {
+    const items = this.lanes[lane];
+    if (!this.preserveRecipientOrder) {
+      return items.length > 0 ? 0 : -1;
+    }
+    const busy = new Set(Array.from(this.inFlight, recipientsOfItem).flat());
+    for (let index = 0; index < items.length; index++) {
+      const recipients = recipientsOfItem(items[index]);
+      if (!recipients.some(recipient => busy.has(recipient))) {
+        return index;
+      }
+      recipients.forEach(recipient => busy.add(recipient));
+    }
+    return -1;
   }
 
-  private async process(): Promise<void> {
-    if (this.queue.length === 0) {
+  // Smooth weighted round-robin over the lanes with work: every lane earns its
+  // weight in credit per pick and the richest lane is served, so higher lanes
+  // go first but a busy low lane still gets weight/total of the dispatches.
+  private nextReady(): QueueItem | undefined {
+    let total = 0;
+    let selected: EmailPriority | null = null;
+    let selectedIndex = -1;
+    for (const lane of LANES) {
+      const index = this.firstEligible(lane);
+      if (index === -1) {
+        continue;
+      }
+      this.laneCredits[lane] += this.laneWeights[lane];
+      total += this.laneWeights[lane];
+      if (selected === null || this.laneCredits[lane] > this.laneCredits[selected]) {
+        selected = lane;
+        selectedIndex = index;
+      }
+    }
+    if (selected === null) {
+      return undefined;
+    }
 
+    this.laneCredits[selected] -= total;
+    const [item] = this.lanes[selected].splice(selectedIndex, 1);
+    if (this.lanes[selected].length === 0) {
+      this.laneCredits[selected] = 0;
+    }
+    return item;
+  }
+
+  private schedule(item: QueueItem): void {
+    const notBefore = item.record.notBefore!;
+    const index = this.scheduled.findIndex(candidate => candidate.record.notBefore! > notBefore);
+    if (index === -1) {
+      this.scheduled.push(item);
+    } else {
+      this.scheduled.splice(index, 0, item);
+    }
+    this.armWakeUpTimer();
+  }
+
+  // Moves every scheduled item whose time has come onto the ready queue
+  private releaseDueItems(): void {
+    const now = this.getCurrentTime();
+    let released = false;
+    while (this.scheduled.length > 0 && this.scheduled[0].record.notBefore! <= now) {
+      this.pushReady(this.scheduled.shift()!);
+      released = true;
+    }
+
+    this.armWakeUpTimer();
+    if (released) {
+      this.dispatch();
+    }
+  }
+
+  private armWakeUpTimer(): void {
+    if (this.wakeUpTimer) {
+      clearTimeout(this.wakeUpTimer);
+      this.wakeUpTimer = null;
+    }
+    if (this.scheduled.length === 0) {
       return;
     }
 
-    this.processing = true;
-    const item = this.queue[0];
+    const delay = Math.max(0, this.scheduled[0].record.notBefore! - this.getCurrentTime());
+    this.wakeUpTimer = setTimeout(() => {
+      this.wakeUpTimer = null;
+      this.releaseDueItems();
+    }, Math.min(delay, MAX_TIMER_DELAY));
+  }
+
+  // Starts ready items until the worker limit is reached
+  private dispatch(): void {
+    while (this.inFlight.size < this.concurrency) {
+      const item = this.nextReady();
+      if (!item) {
+        break;
+      }
+      this.run(item);
+    }
+    this.notifyIfDrained();
+  }
+
+  private async run(item: QueueItem): Promise<void> {
+    this.inFlight.add(item);
+    const { message } = item.record;
+    this.tracer.startSpan('email.queue.wait', {
+      parent: parseTraceparent(message.metadata?.traceparent),
+      startTime: item.readyAt,
+      attributes: {
+        'email.message_id': message.id,
+        'email.queue.lane': laneOf(item),
+        'email.queue.attempt': item.record.attempts + 1,
+      },
+    }).end();
 
     try {
-      const status = await item.process(item.message);
+      const status = await item.process(message);
+      await this.persist(message.id, () => this.store.remove(message.id));
       item.resolve(status);
     } catch (error) {
-      if (item.attempts < this.maxAttempts) {
-        item.attempts++;
-        // Put the item back at the end of the queue
-        this.queue.push(this.queue.shift()!);
+      const { retryAfter, retryable } = error as { retryAfter?: number; retryable?: boolean };
+      // Items accepted before a clear() are not put back once their attempt ends
+      if (typeof retryAfter === 'number' && item.generation === this.generation) {
+        // The processor asked to try again later; this does not use up an attempt
+        item.record.notBefore = this.getCurrentTime() + retryAfter;
+        this.logger.debug('Deferring message', { messageId: message.id, retryAfter });
+        await this.persist(message.id, () => this.store.update(item.record));
+        this.schedule(item);
+      } else if (
+        retryable !== false &&
+        item.record.attempts < this.maxAttempts &&
+        item.generation === this.generation
+      ) {
+        item.record.attempts++;
+        this.logger.debug('Requeueing message for another attempt', {
+          messageId: message.id,
+          attempt: item.record.attempts + 1,
+          error,
+        });
+        await this.persist(message.id, () => this.store.update(item.record));
+        if (this.preserveRecipientOrder) {
+          // Retry ahead of later messages to the same recipient
+          item.readyAt = this.getCurrentTime();
+          this.lanes[laneOf(item)].unshift(item);
+        } else {
+          // Put the item back at the end of its lane
+          this.pushReady(item);
+        }
       } else {
+        if (item.generation === this.generation) {
+          await this.deadLetter(item.record, error as Error);
+        }
+        await this.persist(message.id, () => this.store.remove(message.id));
         item.reject(error as Error);
       }
     }
 
-    
-    this.queue.shift();
+    this.inFlight.delete(item);
+    this.releaseCapacity();
 
     // Process next item
-    setImmediate(() => this.process());
+    setImmediate(() => this.dispatch());
+  }
+
+  private notifyIfDrained(): void {
+    const ready = LANES.some(lane => this.lanes[lane].length > 0);
+    if (ready || this.inFlight.size > 0 || this.storing.size > 0) {
+      return;
+    }
+    const waiters = this.drainWaiters;
+    this.drainWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  // Runs before the record leaves the store, so a crash in between re-queues the
+  // message rather than losing it
+  private async deadLetter(record: QueueRecord, error: Error): Promise<void> {
+    try {
+      await this.onDeadLetter?.(record, error);
+    } catch (deadLetterError) {
+      this.logger.error('Failed to dead-letter message', { messageId: record.message.id, error: deadLetterError });
+    }
+  }
+
+  // The outcome of a send must still reach the caller when the store is unavailable
+  private async persist(messageId: string, operation: () => Promise<void>): Promise<void> {
+    try {
+      await operation();
+    } catch (error) {
+      this.logger.error('Queue store update failed', { messageId, error });
+    }
   }
 
   getQueueLength(): number {
-    return this.queue.length;
+    const ready = LANES.reduce((sum, lane) => sum + this.lanes[lane].length, 0);
+    return ready + this.scheduled.length + this.inFlight.size;
   }
 
-  clear(): void {
-    this.queue = [];
-    this.processing = false;
+  // Largest queue length seen since the queue was created or the mark was reset
+  getHighWaterMark(): number {
+    return this.highWaterMark;
+  }
+
+  resetHighWaterMark(): void {
+    this.highWaterMark = this.getQueueLength();
+  }
+
+  getInFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  // Resolves once nothing is being stored, ready or in flight; scheduled messages are not waited for
+  drain(): Promise<void> {
+    return new Promise(resolve => {
+      this.drainWaiters.push(resolve);
+      this.notifyIfDrained();
+    });
+  }
+
+  // Messages waiting per lane, including ones held back until their send time
+  getQueueDepthByLane(): Record<EmailPriority, number> {
+    const depth = { high: 0, normal: 0, low: 0 };
+    for (const lane of LANES) {
+      depth[lane] = this.lanes[lane].length;
+    }
+    for (const item of this.scheduled) {
+      depth[laneOf(item)]++;
+    }
+    return depth;
+  }
+
+  // Drops every waiting message and rejects its promise with `reason`. Sends
+  // already in flight run to completion but are no longer retried.
+  clear(reason: Error = new Error('Queue cleared')): void {
+    const waiting = this.waitingItems();
+    this.generation++;
+    this.lanes = { high: [], normal: [], low: [] };
+    this.laneCredits = { high: 0, normal: 0, low: 0 };
+    this.scheduled = [];
+    this.armWakeUpTimer();
+
+    for (const item of waiting) {
+      this.persist(item.record.message.id, () => this.store.remove(item.record.message.id));
+      item.reject(reason);
+    }
+    this.releaseCapacity();
+    this.notifyIfDrained();
   }
 }
@@ -1,51 +1,240 @@
-import { RateLimiterConfig } from '../core/types';
+import {
+  AcquireOptions,
+  RateLimiterConfig,
+  RateLimiterStore,
+  RateLimitState,
+  RateLimitStrategy,
+  Logger,
+} from '../core/types';
+import { DEFAULT_CONFIG, RATE_LIMIT_STRATEGY } from '../core/constants';
+import { InMemoryRateLimiterStore } from '../stores/InMemoryRateLimiterStore';
+import { defaultLogger } from './Logger';
+
+type Waiter = {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+  cleanup: () => void;
+};
 
 export class RateLimiter {
-  private requestTimestamps: number[] = [];
+  private state: RateLimitState | undefined; // as last seen in the store
+  private waiters: Waiter[] = [];
+  private wakeUpTimer: NodeJS.Timeout | null = null;
+  private releasing = false;
+  private releaseAgain = false;
   private readonly maxRequests: number;
   private readonly timeWindow: number;
+  private readonly strategy: RateLimitStrategy;
+  private readonly burstCapacity: number;
+  private readonly wait: boolean;
+  private readonly maxWait: number;
+  private readonly store: RateLimiterStore;
+  private readonly key: string;
+  private readonly logger: Logger;
   private readonly getCurrentTime: () => number;
 
   constructor(config: RateLimiterConfig, getCurrentTime: () => number = Date.now) {
     this.maxRequests = config.maxRequests;
     this.timeWindow = config.timeWindow;
+    this.strategy = config.strategy ?? DEFAULT_CONFIG.RATE_LIMITER.STRATEGY;
+    this.burstCapacity = config.burstCapacity ?? config.maxRequests;
+    this.wait = config.wait ?? false;
+    this.maxWait = config.maxWait ?? DEFAULT_CONFIG.RATE_LIMITER.MAX_WAIT;
+    this.store = config.store || new InMemoryRateLimiterStore();
+    this.key = config.key ?? 'default';
+    this.logger = config.logger ?? defaultLogger;
     this.getCurrentTime = getCurrentTime;
   }
 
-  async acquire(): Promise<void> {
-    const now = this.getCurrentTime();
-    this.cleanupOldRequests(now);
-
-    if (this.requestTimestamps.length >= this.maxRequests) {
-      const oldestRequest = this.requestTimestamps[0];
-      const waitTime = oldestRequest + this.timeWindow - now;
-      
-      if (waitTime > 0) {
-        throw new Error('RATE_LIMIT');
+  // Takes a slot, or throws RATE_LIMIT. In waiting mode callers queue up in
+  // arrival order and only fail once maxWait passes; aborting the signal
+  // throws ABORTED.
+  async acquire(options: AcquireOptions = {}): Promise<void> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      throw new Error('ABORTED');
+    }
+    // Waiting callers go first, so a newcomer may not take a freed slot
+    if (this.waiters.length === 0 && (await this.tryAcquire())) {
+      return;
+    }
+    if (!(options.wait ?? this.wait)) {
+      this.logger.debug('Rate limit reached', { rateLimit: this.key, limit: this.maxRequests });
+      throw new Error('RATE_LIMIT');
+    }
+    if (signal?.aborted) {
+      throw new Error('ABORTED');
+    }
+
+    const maxWait = options.maxWait ?? this.maxWait;
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => fail(new Error('ABORTED'));
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.logger.debug('Gave up waiting for a rate limit slot', { rateLimit: this.key, maxWait });
+          fail(new Error('RATE_LIMIT'));
+        }, maxWait),
+        cleanup: () => {
+          clearTimeout(waiter.timer);
+          signal?.removeEventListener('abort', onAbort);
+        },
+      };
+      const fail = (error: Error) => {
+        this.waiters = this.waiters.filter(candidate => candidate !== waiter);
+        waiter.cleanup();
+        reject(error);
+      };
+      signal?.addEventListener('abort', onAbort);
+      this.waiters.push(waiter);
+      this.releaseWaiters();
+    });
+  }
+
+  // Gives back a slot that acquire() took for a request that then did not go
+  // ahead, e.g. because another limit turned it away
+  async release(): Promise<void> {
+    await this.store.update(this.key, stored => {
+      const state = this.advance(stored, this.getCurrentTime());
+      if (this.strategy === RATE_LIMIT_STRATEGY.TOKEN_BUCKET) {
+        state.tokens = Math.min(this.burstCapacity, state.tokens + 1);
+      } else {
+        state.timestamps.pop();
+      }
+      this.state = state;
+      return { state, result: undefined };
+    });
+    if (this.waiters.length > 0) {
+      this.releaseWaiters();
+    }
+  }
+
+  private tryAcquire(): Promise<boolean> {
+    return this.store.update(this.key, stored => {
+      const now = this.getCurrentTime();
+      const state = this.advance(stored, now);
+      const acquired = this.hasRoom(state);
+      if (acquired) {
+        if (this.strategy === RATE_LIMIT_STRATEGY.TOKEN_BUCKET) {
+          state.tokens--;
+        } else {
+          state.timestamps.push(now);
+        }
       }
+      this.state = state;
+      return { state, result: acquired };
+    });
+  }
+
+  // Hands free slots to waiters in order and sleeps until the next one frees
+  // up. Only one pass runs at a time; calls made meanwhile trigger another.
+  private releaseWaiters(): void {
+    if (this.releasing) {
+      this.releaseAgain = true;
+      return;
+    }
+    this.releasing = true;
+    if (this.wakeUpTimer) {
+      clearTimeout(this.wakeUpTimer);
+      this.wakeUpTimer = null;
     }
 
-    this.requestTimestamps.push(now);
+    this.grantSlots()
+      .catch(error => {
+        // Without the store nobody can be admitted, so fail fast instead of waiting out maxWait
+        this.logger.error('Rate limiter store update failed', { rateLimit: this.key, error });
+        for (const waiter of this.waiters.splice(0)) {
+          waiter.cleanup();
+          waiter.reject(error as Error);
+        }
+      })
+      .finally(() => {
+        this.releasing = false;
+        if (this.releaseAgain) {
+          this.releaseAgain = false;
+          this.releaseWaiters();
+        } else if (this.waiters.length > 0) {
+          this.wakeUpTimer = setTimeout(() => {
+            this.wakeUpTimer = null;
+            this.releaseWaiters();
+          }, Math.max(1, this.getTimeUntilNextAvailable()));
+        }
+      });
   }
 
-  private cleanupOldRequests(now: number): void {
+  private async grantSlots(): Promise<void> {
+    while (this.waiters.length > 0 && (await this.tryAcquire())) {
+      // A caller that gave up while the store was busy forfeits the slot
+      const waiter = this.waiters.shift();
+      if (waiter) {
+        waiter.cleanup();
+        waiter.resolve();
+      }
+    }
+  }
+
+  // Brings a stored state up to `now`: old requests leave the window and tokens
+  // accrue at maxRequests per timeWindow, up to the burst capacity
+  private advance(stored: RateLimitState | undefined, now: number): RateLimitState {
+    if (!stored) {
+      return { timestamps: [], tokens: this.burstCapacity, lastRefill: now };
+    }
+    if (this.strategy === RATE_LIMIT_STRATEGY.TOKEN_BUCKET) {
+      const elapsed = Math.max(0, now - stored.lastRefill);
+      return {
+        ...stored,
+        tokens: Math.min(
+          this.burstCapacity,
+          stored.tokens + (elapsed * this.maxRequests) / this.timeWindow
+        ),
+        lastRefill: Math.max(now, stored.lastRefill),
+      };
+    }
     const cutoff = now - this.timeWindow;
-    this.requestTimestamps = this.requestTimestamps.filter(
-      timestamp => timestamp > cutoff
-    );
+    return { ...stored, timestamps: stored.timestamps.filter(timestamp => timestamp > cutoff) };
+  }
+
+  private hasRoom(state: RateLimitState): boolean {
+    return this.strategy === RATE_LIMIT_STRATEGY.TOKEN_BUCKET
+      ? state.tokens >= 1
+      : state.timestamps.length < this.maxRequests;
   }
 
+  // The getters below read the state as of this limiter's last store access;
+  // requests other processes made since then are not reflected
+
   getCurrentRequestCount(): number {
-    return this.requestTimestamps.length;
+    const state = this.advance(this.state, this.getCurrentTime());
+    if (this.strategy === RATE_LIMIT_STRATEGY.TOKEN_BUCKET) {
+      return this.burstCapacity - Math.floor(state.tokens);
+    }
+    return state.timestamps.length;
+  }
+
+  getLimit(): number {
+    return this.strategy === RATE_LIMIT_STRATEGY.TOKEN_BUCKET
+      ? this.burstCapacity
+      : this.maxRequests;
+  }
+
+  getWaitingCount(): number {
+    return this.waiters.length;
   }
 
   getTimeUntilNextAvailable(): number {
-    if (this.requestTimestamps.length < this.maxRequests) {
+    const now = this.getCurrentTime();
+    const state = this.advance(this.state, now);
+    if (this.hasRoom(state)) {
       return 0;
     }
+    if (this.strategy === RATE_LIMIT_STRATEGY.TOKEN_BUCKET) {
+      return Math.ceil(((1 - state.tokens) * this.timeWindow) / this.maxRequests);
+    }
 
-    const oldestRequest = this.requestTimestamps[0];
-    const waitTime = oldestRequest + this.timeWindow - Date.now();
+    const oldestRequest = state.timestamps[0];
+    const waitTime = oldestRequest + this.timeWindow - now;
     return Math.max(0, waitTime);
   }
-}
\ No newline at end of file
+}
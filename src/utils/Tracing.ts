@@ -0,0 +1,229 @@
+import { randomBytes } from 'crypto';
+import {
+  Logger,
+  Span,
+  SpanAttributes,
+  SpanContext,
+  SpanData,
+  SpanEvent,
+  SpanExporter,
+  SpanKind,
+  SpanOptions,
+  SpanStatusCode,
+  Tracer,
+  TracingConfig,
+} from '../core/types';
+import { DEFAULT_CONFIG, SPAN_KIND, SPAN_STATUS } from '../core/constants';
+import { defaultLogger } from './Logger';
+
+const SAMPLED = 1;
+
+const INVALID_CONTEXT: SpanContext = {
+  traceId: '0'.repeat(32),
+  spanId: '0'.repeat(16),
+  traceFlags: 0,
+};
+
+const TRACEPARENT = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+// W3C Trace Context: `00-<trace id>-<span id>-<flags>`
+export const formatTraceparent = (context: SpanContext): string =>
+  `00-${context.traceId}-${context.spanId}-${context.traceFlags.toString(16).padStart(2, '0')}`;
+
+// Anything that is not a valid traceparent, including all-zero ids, yields undefined
+export const parseTraceparent = (value: unknown): SpanContext | undefined => {
+  const match = typeof value === 'string' ? TRACEPARENT.exec(value.trim().toLowerCase()) : null;
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) {
+    return undefined;
+  }
+  return { traceId: match[1], spanId: match[2], traceFlags: parseInt(match[3], 16) };
+};
+
+class RecordingSpan implements Span {
+  private readonly context: SpanContext;
+  private readonly attributes: SpanAttributes;
+  private readonly events: SpanEvent[] = [];
+  private status: SpanData['status'] = { code: SPAN_STATUS.UNSET };
+  private ended = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly kind: SpanKind,
+    private readonly parent: SpanContext | undefined,
+    private readonly startTime: number,
+    attributes: SpanAttributes,
+    private readonly getCurrentTime: () => number,
+    private readonly onEnd: (span: SpanData) => void
+  ) {
+    this.context = {
+      traceId: parent?.traceId ?? randomBytes(16).toString('hex'),
+      spanId: randomBytes(8).toString('hex'),
+      traceFlags: SAMPLED,
+    };
+    this.attributes = { ...attributes };
+  }
+
+  spanContext(): SpanContext {
+    return this.context;
+  }
+
+  isRecording(): boolean {
+    return !this.ended;
+  }
+
+  setAttribute(key: string, value: string | number | boolean | undefined): void {
+    if (!this.ended) {
+      this.attributes[key] = value;
+    }
+  }
+
+  setAttributes(attributes: SpanAttributes): void {
+    for (const [key, value] of Object.entries(attributes)) {
+      this.setAttribute(key, value);
+    }
+  }
+
+  addEvent(name: string, attributes?: SpanAttributes): void {
+    if (!this.ended) {
+      this.events.push({ name, time: this.getCurrentTime(), attributes });
+    }
+  }
+
+  setStatus(code: SpanStatusCode, message?: string): void {
+    // OpenTelemetry: once OK, a span's status is final
+    if (!this.ended && this.status.code !== SPAN_STATUS.OK) {
+      this.status = code === SPAN_STATUS.ERROR ? { code, message } : { code };
+    }
+  }
+
+  recordException(error: unknown): void {
+    const exception = error instanceof Error ? error : new Error(String(error));
+    this.addEvent('exception', {
+      'exception.type': exception.name,
+      'exception.message': exception.message,
+      'email.error_code': (exception as { code?: string }).code,
+    });
+  }
+
+  end(endTime: number = this.getCurrentTime()): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.onEnd({
+      name: this.name,
+      kind: this.kind,
+      spanContext: this.context,
+      parentSpanId: this.parent?.spanId,
+      startTime: this.startTime,
+      endTime,
+      attributes: Object.fromEntries(
+        Object.entries(this.attributes).filter(([, value]) => value !== undefined)
+      ),
+      events: this.events,
+      status: this.status,
+      resource: {},
+    });
+  }
+}
+
+// Stands in for a span when nothing is exported; keeps the parent's context so
+// it still propagates
+class NonRecordingSpan implements Span {
+  constructor(private readonly context: SpanContext = INVALID_CONTEXT) {}
+
+  spanContext(): SpanContext {
+    return this.context;
+  }
+
+  isRecording(): boolean {
+    return false;
+  }
+
+  setAttribute(): void {}
+  setAttributes(): void {}
+  addEvent(): void {}
+  setStatus(): void {}
+  recordException(): void {}
+  end(): void {}
+}
+
+// Hands every span to the exporter as soon as it ends, like OpenTelemetry's
+// simple span processor
+export class BasicTracer implements Tracer {
+  private readonly exporter: SpanExporter;
+  private readonly resource: SpanAttributes;
+  private readonly logger: Logger;
+  private readonly getCurrentTime: () => number;
+
+  constructor(config: TracingConfig, getCurrentTime: () => number = Date.now, logger: Logger = defaultLogger) {
+    this.exporter = config.exporter;
+    this.resource = { 'service.name': config.serviceName ?? DEFAULT_CONFIG.TRACING.SERVICE_NAME };
+    this.logger = logger;
+    this.getCurrentTime = getCurrentTime;
+  }
+
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    return new RecordingSpan(
+      name,
+      options.kind ?? SPAN_KIND.INTERNAL,
+      options.parent,
+      options.startTime ?? this.getCurrentTime(),
+      options.attributes ?? {},
+      this.getCurrentTime,
+      span => this.export({ ...span, resource: this.resource })
+    );
+  }
+
+  private export(span: SpanData): void {
+    // Spans are diagnostics; an exporter that throws or rejects is logged and the span dropped
+    try {
+      const result = this.exporter.export([span]);
+      if (result) {
+        result.catch(error => this.logger.error('Span export failed', { span: span.name, error }));
+      }
+    } catch (error) {
+      this.logger.error('Span export failed', { span: span.name, error });
+    }
+  }
+}
+
+// Sets the span's status from the outcome of the work it covered, then ends it
+export const endSpan = (span: Span, error?: unknown): void => {
+  if (error === undefined) {
+    span.setStatus(SPAN_STATUS.OK);
+  } else {
+    span.recordException(error);
+    span.setStatus(SPAN_STATUS.ERROR, error instanceof Error ? error.message : String(error));
+  }
+  span.end();
+};
+
+export class NoopTracer implements Tracer {
+  startSpan(_name: string, options: SpanOptions = {}): Span {
+    return new NonRecordingSpan(options.parent);
+  }
+}
+
+export const noopTracer: Tracer = new NoopTracer();
+
+// Keeps finished spans in memory, e.g. for tests
+export class InMemorySpanExporter implements SpanExporter {
+  private spans: SpanData[] = [];
+
+  export(spans: SpanData[]): void {
+    this.spans.push(...spans);
+  }
+
+  getFinishedSpans(): SpanData[] {
+    return [...this.spans];
+  }
+
+  reset(): void {
+    this.spans = [];
+  }
+
+  async shutdown(): Promise<void> {
+    this.reset();
+  }
+}
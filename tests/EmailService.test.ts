@@ -1,23 +1,47 @@
 import { EmailService } from '../src/core/EmailService';
 import { MockProvider1 } from '../src/providers/MockProvider1';
 import { MockProvider2 } from '../src/providers/MockProvider2';
-import { EmailMessage, EmailError, EmailStatus } from '../src/core/types';
-import { ERROR_CODES, EMAIL_STATUS, CIRCUIT_STATE } from '../src/core/constants';
+import {
+  EmailMessage,
+  EmailError,
+  EmailStatus,
+  EmailPriority,
+  EmailServiceConfig,
+  EmailServiceEvents,
+  EmailProvider,
+  Logger,
+  QueueOverflowPolicy,
+  RateLimitStrategy,
+  SendOptions,
+} from '../src/core/types';
+import {
+  ERROR_CODES,
+  EMAIL_STATUS,
+  CIRCUIT_STATE,
+  MESSAGE_STATE,
+  SPAN_KIND,
+  SPAN_STATUS,
+} from '../src/core/constants';
 import { METRICS } from '../src/core/constants';
+import { v4 as uuidv4 } from 'uuid';
+import { InMemoryQueueStore } from '../src/stores/InMemoryQueueStore';
+import { InMemoryRateLimiterStore } from '../src/stores/InMemoryRateLimiterStore';
+import { noopLogger } from '../src/utils/Logger';
+import { InMemorySpanExporter, parseTraceparent } from '../src/utils/Tracing';
 
 
 // Mock the providers
 jest.mock('../src/providers/MockProvider1', () => {
-
+  return {
     MockProvider1: jest.fn().mockImplementation(() => ({
-    
-
+      name: 'MockProvider1',
+      send: jest.fn(),
       isAvailable: jest.fn().mockResolvedValue(true),
     })),
   };
 });
 
-jest.mock('../src//MockProvider2', () => {
+jest.mock('../src/providers/MockProvider2', () => {
   return {
     MockProvider2: jest.fn().mockImplementation(() => ({
       name: 'MockProvider2',
@@ -37,13 +61,46 @@ describe('EmailService', () => {
   let mockProvider2: jest.Mocked<MockProvider2>;
   let mockGetCurrentTime: jest.Mock;
   let currentTime: number;
-  const testMessage: EmailMessage = {
+  const testMessage = {
     id: 'test-123',
     to: 'test@example.com',
     from: 'sender@example.com',
     subject: 'Test Subject',
     body: 'Test Body',
   };
+  // testMessage as providers receive it
+  const sentMessage: EmailMessage = {
+    ...testMessage,
+    to: [{ address: testMessage.to }],
+    from: { address: testMessage.from },
+  };
+  // What every provider.send receives alongside the message
+  const sendOptions = { signal: expect.any(AbortSignal), date: expect.any(Date) };
+  // Services log through the no-op logger unless a test passes its own
+  const createEmailService = (config: EmailServiceConfig, getCurrentTime?: () => number) =>
+    new EmailService({ logger: noopLogger, ...config }, getCurrentTime);
+  const send = (options?: SendOptions, metadata?: Record<string, unknown>) => emailService.sendEmail(
+    testMessage.to,
+    testMessage.from,
+    testMessage.subject,
+    testMessage.body,
+    metadata,
+    options
+  );
+  // Moves the service clock and the fake timers forward together
+  const advance = async (ms: number) => {
+    currentTime += ms;
+    await jest.advanceTimersByTimeAsync(ms);
+  };
+  // Makes a provider report every message it is given as sent
+  const deliverAll = (provider: jest.Mocked<EmailProvider>) =>
+    provider.send.mockImplementation(async (message: EmailMessage) => ({
+      messageId: message.id,
+      status: EMAIL_STATUS.SENT,
+      provider: provider.name,
+      attempts: 1,
+      lastAttempt: new Date(currentTime),
+    }));
 
   beforeEach(() => {
     jest.useFakeTimers();
@@ -59,7 +116,7 @@ describe('EmailService', () => {
     jest.useRealTimers();
   
     if (emailService) {
-      emailService.clearSentMessageIds();
+      emailService.clearIdempotencyKeys();
       emailService.clearQueue();
       emailService.resetCircuitBreakers();
     }
@@ -79,7 +136,7 @@ describe('EmailService', () => {
 
   describe('sendEmail', () => {
     beforeEach(() => {
-      emailService = new EmailService({
+      emailService = createEmailService({
         providers: [mockProvider1, mockProvider2],
         retryConfig: {
           maxAttempts: 2,
@@ -113,31 +170,38 @@ describe('EmailService', () => {
 
       const result = await promise;
       expect(result).toEqual(successStatus);
-      expect(mockProvider1.send).toHaveBeenCalledWith(testMessage);
+      expect(mockProvider1.send).toHaveBeenCalledWith(sentMessage, sendOptions);
       expect(mockProvider2.send).not.toHaveBeenCalled();
     });
 
+    it('should date the message from the service clock', async () => {
+      deliverAll(mockProvider1);
+      currentTime = Date.UTC(2026, 9, 19, 9, 30);
+
+      await send();
+
+      expect(mockProvider1.send).toHaveBeenCalledWith(sentMessage, expect.objectContaining({ date: new Date(currentTime) }));
+    });
+
     it('should throw error if all providers fail', async () => {
       const error = new EmailError('Provider failed', ERROR_CODES.PROVIDER_ERROR);
       mockProvider1.send.mockRejectedValue(error);
       mockProvider2.send.mockRejectedValue(error);
+      jest.useRealTimers();
 
       const promise = emailService.sendEmail(
         testMessage.to,
         testMessage.from,
+        testMessage.subject,
         testMessage.body
       );
-      
-      // Fast-forward timers to process retries
-      jest.advanceTimersByTime(100);
-      await Promise.resolve();
 
       await expect(promise).rejects.toThrow(EmailError);
       expect(mockProvider1.send).toHaveBeenCalled();
       expect(mockProvider2.send).toHaveBeenCalled();
     });
 
-    it('should prevent duplicate message IDs', async () => {
+    it('should return the original status for a repeated idempotency key', async () => {
       const successStatus: EmailStatus = {
         messageId: testMessage.id,
         status: EMAIL_STATUS.SENT,
@@ -146,42 +210,108 @@ describe('EmailService', () => {
         lastAttempt: new Date(currentTime),
       };
       mockProvider1.send.mockResolvedValue(successStatus);
+      jest.useRealTimers();
 
-      // First send should succeed
-      const promise1 = emailService.sendEmail(
+      const result1 = await emailService.sendEmail(
         testMessage.to,
         testMessage.from,
         testMessage.subject,
-        testMessage.body
+        testMessage.body,
+        undefined,
+        { idempotencyKey: 'order-42' }
       );
-
-      // Fast-forward timers to process the queue
-      jest.advanceTimersByTime(100);
-      await Promise.resolve();
-
-      const result1 = await promise1;
-      expect(result1).toEqual(successStatus);
-
-      // Second send with same ID should fail
-      const promise2 = emailService.sendEmail(
+      const result2 = await emailService.sendEmail(
         testMessage.to,
         testMessage.from,
         testMessage.subject,
-        testMessage.body
+        testMessage.body,
+        undefined,
+        { idempotencyKey: 'order-42' }
       );
 
-      // Fast-forward timers to process the queue
-      jest.advanceTimersByTime(100);
-      await Promise.resolve();
+      expect(result1).toEqual(successStatus);
+      expect(result2).toEqual(result1);
+      expect(mockProvider1.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should join an in-flight send with the same idempotency key', async () => {
+      const successStatus: EmailStatus = {
+        messageId: testMessage.id,
+        status: EMAIL_STATUS.SENT,
+        provider: mockProvider1.name,
+        attempts: 1,
+        lastAttempt: new Date(currentTime),
+      };
+      mockProvider1.send.mockResolvedValue(successStatus);
+      jest.useRealTimers();
+
+      const options = { idempotencyKey: 'order-42' };
+      const [result1, result2] = await Promise.all([send(options), send(options)]);
+
+      expect(result2).toBe(result1);
+      expect(mockProvider1.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send again once the idempotency key has expired', async () => {
+      emailService = createEmailService({
+        providers: [mockProvider1],
+        idempotencyTtl: 1000,
+      }, mockGetCurrentTime);
+      deliverAll(mockProvider1);
+      jest.useRealTimers();
+
+      const options = { idempotencyKey: 'order-42' };
+      await send(options);
+      currentTime += 999;
+      await send(options);
+      expect(mockProvider1.send).toHaveBeenCalledTimes(1);
+
+      currentTime += 1;
+      await send(options);
+      expect(mockProvider1.send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should still clear keys through the deprecated clearSentMessageIds', async () => {
+      deliverAll(mockProvider1);
+      jest.useRealTimers();
+      const options = { idempotencyKey: 'order-42' };
+
+      await send(options);
+      await emailService.clearSentMessageIds();
+      await send(options);
 
-      await expect(promise2).rejects.toThrow('Duplicate message ID detected');
+      expect(mockProvider1.send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not remember an idempotency key whose send failed', async () => {
+      emailService = createEmailService({
+        providers: [mockProvider1],
+        retryConfig: { maxAttempts: 1, initialDelay: 1 },
+      }, mockGetCurrentTime);
+      const error = new EmailError('Provider failed', ERROR_CODES.PROVIDER_ERROR);
+      mockProvider1.send.mockRejectedValue(error);
+      jest.useRealTimers();
+
+      const options = { idempotencyKey: 'order-42' };
+      await expect(send(options)).rejects.toThrow(EmailError);
+      const callsAfterFirstSend = mockProvider1.send.mock.calls.length;
+
+      await expect(send(options)).rejects.toThrow(EmailError);
+      expect(mockProvider1.send.mock.calls.length).toBeGreaterThan(callsAfterFirstSend);
     });
   });
 
   describe('circuit breaker', () => {
     beforeEach(() => {
-      emailService = new EmailService({
+      jest.useRealTimers();
+      emailService = createEmailService({
         providers: [mockProvider1],
+        retryConfig: {
+          maxAttempts: 2,
+          initialDelay: 1,
+          maxDelay: 1,
+          backoffFactor: 1,
+        },
         circuitBreakerConfig: {
           failureThreshold: 2,
           resetTimeout: 1000,
@@ -201,14 +331,10 @@ describe('EmailService', () => {
         testMessage.body
       );
 
-      // Fast-forward timers to process retries
-      jest.advanceTimersByTime(100);
-      await Promise.resolve();
-
       await expect(promise1).rejects.toThrow();
 
-      // Clear sent message IDs to allow retry
-      emailService.clearSentMessageIds();
+      // Clear idempotency keys between sends
+      emailService.clearIdempotencyKeys();
 
       // Second attempt should fail
       const promise2 = emailService.sendEmail(
@@ -218,14 +344,10 @@ describe('EmailService', () => {
         testMessage.body
       );
 
-      // Fast-forward timers to process retries
-      jest.advanceTimersByTime(100);
-      await Promise.resolve();
-
       await expect(promise2).rejects.toThrow();
 
-      // Clear sent message IDs to allow retry
-      emailService.clearSentMessageIds();
+      // Clear idempotency keys between sends
+      emailService.clearIdempotencyKeys();
 
       // Third attempt should fail with circuit breaker error
       const promise3 = emailService.sendEmail(
@@ -235,15 +357,12 @@ describe('EmailService', () => {
         testMessage.body
       );
 
-      // Fast-forward timers to process retries
-      jest.advanceTimersByTime(100);
-      await Promise.resolve();
-
-      await expect(promise3).rejects.toThrow(/CIRCUIT_OPEN/);
+      await expect(promise3).rejects.toThrow(/Circuit breaker for provider MockProvider1 is open/);
 
       // Verify circuit breaker state
       const status = await emailService.getProviderStatus();
-      expect(status[mockProvider1.name]).toBe(CIRCUIT_STATE.OPEN);
+      expect(status[mockProvider1.name].circuitState).toBe(CIRCUIT_STATE.OPEN);
+      expect(await emailService.getCircuitStates()).toEqual({ [mockProvider1.name]: CIRCUIT_STATE.OPEN });
     });
 
     it('should reset circuit after timeout', async () => {
@@ -258,14 +377,10 @@ describe('EmailService', () => {
         testMessage.body
       );
 
-      // Fast-forward timers to process retries
-      jest.advanceTimersByTime(100);
-      await Promise.resolve();
-
       await expect(promise1).rejects.toThrow();
 
-      // Clear sent message IDs to allow retry
-      emailService.clearSentMessageIds();
+      // Clear idempotency keys between sends
+      emailService.clearIdempotencyKeys();
 
       const promise2 = emailService.sendEmail(
         testMessage.to,
@@ -274,14 +389,10 @@ describe('EmailService', () => {
         testMessage.body
       );
 
-      // Fast-forward timers to process retries
-      jest.advanceTimersByTime(100);
-      await Promise.resolve();
-
       await expect(promise2).rejects.toThrow();
 
-      // Clear sent message IDs to allow retry
-      emailService.clearSentMessageIds();
+      // Clear idempotency keys between sends
+      emailService.clearIdempotencyKeys();
 
       const promise3 = emailService.sendEmail(
         testMessage.to,
@@ -290,19 +401,13 @@ describe('EmailService', () => {
         testMessage.body
       );
 
-      // Fast-forward timers to process retries
-      jest.advanceTimersByTime(100);
-      await Promise.resolve();
-
-      await expect(promise3).rejects.toThrow(/CIRCUIT_OPEN/);
+      await expect(promise3).rejects.toThrow(/Circuit breaker for provider MockProvider1 is open/);
 
       // Advance time past circuit breaker timeout
       currentTime += 1500;
-      jest.advanceTimersByTime(1500);
-      await Promise.resolve();
 
-      // Clear sent message IDs to allow retry
-      emailService.clearSentMessageIds();
+      // Clear idempotency keys between sends
+      emailService.clearIdempotencyKeys();
 
       // Should try again after timeout
       const successStatus: EmailStatus = {
@@ -321,18 +426,21 @@ describe('EmailService', () => {
         testMessage.body
       );
 
-      // Fast-forward timers to process the queue
-      jest.advanceTimersByTime(100);
-      await Promise.resolve();
-
       await expect(promise4).resolves.toEqual(successStatus);
     });
   });
 
   describe('rate limiting', () => {
     beforeEach(() => {
-      emailService = new EmailService({
+      jest.useRealTimers();
+      emailService = createEmailService({
         providers: [mockProvider1],
+        retryConfig: {
+          maxAttempts: 2,
+          initialDelay: 1,
+          maxDelay: 1,
+          backoffFactor: 1,
+        },
         rateLimiterConfig: {
           maxRequests: 2,
           timeWindow: 1000,
@@ -358,14 +466,10 @@ describe('EmailService', () => {
         testMessage.body
       );
 
-      // Fast-forward timers to process the queue
-      jest.advanceTimersByTime(100);
-      await Promise.resolve();
-
       await expect(promise1).resolves.toEqual(successStatus);
 
-      // Clear sent message IDs to allow retry
-      emailService.clearSentMessageIds();
+      // Clear idempotency keys between sends
+      emailService.clearIdempotencyKeys();
 
       // Second request should succeed
       const promise2 = emailService.sendEmail(
@@ -375,14 +479,10 @@ describe('EmailService', () => {
         testMessage.body
       );
 
-      // Fast-forward timers to process the queue
-      jest.advanceTimersByTime(100);
-      await Promise.resolve();
-
       await expect(promise2).resolves.toEqual(successStatus);
 
-      // Clear sent message IDs to allow retry
-      emailService.clearSentMessageIds();
+      // Clear idempotency keys between sends
+      emailService.clearIdempotencyKeys();
 
       // Third request should be rate limited
       const promise3 = emailService.sendEmail(
@@ -392,19 +492,13 @@ describe('EmailService', () => {
         testMessage.body
       );
 
-      // Fast-forward timers to process the queue
-      jest.advanceTimersByTime(100);
-      await Promise.resolve();
-
-      await expect(promise3).rejects.toThrow(/RATE_LIMIT/);
+      await expect(promise3).rejects.toMatchObject({ code: ERROR_CODES.RATE_LIMIT });
 
       // Advance time past rate limit window
       currentTime += 1500;
-      jest.advanceTimersByTime(1500);
-      await Promise.resolve();
 
-      // Clear sent message IDs to allow retry
-      emailService.clearSentMessageIds();
+      // Clear idempotency keys between sends
+      emailService.clearIdempotencyKeys();
 
       // Should succeed again
       const promise4 = emailService.sendEmail(
@@ -414,18 +508,21 @@ describe('EmailService', () => {
         testMessage.body
       );
 
-      // Fast-forward timers to process the queue
-      jest.advanceTimersByTime(100);
-      await Promise.resolve();
-
-      await expect(promise4).resolves.toEqual(successStatus);
+      await expect(promise4).resolves.toEqual({ ...successStatus, lastAttempt: new Date(currentTime) });
     });
   });
 
   describe('metrics', () => {
     beforeEach(() => {
-      emailService = new EmailService({
+      jest.useRealTimers();
+      emailService = createEmailService({
         providers: [mockProvider1],
+        retryConfig: {
+          maxAttempts: 1,
+          initialDelay: 1,
+          maxDelay: 1,
+          backoffFactor: 1,
+        },
       }, mockGetCurrentTime);
     });
 
@@ -439,10 +536,11 @@ describe('EmailService', () => {
       };
       const error = new EmailError('Provider failed', ERROR_CODES.PROVIDER_ERROR);
 
-      // Mock alternating success and failure
+      // Mock alternating success and failure; the queue gives the failed message a second attempt
       mockProvider1.send
         .mockResolvedValueOnce(successStatus)
         .mockRejectedValueOnce(error)
+        .mockRejectedValueOnce(error)
         .mockResolvedValueOnce(successStatus);
 
       // Send three emails
@@ -453,14 +551,10 @@ describe('EmailService', () => {
         testMessage.body
       );
 
-      // Fast-forward timers to process the queue
-      jest.advanceTimersByTime(100);
-      await Promise.resolve();
-
       await expect(promise1).resolves.toEqual(successStatus);
 
-      // Clear sent message IDs to allow retry
-      emailService.clearSentMessageIds();
+      // Clear idempotency keys between sends
+      emailService.clearIdempotencyKeys();
 
       const promise2 = emailService.sendEmail(
         testMessage.to,
@@ -469,14 +563,10 @@ describe('EmailService', () => {
         testMessage.body
       );
 
-      // Fast-forward timers to process the queue
-      jest.advanceTimersByTime(100);
-      await Promise.resolve();
-
       await expect(promise2).rejects.toThrow();
 
-      // Clear sent message IDs to allow retry
-      emailService.clearSentMessageIds();
+      // Clear idempotency keys between sends
+      emailService.clearIdempotencyKeys();
 
       const promise3 = emailService.sendEmail(
         testMessage.to,
@@ -485,10 +575,6 @@ describe('EmailService', () => {
         testMessage.body
       );
 
-      // Fast-forward timers to process the queue
-      jest.advanceTimersByTime(100);
-      await Promise.resolve();
-
       await expect(promise3).resolves.toEqual(successStatus);
 
       const metrics = emailService.getMetrics();
@@ -499,4 +585,1748 @@ describe('EmailService', () => {
       expect(successCount + failureCount).toBe(3);
     });
   });
+
+  describe('queue recovery', () => {
+    const sentStatus = (messageId: string): EmailStatus => ({
+      messageId,
+      status: EMAIL_STATUS.SENT,
+      provider: mockProvider1.name,
+      attempts: 1,
+      lastAttempt: new Date(currentTime),
+    });
+
+    beforeEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should resume delivering messages left in the queue store', async () => {
+      const store = new InMemoryQueueStore();
+      await store.add({ message: { ...sentMessage, id: 'recovered-1' }, attempts: 0, enqueuedAt: 0 });
+      mockProvider1.send.mockImplementation(async (message: EmailMessage) => sentStatus(message.id));
+
+      emailService = createEmailService({
+        providers: [mockProvider1],
+        queueStore: store,
+      }, mockGetCurrentTime);
+
+      await expect(emailService.whenRecovered()).resolves.toBe(1);
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(mockProvider1.send).toHaveBeenCalledTimes(1);
+      expect(mockProvider1.send).toHaveBeenCalledWith(expect.objectContaining({ id: 'recovered-1' }), sendOptions);
+      expect(await store.load()).toEqual([]);
+      expect(emailService.getMetrics().get(METRICS.SUCCESS_COUNTER)).toBe(1);
+    });
+
+    it('should deliver recovered messages before new ones, exactly once', async () => {
+      const store = new InMemoryQueueStore();
+      await store.add({ message: { ...sentMessage, id: 'recovered-1' }, attempts: 0, enqueuedAt: 0 });
+      mockProvider1.send.mockImplementation(async (message: EmailMessage) => sentStatus(message.id));
+
+      emailService = createEmailService({
+        providers: [mockProvider1],
+        queueStore: store,
+      }, mockGetCurrentTime);
+
+      await emailService.sendEmail(
+        testMessage.to,
+        testMessage.from,
+        testMessage.subject,
+        testMessage.body
+      );
+
+      const sentIds = mockProvider1.send.mock.calls.map(([message]) => message.id);
+      expect(sentIds).toEqual(['recovered-1', 'test-123']);
+    });
+  });
+
+  describe('sendBatch', () => {
+    let nextId: number;
+
+    beforeEach(() => {
+      jest.useRealTimers();
+      nextId = 0;
+      (uuidv4 as jest.Mock).mockImplementation(() => `batch-${nextId++}`);
+      emailService = createEmailService({
+        providers: [mockProvider1],
+        retryConfig: { maxAttempts: 1, initialDelay: 1 },
+        rateLimiterConfig: { maxRequests: 100 },
+      }, mockGetCurrentTime);
+      mockProvider1.send.mockImplementation(async (message: EmailMessage) => {
+        if (message.to[0].address.startsWith('bounce')) {
+          throw new EmailError('Mailbox unavailable', ERROR_CODES.PROVIDER_ERROR);
+        }
+        return {
+          messageId: message.id,
+          status: EMAIL_STATUS.SENT,
+          provider: mockProvider1.name,
+          attempts: 1,
+          lastAttempt: new Date(currentTime),
+        };
+      });
+    });
+
+    const request = (to: string) => ({
+      to,
+      from: testMessage.from,
+      subject: testMessage.subject,
+      body: testMessage.body,
+    });
+
+    it('should return a result per message in input order', async () => {
+      const results = await emailService.sendBatch([
+        request('a@example.com'),
+        request('not-an-address'),
+        request('bounce@example.com'),
+        request('b@example.com'),
+      ]);
+
+      expect(results).toHaveLength(4);
+      expect(results[0]).toMatchObject({ status: EMAIL_STATUS.SENT });
+      expect(results[1]).toBeInstanceOf(EmailError);
+      expect((results[1] as EmailError).code).toBe(ERROR_CODES.INVALID_CONFIG);
+      expect(results[2]).toBeInstanceOf(EmailError);
+      expect(results[3]).toMatchObject({ status: EMAIL_STATUS.SENT });
+    });
+
+    it('should not send anything for entries that fail validation', async () => {
+      await emailService.sendBatch([request('not-an-address'), request('a@example.com')]);
+
+      expect(mockProvider1.send).toHaveBeenCalledTimes(1);
+      expect(mockProvider1.send).toHaveBeenCalledWith(expect.objectContaining({ to: [{ address: 'a@example.com' }] }), sendOptions);
+    });
+
+    it('should keep at most `concurrency` messages of the batch in flight', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const queueLengths: number[] = [];
+      mockProvider1.send.mockImplementation(async (message: EmailMessage) => {
+        queueLengths.push(emailService.getQueueLength());
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setImmediate(resolve));
+        inFlight--;
+        return {
+          messageId: message.id,
+          status: EMAIL_STATUS.SENT,
+          provider: mockProvider1.name,
+          attempts: 1,
+          lastAttempt: new Date(currentTime),
+        };
+      });
+
+      const requests = Array.from({ length: 10 }, (_, n) => request(`user${n}@example.com`));
+      await emailService.sendBatch(requests, { concurrency: 3 });
+
+      expect(mockProvider1.send).toHaveBeenCalledTimes(10);
+      expect(Math.max(...queueLengths)).toBeLessThanOrEqual(3);
+    });
+
+    it('should report progress after every message', async () => {
+      const onProgress = jest.fn();
+
+      await emailService.sendBatch(
+        [request('a@example.com'), request('bounce@example.com'), request('nope')],
+        { onProgress }
+      );
+
+      expect(onProgress).toHaveBeenCalledTimes(3);
+      expect(onProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ completed: 3, sent: 1, failed: 2, total: 3 })
+      );
+    });
+
+    it('should record a batch summary in the metrics', async () => {
+      await emailService.sendBatch([request('a@example.com'), request('bounce@example.com')]);
+      mockProvider1.send.mockImplementationOnce(async (message: EmailMessage) => {
+        currentTime += 250;
+        return {
+          messageId: message.id,
+          status: EMAIL_STATUS.SENT,
+          provider: mockProvider1.name,
+          attempts: 1,
+          lastAttempt: new Date(currentTime),
+        };
+      });
+      await emailService.sendBatch([request('b@example.com')]);
+
+      const metrics = emailService.getMetrics();
+      expect(metrics.get(METRICS.BATCH_LAST_DURATION_GAUGE)).toBe(250);
+      expect(metrics.get(METRICS.BATCH_COUNTER)).toBe(2);
+      expect(metrics.get(METRICS.BATCH_MESSAGE_SUCCESS_COUNTER)).toBe(2);
+      expect(metrics.get(METRICS.BATCH_MESSAGE_FAILURE_COUNTER)).toBe(1);
+      expect(metrics.get(METRICS.BATCH_LAST_SIZE_GAUGE)).toBe(1);
+    });
+
+    it('should reject an invalid concurrency', async () => {
+      await expect(
+        emailService.sendBatch([request('a@example.com')], { concurrency: 0 })
+      ).rejects.toThrow('Batch concurrency must be at least 1');
+      await expect(
+        emailService.sendBatch([request('a@example.com')], { concurrency: NaN })
+      ).rejects.toThrow('Batch concurrency must be at least 1');
+    });
+  });
+
+  describe('scheduled delivery', () => {
+    const successStatus = (message: EmailMessage): EmailStatus => ({
+      messageId: message.id,
+      status: EMAIL_STATUS.SENT,
+      provider: mockProvider1.name,
+      attempts: 1,
+      lastAttempt: new Date(currentTime),
+    });
+    const schedule = (options: SendOptions) => emailService.sendEmail(
+      testMessage.to,
+      testMessage.from,
+      testMessage.subject,
+      testMessage.body,
+      undefined,
+      options
+    );
+
+    beforeEach(() => {
+      emailService = createEmailService({ providers: [mockProvider1] }, mockGetCurrentTime);
+      mockProvider1.send.mockImplementation(async (message: EmailMessage) => successStatus(message));
+    });
+
+    it('should send at the requested time', async () => {
+      const delivery = schedule({ sendAt: new Date(currentTime + 60000), messageId: 'digest-1' });
+      await advance(0);
+
+      expect(emailService.listScheduled()).toEqual([
+        { message: expect.objectContaining({ id: 'digest-1' }), sendAt: new Date(currentTime + 60000) },
+      ]);
+      await advance(59999);
+      expect(mockProvider1.send).not.toHaveBeenCalled();
+
+      await advance(1);
+      await expect(delivery).resolves.toMatchObject({ messageId: 'digest-1' });
+      expect(emailService.listScheduled()).toEqual([]);
+    });
+
+    it('should send after the requested delay', async () => {
+      const delivery = schedule({ delay: 5000 });
+      await advance(4999);
+      expect(mockProvider1.send).not.toHaveBeenCalled();
+
+      await advance(1);
+      await expect(delivery).resolves.toMatchObject({ status: EMAIL_STATUS.SENT });
+    });
+
+    it('should reschedule a message before it goes out', async () => {
+      const delivery = schedule({ delay: 60000, messageId: 'digest-1' });
+      await advance(0);
+
+      await emailService.reschedule('digest-1', currentTime + 1000);
+      await advance(1000);
+
+      await expect(delivery).resolves.toMatchObject({ messageId: 'digest-1' });
+    });
+
+    it('should cancel a scheduled message', async () => {
+      const delivery = schedule({ delay: 60000, messageId: 'digest-1' });
+      await advance(0);
+
+      await emailService.cancelScheduled('digest-1');
+
+      await expect(delivery).rejects.toMatchObject({ code: ERROR_CODES.MESSAGE_CANCELLED });
+      await advance(60000);
+      expect(mockProvider1.send).not.toHaveBeenCalled();
+      expect(emailService.getMetrics().get(METRICS.FAILURE_COUNTER)).toBe(0);
+    });
+
+    it('should report unknown messages as MESSAGE_NOT_FOUND', async () => {
+      await expect(emailService.cancelScheduled('missing')).rejects.toMatchObject({
+        code: ERROR_CODES.MESSAGE_NOT_FOUND,
+      });
+      await expect(emailService.reschedule('missing', currentTime)).rejects.toMatchObject({
+        code: ERROR_CODES.MESSAGE_NOT_FOUND,
+      });
+    });
+
+    it('should reject conflicting or invalid schedule options', async () => {
+      await expect(schedule({ delay: 1000, sendAt: currentTime })).rejects.toMatchObject({
+        code: ERROR_CODES.INVALID_CONFIG,
+      });
+      await expect(schedule({ delay: -1 })).rejects.toMatchObject({
+        code: ERROR_CODES.INVALID_CONFIG,
+      });
+    });
+
+    it('should reject a caller-chosen id that is already queued', async () => {
+      const first = schedule({ delay: 60000, messageId: 'digest-1' });
+      await advance(0);
+
+      await expect(schedule({ delay: 60000, messageId: 'digest-1' })).rejects.toMatchObject({
+        code: ERROR_CODES.DUPLICATE_MESSAGE,
+      });
+      await emailService.cancelScheduled('digest-1');
+      await expect(first).rejects.toThrow();
+    });
+  });
+
+  describe('priority', () => {
+    beforeEach(() => {
+      jest.useRealTimers();
+      emailService = createEmailService({ providers: [mockProvider1] }, mockGetCurrentTime);
+      deliverAll(mockProvider1);
+    });
+
+
+    it('should set the priority from the send options', async () => {
+      await send({ priority: 'high' });
+
+      expect(mockProvider1.send).toHaveBeenCalledWith(expect.objectContaining({ priority: 'high' }), sendOptions);
+    });
+
+    it('should fall back to metadata.priority', async () => {
+      await send(undefined, { priority: 'low' });
+
+      expect(mockProvider1.send).toHaveBeenCalledWith(expect.objectContaining({ priority: 'low' }), sendOptions);
+    });
+
+    it('should reject an unknown priority', async () => {
+      await expect(send({ priority: 'urgent' as EmailPriority })).rejects.toMatchObject({
+        code: ERROR_CODES.INVALID_CONFIG,
+      });
+    });
+
+    it('should reject non-positive lane weights', () => {
+      expect(() => createEmailService({
+        providers: [mockProvider1],
+        queueConfig: { priorityWeights: { low: 0 } },
+      })).toThrow('Priority weight for low must be a positive number');
+    });
+
+    it('should expose queue depth per lane in the metrics', async () => {
+      const delivery = send({ priority: 'high', delay: 60000, messageId: 'later' });
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(emailService.getQueueDepthByLane()).toEqual({ high: 1, normal: 0, low: 0 });
+      expect(emailService.getMetrics().get(`${METRICS.QUEUE_LANE_SIZE_GAUGE}{lane="high"}`)).toBe(1);
+
+      await emailService.cancelScheduled('later');
+      await expect(delivery).rejects.toThrow();
+    });
+  });
+
+  describe('concurrent workers', () => {
+    let releases: (() => void)[];
+
+    beforeEach(() => {
+      jest.useRealTimers();
+      releases = [];
+      emailService = createEmailService({
+        providers: [mockProvider1],
+        queueConfig: { concurrency: 2 },
+      }, mockGetCurrentTime);
+      mockProvider1.send.mockImplementation((message: EmailMessage) => new Promise(resolve => {
+        releases.push(() => resolve({
+          messageId: message.id,
+          status: EMAIL_STATUS.SENT,
+          provider: mockProvider1.name,
+          attempts: 1,
+          lastAttempt: new Date(currentTime),
+        }));
+      }));
+    });
+
+
+    it('should hand several messages to providers at once', async () => {
+      const deliveries = [send(), send(), send()];
+      await new Promise(resolve => setImmediate(resolve));
+      expect(mockProvider1.send).toHaveBeenCalledTimes(2);
+
+      const drained = emailService.drain();
+      while (releases.length > 0) {
+        releases.shift()!();
+        await new Promise(resolve => setImmediate(resolve));
+      }
+      await drained;
+      await Promise.all(deliveries);
+      expect(mockProvider1.send).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reject waiting messages with QUEUE_CLEARED', async () => {
+      const deliveries = [send(), send(), send()];
+      await new Promise(resolve => setImmediate(resolve));
+
+      emailService.clearQueue();
+      await expect(deliveries[2]).rejects.toMatchObject({ code: ERROR_CODES.QUEUE_CLEARED });
+      expect(emailService.getQueueLength()).toBe(2);
+
+      releases.forEach(release => release());
+      await expect(Promise.all(deliveries.slice(0, 2))).resolves.toHaveLength(2);
+    });
+
+    it('should reject an invalid concurrency', () => {
+      expect(() => createEmailService({
+        providers: [mockProvider1],
+        queueConfig: { concurrency: 0 },
+      })).toThrow('Queue concurrency must be a positive integer');
+    });
+  });
+
+  describe('queue capacity', () => {
+    let releases: (() => void)[];
+
+    const createService = (queueConfig: EmailServiceConfig['queueConfig']) => {
+      emailService = createEmailService({ providers: [mockProvider1], queueConfig }, mockGetCurrentTime);
+    };
+
+    beforeEach(() => {
+      jest.useRealTimers();
+      releases = [];
+      mockProvider1.send.mockImplementation((message: EmailMessage) => new Promise(resolve => {
+        releases.push(() => resolve({
+          messageId: message.id,
+          status: EMAIL_STATUS.SENT,
+          provider: mockProvider1.name,
+          attempts: 1,
+          lastAttempt: new Date(currentTime),
+        }));
+      }));
+    });
+
+
+    const releaseAll = async () => {
+      while (releases.length > 0 || emailService.getQueueLength() > 0) {
+        releases.splice(0).forEach(release => release());
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    };
+
+    it('should reject sends with QUEUE_FULL once the queue is full', async () => {
+      createService({ maxSize: 1 });
+
+      const accepted = send();
+      await expect(send()).rejects.toMatchObject({ code: ERROR_CODES.QUEUE_FULL });
+      expect(emailService.getMetrics().get(METRICS.QUEUE_REJECTED_COUNTER)).toBe(1);
+
+      await new Promise(resolve => setImmediate(resolve));
+      await releaseAll();
+      await expect(accepted).resolves.toMatchObject({ status: EMAIL_STATUS.SENT });
+    });
+
+    it('should fail shed messages with MESSAGE_SHED', async () => {
+      createService({ maxSize: 2, overflowPolicy: 'shed-lowest-priority' });
+
+      const deliveries = [send(), send({ priority: 'low' })];
+      await new Promise(resolve => setImmediate(resolve));
+      deliveries.push(send({ priority: 'high' }));
+
+      await expect(deliveries[1]).rejects.toMatchObject({ code: ERROR_CODES.MESSAGE_SHED });
+      expect(emailService.getMetrics().get(METRICS.QUEUE_SHED_COUNTER)).toBe(1);
+      await releaseAll();
+      await Promise.all([deliveries[0], deliveries[2]]);
+    });
+
+    it('should report the queue high-water mark', async () => {
+      createService({ concurrency: 2 });
+
+      const deliveries = [send(), send(), send()];
+      await new Promise(resolve => setImmediate(resolve));
+      await releaseAll();
+      await Promise.all(deliveries);
+
+      expect(emailService.getQueueLength()).toBe(0);
+      expect(emailService.getMetrics().get(METRICS.QUEUE_HIGH_WATER_MARK_GAUGE)).toBe(3);
+      emailService.resetQueueHighWaterMark();
+      expect(emailService.getMetrics().get(METRICS.QUEUE_HIGH_WATER_MARK_GAUGE)).toBe(0);
+    });
+
+    it('should reject invalid capacity settings', () => {
+      expect(() => createService({ maxSize: 0 })).toThrow('Queue max size must be a positive integer');
+      expect(() => createService({ overflowPolicy: 'drop' as QueueOverflowPolicy }))
+        .toThrow('Unknown overflow policy: drop');
+    });
+  });
+
+  describe('rate limit status and waiting', () => {
+    beforeEach(() => {
+      jest.useRealTimers();
+      deliverAll(mockProvider1);
+    });
+
+
+    it('should report usage, limit and time until the next slot', async () => {
+      emailService = createEmailService({
+        providers: [mockProvider1],
+        rateLimiterConfig: { maxRequests: 2, timeWindow: 1000 },
+      }, mockGetCurrentTime);
+
+      await send();
+      await send();
+      currentTime += 250;
+
+      expect(emailService.getCurrentRateLimit()).toEqual({
+        current: 2,
+        max: 2,
+        available: 0,
+        retryAfter: 750,
+        waiting: 0,
+      });
+    });
+
+    it('should delay sends over the limit instead of failing them in waiting mode', async () => {
+      emailService = createEmailService({
+        providers: [mockProvider1],
+        rateLimiterConfig: { maxRequests: 1, timeWindow: 50, wait: true, maxWait: 1000 },
+        queueConfig: { concurrency: 2 },
+      });
+
+      const startTime = Date.now();
+      await expect(Promise.all([send(), send()])).resolves.toHaveLength(2);
+      expect(Date.now() - startTime).toBeGreaterThanOrEqual(40);
+    });
+
+    it('should share limits between instances through a rate limiter store', async () => {
+      const rateLimiterStore = new InMemoryRateLimiterStore();
+      const instances = [0, 1].map(() => createEmailService({
+        providers: [mockProvider1],
+        rateLimiterConfig: { maxRequests: 1, timeWindow: 60000 },
+        rateLimiterStore,
+      }, mockGetCurrentTime));
+      emailService = instances[1];
+
+      await instances[0].sendEmail(testMessage.to, testMessage.from, testMessage.subject, testMessage.body);
+      await expect(
+        instances[1].sendEmail(testMessage.to, testMessage.from, testMessage.subject, testMessage.body)
+      ).rejects.toMatchObject({ code: ERROR_CODES.RATE_LIMIT });
+      expect(mockProvider1.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject an unknown rate limit strategy', () => {
+      expect(() => createEmailService({
+        providers: [mockProvider1],
+        rateLimiterConfig: { strategy: 'leaky' as RateLimitStrategy },
+      })).toThrow('Unknown rate limit strategy: leaky');
+    });
+  });
+
+  describe('provider quotas and domain throttling', () => {
+    const sentBy = (provider: { name: string }) => async (message: EmailMessage): Promise<EmailStatus> => ({
+      messageId: message.id,
+      status: EMAIL_STATUS.SENT,
+      provider: provider.name,
+      attempts: 1,
+      lastAttempt: new Date(currentTime),
+    });
+    const sendTo = (to: string) => emailService.sendEmail(
+      to,
+      testMessage.from,
+      testMessage.subject,
+      testMessage.body
+    );
+
+    beforeEach(() => {
+      let nextId = 0;
+      (uuidv4 as jest.Mock).mockImplementation(() => `message-${nextId++}`);
+      mockProvider1.send.mockImplementation(sentBy(mockProvider1));
+      mockProvider2.send.mockImplementation(sentBy(mockProvider2));
+    });
+
+    it('should fall through to the next provider when one is at its quota', async () => {
+      emailService = createEmailService({
+        providers: [mockProvider1, mockProvider2],
+        providerRateLimits: { MockProvider1: { maxRequests: 1, timeWindow: 60000 } },
+      }, mockGetCurrentTime);
+
+      const first = sendTo('a@example.com');
+      await advance(0);
+      const second = sendTo('b@example.com');
+      await advance(0);
+
+      await expect(first).resolves.toMatchObject({ provider: 'MockProvider1' });
+      await expect(second).resolves.toMatchObject({ provider: 'MockProvider2' });
+      expect(mockProvider1.send).toHaveBeenCalledTimes(1);
+      expect(emailService.getMetrics().get(
+        `${METRICS.PROVIDER_QUOTA_EXHAUSTED_COUNTER}{provider="MockProvider1"}`
+      )).toBe(1);
+    });
+
+    it('should defer messages to a throttled domain without counting a failure', async () => {
+      emailService = createEmailService({
+        providers: [mockProvider1],
+        domainRateLimits: { 'Gmail.com': { maxRequests: 1, timeWindow: 10000 } },
+      }, mockGetCurrentTime);
+
+      const first = sendTo('a@gmail.com');
+      const second = sendTo('b@GMAIL.com');
+      second.catch(() => undefined); // the assertions below await it last
+      const other = sendTo('c@example.com');
+      await advance(0);
+      await expect(first).resolves.toMatchObject({ status: EMAIL_STATUS.SENT });
+      await advance(1);
+      await expect(other).resolves.toMatchObject({ status: EMAIL_STATUS.SENT });
+      expect(mockProvider1.send).toHaveBeenCalledTimes(2);
+      expect(emailService.getMetrics().get(METRICS.DEFERRED_COUNTER)).toBe(1);
+      expect(emailService.getMetrics().get(METRICS.FAILURE_COUNTER)).toBe(0);
+
+      await advance(10000);
+      await expect(second).resolves.toMatchObject({ status: EMAIL_STATUS.SENT });
+      expect(mockProvider1.send).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give back the slots of other domains when one domain defers a message', async () => {
+      emailService = createEmailService({
+        providers: [mockProvider1],
+        domainRateLimits: {
+          'gmail.com': { maxRequests: 1, timeWindow: 10000 },
+          'yahoo.com': { maxRequests: 1, timeWindow: 10000 },
+        },
+      }, mockGetCurrentTime);
+
+      await sendTo('a@yahoo.com');
+      const mixed = emailService.sendMessage({
+        to: ['b@gmail.com', 'c@yahoo.com'],
+        from: testMessage.from,
+        subject: testMessage.subject,
+        body: testMessage.body,
+      });
+      mixed.catch(() => undefined); // the assertions below await it last
+      await advance(0);
+      await expect(sendTo('d@gmail.com')).resolves.toMatchObject({ status: EMAIL_STATUS.SENT });
+      expect(mockProvider1.send).toHaveBeenCalledTimes(2);
+      expect(emailService.getMetrics().get(METRICS.DEFERRED_COUNTER)).toBe(1);
+
+      // Both domains have room again once their windows pass
+      await advance(10000);
+      await expect(mixed).resolves.toMatchObject({ status: EMAIL_STATUS.SENT });
+    });
+
+    it('should give back the domain slot when the global rate limit turns the message away', async () => {
+      emailService = createEmailService({
+        providers: [mockProvider1],
+        retryConfig: { maxAttempts: 1, initialDelay: 1 },
+        rateLimiterConfig: { maxRequests: 1, timeWindow: 1000 },
+        domainRateLimits: { 'gmail.com': { maxRequests: 2, timeWindow: 10000 } },
+      }, mockGetCurrentTime);
+
+      jest.useRealTimers();
+
+      await sendTo('a@gmail.com');
+      await expect(sendTo('b@gmail.com')).rejects.toMatchObject({ code: ERROR_CODES.RATE_LIMIT });
+
+      currentTime += 1000;
+      await expect(sendTo('c@gmail.com')).resolves.toMatchObject({ status: EMAIL_STATUS.SENT });
+      expect(emailService.getMetrics().get(METRICS.DEFERRED_COUNTER) ?? 0).toBe(0);
+    });
+
+    it('should reject quotas for unknown providers', () => {
+      expect(() => createEmailService({
+        providers: [mockProvider1],
+        providerRateLimits: { Missing: { maxRequests: 1, timeWindow: 1000 } },
+      })).toThrow('Rate limit configured for unknown provider: Missing');
+    });
+  });
+
+  describe('circuit breaker configuration', () => {
+    beforeEach(() => {
+      jest.useRealTimers();
+      mockProvider1.send.mockRejectedValue(new Error('Provider down'));
+    });
+
+    it('should report state changes with the provider name', async () => {
+      const onStateChange = jest.fn();
+      emailService = createEmailService({
+        providers: [mockProvider1],
+        retryConfig: { maxAttempts: 1 },
+        circuitBreakerConfig: {
+          mode: 'rolling-window',
+          minimumVolume: 1,
+          failureRateThreshold: 100,
+          onStateChange,
+        },
+      }, mockGetCurrentTime);
+
+      await expect(emailService.sendEmail(
+        testMessage.to,
+        testMessage.from,
+        testMessage.subject,
+        testMessage.body
+      )).rejects.toMatchObject({ code: ERROR_CODES.ALL_PROVIDERS_FAILED });
+
+      expect(onStateChange).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'MockProvider1',
+        from: CIRCUIT_STATE.CLOSED,
+        to: CIRCUIT_STATE.OPEN,
+      }));
+      await expect(emailService.getProviderStatus()).resolves.toEqual({
+        MockProvider1: { circuitState: CIRCUIT_STATE.OPEN, healthy: true, lastCheck: undefined },
+      });
+    });
+
+    it('should send a second worker elsewhere while another holds the half-open probe', async () => {
+      emailService = createEmailService({
+        providers: [mockProvider1, mockProvider2],
+        retryConfig: { maxAttempts: 1 },
+        circuitBreakerConfig: { failureThreshold: 1, resetTimeout: 1000 },
+        providerRateLimits: { MockProvider1: { maxRequests: 3, timeWindow: 60000 } },
+        queueConfig: { concurrency: 2 },
+      }, mockGetCurrentTime);
+      deliverAll(mockProvider2);
+      mockProvider1.send.mockRejectedValueOnce(new Error('Provider down'));
+      await send({ messageId: 'tripped' });
+
+      currentTime += 1000;
+      let releaseProbe!: () => void;
+      mockProvider1.send.mockImplementationOnce((message: EmailMessage) => new Promise(resolve => {
+        releaseProbe = () => resolve({
+          messageId: message.id,
+          status: EMAIL_STATUS.SENT,
+          provider: mockProvider1.name,
+          attempts: 1,
+          lastAttempt: new Date(currentTime),
+        });
+      }));
+      const probe = send({ messageId: 'probe' });
+      const other = send({ messageId: 'other' });
+
+      await expect(other).resolves.toMatchObject({ provider: 'MockProvider2' });
+      releaseProbe();
+      await expect(probe).resolves.toMatchObject({ provider: 'MockProvider1' });
+      expect(emailService.getMetrics().get(
+        `${METRICS.PROVIDER_ERROR_COUNTER}{provider="MockProvider1",code="PROVIDER_ERROR"}`
+      )).toBe(1);
+
+      // The skipped worker's quota slot was given back, so one is left
+      deliverAll(mockProvider1);
+      await expect(send({ messageId: 'after' })).resolves.toMatchObject({ provider: 'MockProvider1' });
+    });
+
+    it('should reject invalid rolling-window settings', () => {
+      expect(() => createEmailService({
+        providers: [mockProvider1],
+        circuitBreakerConfig: { failureRateThreshold: 150 },
+      })).toThrow('Failure rate threshold must be a percentage above 0');
+      expect(() => createEmailService({
+        providers: [mockProvider1],
+        circuitBreakerConfig: { halfOpenMaxProbes: 0 },
+      })).toThrow('Circuit breaker halfOpenMaxProbes must be at least 1');
+    });
+  });
+
+  describe('health checks', () => {
+
+    beforeEach(() => {
+      deliverAll(mockProvider1);
+      deliverAll(mockProvider2);
+    });
+
+    // The first round of checks runs as soon as the service is created
+    const createService = () => {
+      emailService = createEmailService({
+        providers: [mockProvider1, mockProvider2],
+        healthCheck: { interval: 1000, unhealthyThreshold: 2, healthyThreshold: 2 },
+      }, mockGetCurrentTime);
+    };
+
+    afterEach(() => {
+      emailService?.stopHealthChecks();
+    });
+
+
+    it('should take a provider out of rotation after repeated failed checks', async () => {
+      mockProvider1.isAvailable.mockResolvedValue(false);
+      createService();
+      await advance(0);
+      // One failed check is not enough
+      expect((await emailService.getProviderStatus()).MockProvider1.healthy).toBe(true);
+
+      await advance(1000);
+      const status = await emailService.getProviderStatus();
+      expect(status.MockProvider1).toEqual({
+        circuitState: CIRCUIT_STATE.CLOSED,
+        healthy: false,
+        lastCheck: { at: 2000, ok: false, latency: 0, error: 'Provider reported itself unavailable' },
+      });
+      expect(emailService.getMetrics().get(`${METRICS.PROVIDER_STATUS_GAUGE}{provider="MockProvider1"}`)).toBe(0);
+
+      const delivery = send();
+      await advance(1);
+      await expect(delivery).resolves.toMatchObject({ provider: 'MockProvider2' });
+      expect(mockProvider1.send).not.toHaveBeenCalled();
+    });
+
+    it('should bring a provider back after enough passed checks', async () => {
+      mockProvider1.isAvailable.mockResolvedValue(false);
+      createService();
+      await advance(0);
+      await advance(1000);
+      mockProvider1.isAvailable.mockResolvedValue(true);
+
+      await advance(1000);
+      expect((await emailService.getProviderStatus()).MockProvider1.healthy).toBe(false);
+      await advance(1000);
+      expect((await emailService.getProviderStatus()).MockProvider1.healthy).toBe(true);
+    });
+
+    it('should still try unhealthy providers when none is healthy', async () => {
+      mockProvider1.isAvailable.mockRejectedValue(new Error('connection refused'));
+      mockProvider2.isAvailable.mockRejectedValue(new Error('connection refused'));
+      createService();
+      await emailService.checkProviderHealth();
+      const status = await emailService.checkProviderHealth();
+      expect(status.MockProvider2.lastCheck?.error).toBe('connection refused');
+
+      const delivery = send();
+      await advance(1);
+      await expect(delivery).resolves.toMatchObject({ provider: 'MockProvider1' });
+    });
+  });
+
+  describe('provider routing', () => {
+    const sentBy = (provider: { name: string }) => async (message: EmailMessage): Promise<EmailStatus> => ({
+      messageId: message.id,
+      status: EMAIL_STATUS.SENT,
+      provider: provider.name,
+      attempts: 1,
+      lastAttempt: new Date(currentTime),
+    });
+    const shareOf = (name: string) =>
+      emailService.getMetrics().get(`${METRICS.PROVIDER_TRAFFIC_SHARE_GAUGE}{provider="${name}"}`);
+
+    beforeEach(() => {
+      jest.useRealTimers();
+      let nextId = 0;
+      (uuidv4 as jest.Mock).mockImplementation(() => `message-${nextId++}`);
+      mockProvider1.send.mockImplementation(sentBy(mockProvider1));
+      mockProvider2.send.mockImplementation(sentBy(mockProvider2));
+    });
+
+    it('should send everything through the first provider by default', async () => {
+      emailService = createEmailService({ providers: [mockProvider1, mockProvider2] }, mockGetCurrentTime);
+
+      for (let i = 0; i < 3; i++) {
+        await send();
+      }
+
+      expect(mockProvider2.send).not.toHaveBeenCalled();
+      expect(shareOf('MockProvider1')).toBe(1);
+      expect(shareOf('MockProvider2')).toBe(0);
+    });
+
+    it('should split traffic by weight and report each provider\'s share', async () => {
+      emailService = createEmailService({
+        providers: [mockProvider1, mockProvider2],
+        routing: { strategy: 'weighted-round-robin', weights: { MockProvider1: 3, MockProvider2: 1 } },
+      }, mockGetCurrentTime);
+
+      for (let i = 0; i < 8; i++) {
+        await send();
+      }
+
+      expect(mockProvider1.send).toHaveBeenCalledTimes(6);
+      expect(mockProvider2.send).toHaveBeenCalledTimes(2);
+      expect(emailService.getMetrics().get(
+        `${METRICS.PROVIDER_SENT_COUNTER}{provider="MockProvider2"}`
+      )).toBe(2);
+      expect(shareOf('MockProvider1')).toBe(0.75);
+      expect(shareOf('MockProvider2')).toBe(0.25);
+    });
+
+    it('should still fail over when the preferred provider fails', async () => {
+      emailService = createEmailService({
+        providers: [mockProvider1, mockProvider2],
+        routing: { strategy: 'lowest-cost', costs: { MockProvider1: 0.002, MockProvider2: 0.001 } },
+      }, mockGetCurrentTime);
+      mockProvider2.send.mockRejectedValueOnce(new Error('Provider error'));
+
+      await expect(send()).resolves.toMatchObject({ provider: 'MockProvider1' });
+      await expect(send()).resolves.toMatchObject({ provider: 'MockProvider2' });
+    });
+
+    it('should route by the latency it observes', async () => {
+      mockProvider1.send.mockImplementation(async message => {
+        currentTime += 500;
+        return sentBy(mockProvider1)(message);
+      });
+      mockProvider2.send.mockImplementation(async message => {
+        currentTime += 50;
+        return sentBy(mockProvider2)(message);
+      });
+      emailService = createEmailService({
+        providers: [mockProvider1, mockProvider2],
+        routing: { strategy: 'least-latency' },
+      }, mockGetCurrentTime);
+
+      // The first two sends measure each provider once
+      await send();
+      await send();
+      await send();
+
+      expect(mockProvider1.send).toHaveBeenCalledTimes(1);
+      expect(mockProvider2.send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should pass the message to a custom selector and report results to it', async () => {
+      const selector = {
+        select: jest.fn((providers: EmailProvider[]) => [...providers].reverse()),
+        recordResult: jest.fn(),
+      };
+      emailService = createEmailService({
+        providers: [mockProvider1, mockProvider2],
+        routing: { selector },
+      }, mockGetCurrentTime);
+
+      await expect(send()).resolves.toMatchObject({ provider: 'MockProvider2' });
+      expect(selector.select).toHaveBeenCalledWith(
+        [mockProvider1, mockProvider2],
+        expect.objectContaining({ to: sentMessage.to })
+      );
+      expect(selector.recordResult).toHaveBeenCalledWith('MockProvider2', { ok: true, latency: 0 });
+    });
+
+    it('should reject invalid routing configuration', () => {
+      expect(() => createEmailService({
+        providers: [mockProvider1],
+        routing: { strategy: 'random' as any },
+      })).toThrow('Unknown routing strategy: random');
+      expect(() => createEmailService({
+        providers: [mockProvider1],
+        routing: { strategy: 'weighted-round-robin', weights: { MockProvider1: -1 } },
+      })).toThrow('Routing weight for MockProvider1 must not be negative');
+    });
+  });
+
+  describe('error classification', () => {
+    const sentBy = (provider: { name: string }) => async (message: EmailMessage): Promise<EmailStatus> => ({
+      messageId: message.id,
+      status: EMAIL_STATUS.SENT,
+      provider: provider.name,
+      attempts: 1,
+      lastAttempt: new Date(currentTime),
+    });
+
+    beforeEach(() => {
+      jest.useRealTimers();
+      let nextId = 0;
+      (uuidv4 as jest.Mock).mockImplementation(() => `message-${nextId++}`);
+      mockProvider2.send.mockImplementation(sentBy(mockProvider2));
+      emailService = createEmailService({
+        providers: [mockProvider1, mockProvider2],
+        retryConfig: { maxAttempts: 3, initialDelay: 1, maxDelay: 1, backoffFactor: 1 },
+        circuitBreakerConfig: { failureThreshold: 1, resetTimeout: 60000 },
+      }, mockGetCurrentTime);
+    });
+
+    it('should fail fast on a permanent error without failover, retries or tripping the breaker', async () => {
+      mockProvider1.send.mockRejectedValue(
+        new EmailError('550 No such user', ERROR_CODES.RECIPIENT_REJECTED)
+      );
+
+      await expect(send()).rejects.toMatchObject({
+        code: ERROR_CODES.RECIPIENT_REJECTED,
+        category: 'permanent',
+      });
+      expect(mockProvider1.send).toHaveBeenCalledTimes(1);
+      expect(mockProvider2.send).not.toHaveBeenCalled();
+      expect((await emailService.getProviderStatus()).MockProvider1.circuitState).toBe(CIRCUIT_STATE.CLOSED);
+      expect(emailService.getMetrics().get(METRICS.FAILURE_COUNTER)).toBe(1);
+    });
+
+    it('should move on from a rate-limited provider without counting it as a failure', async () => {
+      mockProvider1.send.mockRejectedValueOnce(
+        new EmailError('HTTP 429', ERROR_CODES.RATE_LIMIT_EXCEEDED)
+      );
+      mockProvider1.send.mockImplementation(sentBy(mockProvider1));
+
+      await expect(send()).resolves.toMatchObject({ provider: 'MockProvider2' });
+      expect((await emailService.getProviderStatus()).MockProvider1.circuitState).toBe(CIRCUIT_STATE.CLOSED);
+      await expect(send()).resolves.toMatchObject({ provider: 'MockProvider1' });
+    });
+
+    it('should stop trying a misconfigured provider for the rest of the message', async () => {
+      emailService = createEmailService({
+        providers: [mockProvider1, mockProvider2],
+        retryConfig: { maxAttempts: 3, initialDelay: 1, maxDelay: 1, backoffFactor: 1 },
+        circuitBreakerConfig: { failureThreshold: 100, resetTimeout: 60000 },
+      }, mockGetCurrentTime);
+      mockProvider1.send.mockRejectedValue(new EmailError('Bad credentials', ERROR_CODES.AUTH_FAILED));
+      mockProvider2.send.mockRejectedValue(new Error('Connection reset'));
+
+      await expect(send()).rejects.toMatchObject({ code: ERROR_CODES.ALL_PROVIDERS_FAILED });
+      // Each pass over the providers makes three attempts, but only the first reaches MockProvider1
+      const passes = mockProvider1.send.mock.calls.length;
+      expect(mockProvider2.send).toHaveBeenCalledTimes(passes * 3);
+    });
+
+    it('should not requeue a message every provider is misconfigured for', async () => {
+      mockProvider1.send.mockRejectedValue(new EmailError('Bad credentials', ERROR_CODES.AUTH_FAILED));
+      mockProvider2.send.mockRejectedValue(new EmailError('Bad API key', ERROR_CODES.AUTH_FAILED));
+
+      await expect(send()).rejects.toMatchObject({
+        code: ERROR_CODES.ALL_PROVIDERS_FAILED,
+        category: 'configuration',
+        retryable: false,
+      });
+      expect(mockProvider1.send).toHaveBeenCalledTimes(1);
+      expect(mockProvider2.send).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('send timeouts and deadlines', () => {
+    const sentBy = (provider: { name: string }) => async (message: EmailMessage): Promise<EmailStatus> => ({
+      messageId: message.id,
+      status: EMAIL_STATUS.SENT,
+      provider: provider.name,
+      attempts: 1,
+      lastAttempt: new Date(currentTime),
+    });
+    const hang = () => new Promise<EmailStatus>(() => undefined);
+
+    beforeEach(() => {
+      let nextId = 0;
+      (uuidv4 as jest.Mock).mockImplementation(() => `message-${nextId++}`);
+      mockProvider2.send.mockImplementation(sentBy(mockProvider2));
+    });
+
+    it('should abort a hung attempt after the send timeout and fail over', async () => {
+      emailService = createEmailService({
+        providers: [mockProvider1, mockProvider2],
+        sendTimeout: 200,
+        circuitBreakerConfig: { failureThreshold: 1, resetTimeout: 60000 },
+      }, mockGetCurrentTime);
+      mockProvider1.send.mockImplementation(hang);
+
+      const sending = send();
+      await advance(199);
+      expect(mockProvider2.send).not.toHaveBeenCalled();
+      await advance(1);
+
+      await expect(sending).resolves.toMatchObject({ provider: 'MockProvider2' });
+      const [, options] = mockProvider1.send.mock.calls[0] as unknown as [EmailMessage, { signal: AbortSignal }];
+      expect(options.signal.aborted).toBe(true);
+      // A timeout is a transient failure, so it counts against the circuit
+      expect((await emailService.getProviderStatus()).MockProvider1.circuitState).toBe(CIRCUIT_STATE.OPEN);
+      expect(emailService.getMetrics().get(
+        `${METRICS.PROVIDER_TIMEOUT_COUNTER}{provider="MockProvider1"}`
+      )).toBe(1);
+    });
+
+    it('should give up at the deadline without blaming the provider', async () => {
+      emailService = createEmailService({
+        providers: [mockProvider1],
+        sendTimeout: 1000,
+        circuitBreakerConfig: { failureThreshold: 1, resetTimeout: 60000 },
+      }, mockGetCurrentTime);
+      mockProvider1.send.mockImplementation(hang);
+
+      const sending = send({ deadline: currentTime + 300 });
+      sending.catch(() => undefined);
+      await advance(1);
+      expect(mockProvider1.send).toHaveBeenCalledTimes(1);
+      await advance(299);
+
+      await expect(sending).rejects.toMatchObject({
+        code: ERROR_CODES.DEADLINE_EXCEEDED,
+        retryable: false,
+      });
+      expect((await emailService.getProviderStatus()).MockProvider1.circuitState).toBe(CIRCUIT_STATE.CLOSED);
+    });
+
+    it('should not wait out a backoff that ends past the deadline', async () => {
+      emailService = createEmailService({
+        providers: [mockProvider1],
+        retryConfig: { maxAttempts: 3, initialDelay: 1000, maxDelay: 1000, backoffFactor: 1 },
+      }, mockGetCurrentTime);
+      mockProvider1.send.mockRejectedValue(new Error('Connection reset'));
+
+      const sending = send({ deadline: new Date(currentTime + 500) });
+      sending.catch(() => undefined);
+      await advance(1);
+
+      await expect(sending).rejects.toMatchObject({ code: ERROR_CODES.DEADLINE_EXCEEDED });
+      expect(mockProvider1.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject a message still queued at its deadline and drop it unsent', async () => {
+      emailService = createEmailService({
+        providers: [mockProvider1],
+        sendTimeout: 1000,
+        retryConfig: { maxAttempts: 1, initialDelay: 1, maxDelay: 1, backoffFactor: 1 },
+      }, mockGetCurrentTime);
+      mockProvider1.send.mockImplementationOnce(hang);
+      mockProvider1.send.mockImplementation(sentBy(mockProvider1));
+
+      const first = send();
+      await advance(1);
+      const second = send({ deadline: currentTime + 100 });
+      second.catch(() => undefined);
+      await advance(100);
+      await expect(second).rejects.toMatchObject({ code: ERROR_CODES.DEADLINE_EXCEEDED });
+
+      // The first message times out and is retried; the expired one is dropped on the way
+      await advance(1000);
+      await expect(first).resolves.toMatchObject({ messageId: 'message-0' });
+      expect(mockProvider1.send.mock.calls.map(([message]) => message.id)).toEqual(['message-0', 'message-0']);
+      expect(emailService.getQueueLength()).toBe(0);
+    });
+
+    it('should reject an invalid send timeout or deadline', async () => {
+      expect(() => createEmailService({ providers: [mockProvider1], sendTimeout: 0 }))
+        .toThrow('Send timeout must be at least 1ms');
+
+      emailService = createEmailService({ providers: [mockProvider1] }, mockGetCurrentTime);
+      await expect(send({ deadline: new Date('not a date') })).rejects.toThrow('deadline is not a valid time');
+    });
+  });
+
+  describe('lifecycle events', () => {
+    const sentBy = (provider: { name: string }) => async (message: EmailMessage): Promise<EmailStatus> => ({
+      messageId: message.id,
+      status: EMAIL_STATUS.SENT,
+      provider: provider.name,
+      attempts: 1,
+      lastAttempt: new Date(currentTime),
+    });
+    let events: Array<[string, any]>;
+    const record = (...names: Array<keyof EmailServiceEvents>) => {
+      for (const name of names) {
+        emailService.on(name, payload => events.push([name, payload]));
+      }
+    };
+
+    beforeEach(() => {
+      jest.useRealTimers();
+      events = [];
+      mockProvider1.send.mockImplementation(sentBy(mockProvider1));
+      mockProvider2.send.mockImplementation(sentBy(mockProvider2));
+      emailService = createEmailService({
+        providers: [mockProvider1, mockProvider2],
+        retryConfig: { maxAttempts: 2, initialDelay: 1, maxDelay: 1, backoffFactor: 1 },
+      }, mockGetCurrentTime);
+    });
+
+    it('should report a message from queueing through failover to sent', async () => {
+      record('queued', 'attempt', 'failover', 'retry', 'sent', 'failed');
+      mockProvider1.send.mockRejectedValueOnce(new Error('Connection reset'));
+
+      await send();
+
+      expect(events.map(([name]) => name)).toEqual(['queued', 'attempt', 'failover', 'attempt', 'sent']);
+      expect(events[0][1]).toEqual({ messageId: 'test-123', priority: 'normal', sendAt: undefined, at: 1000 });
+      expect(events[1][1]).toMatchObject({
+        messageId: 'test-123',
+        provider: 'MockProvider1',
+        attempt: 1,
+        error: expect.objectContaining({ message: 'Connection reset' }),
+      });
+      expect(events[2][1]).toMatchObject({ from: 'MockProvider1', to: 'MockProvider2', attempt: 1 });
+      expect(events[3][1]).toMatchObject({ provider: 'MockProvider2', error: undefined });
+      expect(events[4][1]).toMatchObject({ messageId: 'test-123', provider: 'MockProvider2', attempts: 1 });
+    });
+
+    it('should report retries and a final failure', async () => {
+      record('retry', 'failed');
+      mockProvider1.send.mockRejectedValueOnce(new Error('Connection reset'));
+      mockProvider2.send.mockRejectedValueOnce(new Error('Connection reset'));
+      mockProvider1.send.mockRejectedValueOnce(
+        new EmailError('550 No such user', ERROR_CODES.RECIPIENT_REJECTED)
+      );
+
+      await expect(send()).rejects.toMatchObject({ code: ERROR_CODES.RECIPIENT_REJECTED });
+
+      expect(events.map(([name]) => name)).toEqual(['retry', 'failed']);
+      expect(events[0][1]).toMatchObject({ messageId: 'test-123', attempt: 2, delay: expect.any(Number) });
+      expect(events[1][1]).toMatchObject({
+        messageId: 'test-123',
+        error: expect.objectContaining({ code: ERROR_CODES.RECIPIENT_REJECTED }),
+        duration: 0,
+      });
+    });
+
+    it('should report circuits opening and closing alongside onStateChange', async () => {
+      const onStateChange = jest.fn();
+      emailService = createEmailService({
+        providers: [mockProvider1, mockProvider2],
+        retryConfig: { maxAttempts: 1, initialDelay: 1, maxDelay: 1, backoffFactor: 1 },
+        circuitBreakerConfig: { failureThreshold: 1, resetTimeout: 500, onStateChange },
+      }, mockGetCurrentTime);
+      record('circuitOpen', 'circuitClose');
+      mockProvider1.send.mockRejectedValueOnce(new Error('Connection reset'));
+
+      await send();
+      currentTime += 500;
+      await send();
+
+      expect(events).toEqual([
+        ['circuitOpen', expect.objectContaining({ name: 'MockProvider1', to: CIRCUIT_STATE.OPEN })],
+        ['circuitClose', expect.objectContaining({ name: 'MockProvider1', from: CIRCUIT_STATE.HALF_OPEN })],
+      ]);
+      expect(onStateChange).toHaveBeenCalledTimes(3);
+    });
+
+    it('should let listeners unsubscribe and not be disturbed by ones that throw', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const listener = jest.fn();
+      emailService.on('sent', () => {
+        throw new Error('listener bug');
+      });
+      const unsubscribe = emailService.on('sent', listener);
+
+      await expect(send()).resolves.toMatchObject({ status: EMAIL_STATUS.SENT });
+      unsubscribe();
+      await send();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('logging', () => {
+    let logger: jest.Mocked<Logger>;
+
+    beforeEach(() => {
+      jest.useRealTimers();
+      logger = { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() };
+      deliverAll(mockProvider2);
+      emailService = createEmailService({
+        providers: [mockProvider1, mockProvider2],
+        retryConfig: { maxAttempts: 2, initialDelay: 1, maxDelay: 1, backoffFactor: 1 },
+        circuitBreakerConfig: { failureThreshold: 1 },
+        logger,
+      }, mockGetCurrentTime);
+    });
+
+    it('should log provider failures with the message, provider, attempt and circuit state', async () => {
+      mockProvider1.send.mockRejectedValueOnce(new Error('Connection reset'));
+
+      await send();
+
+      expect(logger.warn).toHaveBeenCalledWith('Provider failed to send', {
+        messageId: 'test-123',
+        provider: 'MockProvider1',
+        attempt: 1,
+        circuitState: CIRCUIT_STATE.OPEN,
+        error: expect.objectContaining({ message: 'Connection reset' }),
+      });
+      expect(logger.warn).toHaveBeenCalledWith('Circuit opened', expect.objectContaining({
+        circuit: 'MockProvider1',
+      }));
+      expect(logger.info).toHaveBeenCalledWith('Email sent', expect.objectContaining({
+        messageId: 'test-123',
+        provider: 'MockProvider2',
+      }));
+    });
+
+    it('should stay silent with the no-op logger', async () => {
+      const consoleError = jest.spyOn(console, 'error');
+      emailService = new EmailService({
+        providers: [mockProvider1, mockProvider2],
+        logger: noopLogger,
+      }, mockGetCurrentTime);
+      mockProvider1.send.mockRejectedValueOnce(new Error('Connection reset'));
+
+      await send();
+
+      expect(consoleError).not.toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('prometheus metrics', () => {
+    beforeEach(() => {
+      jest.useRealTimers();
+      deliverAll(mockProvider2);
+      emailService = createEmailService({
+        providers: [mockProvider1, mockProvider2],
+      }, mockGetCurrentTime);
+    });
+
+
+    it('should label attempt latency by provider and outcome and errors by code', async () => {
+      mockProvider1.send.mockImplementationOnce(async () => {
+        currentTime += 300;
+        throw new EmailError('Connection refused', ERROR_CODES.CONNECTION_FAILED);
+      });
+
+      await send();
+
+      const metrics = emailService.getMetrics();
+      expect(metrics.get(
+        `${METRICS.PROVIDER_ERROR_COUNTER}{provider="MockProvider1",code="CONNECTION_FAILED"}`
+      )).toBe(1);
+      expect(metrics.get(
+        `${METRICS.LATENCY_HISTOGRAM}_bucket{provider="MockProvider1",outcome="failure",le="0.25"}`
+      )).toBe(0);
+      expect(metrics.get(
+        `${METRICS.LATENCY_HISTOGRAM}_bucket{provider="MockProvider1",outcome="failure",le="0.5"}`
+      )).toBe(1);
+      expect(metrics.get(`${METRICS.LATENCY_HISTOGRAM}_sum{provider="MockProvider1",outcome="failure"}`)).toBe(0.3);
+      expect(metrics.get(`${METRICS.LATENCY_HISTOGRAM}_count{provider="MockProvider2",outcome="success"}`)).toBe(1);
+    });
+
+    it('should render the exposition format with every metric declared', async () => {
+      await send();
+
+      const text = emailService.getPrometheusMetrics();
+      expect(text).toContain(`# TYPE ${METRICS.SUCCESS_COUNTER} counter\n${METRICS.SUCCESS_COUNTER} 1\n`);
+      expect(text).toContain(`# TYPE ${METRICS.LATENCY_HISTOGRAM} histogram`);
+      expect(text).toContain(`${METRICS.PROVIDER_STATUS_GAUGE}{provider="MockProvider1"} 1`);
+      expect(text).toContain(`${METRICS.QUEUE_LANE_SIZE_GAUGE}{lane="high"} 0`);
+      expect(text).toContain(`# HELP ${METRICS.PROVIDER_ERROR_COUNTER} `);
+    });
+
+    it('should track provider health in the status gauge as checks change it', async () => {
+      emailService = createEmailService({
+        providers: [mockProvider1, mockProvider2],
+        healthCheck: { interval: 60000, unhealthyThreshold: 1 },
+      }, mockGetCurrentTime);
+      (mockProvider1.isAvailable as jest.Mock).mockResolvedValue(false);
+
+      await emailService.checkProviderHealth();
+      emailService.stopHealthChecks();
+
+      expect(emailService.getMetrics().get(`${METRICS.PROVIDER_STATUS_GAUGE}{provider="MockProvider1"}`)).toBe(0);
+      expect(emailService.getMetrics().get(`${METRICS.PROVIDER_STATUS_GAUGE}{provider="MockProvider2"}`)).toBe(1);
+    });
+  });
+
+  describe('tracing', () => {
+    let exporter: InMemorySpanExporter;
+    const callerTraceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+    const spanNamed = (name: string) => exporter.getFinishedSpans().filter(span => span.name === name);
+
+    beforeEach(() => {
+      jest.useRealTimers();
+      exporter = new InMemorySpanExporter();
+      deliverAll(mockProvider2);
+      emailService = createEmailService({
+        providers: [mockProvider1, mockProvider2],
+        tracing: { exporter, serviceName: 'mailer' },
+      }, mockGetCurrentTime);
+    });
+
+    it('should trace a send from the queue through each provider attempt', async () => {
+      const metadata = { traceparent: callerTraceparent };
+      mockProvider1.send.mockRejectedValueOnce(new EmailError('Connection refused', ERROR_CODES.CONNECTION_FAILED));
+
+      await emailService.sendEmail(testMessage.to, testMessage.from, testMessage.subject, testMessage.body, metadata);
+
+      const [send] = spanNamed('email.send');
+      const [wait] = spanNamed('email.queue.wait');
+      const [process] = spanNamed('email.process');
+      const [rateLimit] = spanNamed('email.rate_limit');
+      const attempts = spanNamed('email.provider.send');
+      const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+
+      expect(send).toMatchObject({
+        parentSpanId: '00f067aa0ba902b7',
+        attributes: { 'email.message_id': 'test-123', 'email.provider': 'MockProvider2', 'email.attempts': 1 },
+        status: { code: SPAN_STATUS.OK },
+        resource: { 'service.name': 'mailer' },
+      });
+      expect(wait.parentSpanId).toBe(send.spanContext.spanId);
+      expect(process.parentSpanId).toBe(send.spanContext.spanId);
+      expect(rateLimit.parentSpanId).toBe(process.spanContext.spanId);
+      expect(attempts.map(span => [span.attributes['email.provider'], span.status.code, span.parentSpanId])).toEqual([
+        ['MockProvider1', SPAN_STATUS.ERROR, process.spanContext.spanId],
+        ['MockProvider2', SPAN_STATUS.OK, process.spanContext.spanId],
+      ]);
+      expect(attempts[0]).toMatchObject({
+        kind: SPAN_KIND.CLIENT,
+        events: [expect.objectContaining({
+          name: 'exception',
+          attributes: expect.objectContaining({ 'email.error_code': ERROR_CODES.CONNECTION_FAILED }),
+        })],
+      });
+      expect(exporter.getFinishedSpans().every(span => span.spanContext.traceId === traceId)).toBe(true);
+
+      // Each provider sees the context of its own attempt; the caller's metadata is not touched
+      const sentMessage = mockProvider2.send.mock.calls[0][0];
+      expect(parseTraceparent(sentMessage.metadata?.traceparent)?.spanId).toBe(attempts[1].spanContext.spanId);
+      expect(metadata).toEqual({ traceparent: callerTraceparent });
+    });
+
+    it('should mark the send span failed when every provider fails', async () => {
+      mockProvider1.send.mockRejectedValue(new Error('Connection reset'));
+      mockProvider2.send.mockRejectedValue(new Error('Connection reset'));
+      emailService = createEmailService({
+        providers: [mockProvider1, mockProvider2],
+        tracing: { exporter },
+        retryConfig: { maxAttempts: 1 },
+      }, mockGetCurrentTime);
+
+      await expect(emailService.sendEmail(
+        testMessage.to,
+        testMessage.from,
+        testMessage.subject,
+        testMessage.body
+      )).rejects.toThrow(EmailError);
+
+      const [send] = spanNamed('email.send');
+      expect(send.parentSpanId).toBeUndefined();
+      expect(send.status).toMatchObject({ code: SPAN_STATUS.ERROR });
+      expect(send.events).toEqual([expect.objectContaining({
+        name: 'exception',
+        attributes: expect.objectContaining({ 'email.error_code': ERROR_CODES.ALL_PROVIDERS_FAILED }),
+      })]);
+    });
+
+    it('should leave messages untouched when tracing is off', async () => {
+      emailService = createEmailService({ providers: [mockProvider2] }, mockGetCurrentTime);
+
+      await emailService.sendEmail(testMessage.to, testMessage.from, testMessage.subject, testMessage.body);
+
+      expect(mockProvider2.send.mock.calls[0][0].metadata).toBeUndefined();
+    });
+  });
+
+  describe('message status', () => {
+
+    beforeEach(() => {
+      jest.useRealTimers();
+      deliverAll(mockProvider2);
+      emailService = createEmailService({
+        providers: [mockProvider1, mockProvider2],
+      }, mockGetCurrentTime);
+    });
+
+    it('should record every step of a message until it is sent', async () => {
+      mockProvider1.send.mockRejectedValueOnce(new EmailError('Connection refused', ERROR_CODES.CONNECTION_FAILED));
+
+      await send({ messageId: 'failover-1' });
+
+      const status = await emailService.getStatus('failover-1');
+      expect(status).toMatchObject({
+        messageId: 'failover-1',
+        to: [testMessage.to],
+        state: MESSAGE_STATE.SENT,
+        provider: 'MockProvider2',
+        attempts: 2,
+      });
+      expect(status!.history).toEqual([
+        expect.objectContaining({ type: MESSAGE_STATE.QUEUED, to: [testMessage.to], priority: 'normal' }),
+        expect.objectContaining({
+          type: 'attempt',
+          provider: 'MockProvider1',
+          attempt: 1,
+          error: expect.objectContaining({ code: ERROR_CODES.CONNECTION_FAILED, category: 'transient' }),
+        }),
+        expect.objectContaining({ type: 'attempt', provider: 'MockProvider2', attempt: 1 }),
+        expect.objectContaining({ type: MESSAGE_STATE.SENT, provider: 'MockProvider2' }),
+      ]);
+    });
+
+    it('should record failed and cancelled messages and list them by state', async () => {
+      mockProvider1.send.mockRejectedValue(new EmailError('Mailbox unavailable', ERROR_CODES.RECIPIENT_REJECTED));
+      const scheduled = send({ messageId: 'scheduled-1', delay: 60000 });
+      scheduled.catch(() => undefined);
+
+      await expect(send({ messageId: 'rejected-1' })).rejects.toThrow(EmailError);
+      await emailService.cancelScheduled('scheduled-1');
+      await expect(scheduled).rejects.toMatchObject({ code: ERROR_CODES.MESSAGE_CANCELLED });
+      await send({ messageId: 'rejected-2' }).catch(() => undefined);
+
+      expect(await emailService.getStatus('rejected-1')).toMatchObject({
+        state: MESSAGE_STATE.FAILED,
+        lastError: { code: ERROR_CODES.RECIPIENT_REJECTED },
+      });
+      expect(await emailService.getStatus('scheduled-1')).toMatchObject({ state: MESSAGE_STATE.CANCELLED });
+      const finished = await emailService.listMessages({ state: [MESSAGE_STATE.FAILED, MESSAGE_STATE.CANCELLED] });
+      expect(finished.map(record => record.messageId)).toEqual(['rejected-2', 'rejected-1', 'scheduled-1']);
+      expect(await emailService.getStatus('unknown')).toBeUndefined();
+    });
+
+    it('should keep sending when the status store fails', async () => {
+      const logger = { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() };
+      emailService = createEmailService({
+        providers: [mockProvider2],
+        logger,
+        statusStore: {
+          append: () => Promise.reject(new Error('disk full')),
+          get: async () => undefined,
+          list: async () => [],
+        },
+      }, mockGetCurrentTime);
+
+      await expect(send({ messageId: 'unrecorded-1' })).resolves.toMatchObject({ status: EMAIL_STATUS.SENT });
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(logger.error).toHaveBeenCalledWith('Failed to record message status', expect.objectContaining({
+        messageId: 'unrecorded-1',
+      }));
+    });
+  });
+
+  describe('dead letters', () => {
+
+    beforeEach(() => {
+      jest.useRealTimers();
+      deliverAll(mockProvider2);
+      emailService = createEmailService({
+        providers: [mockProvider1, mockProvider2],
+      }, mockGetCurrentTime);
+    });
+
+    it('should keep a message that failed for good with its error and attempt history', async () => {
+      mockProvider1.send.mockRejectedValue(new EmailError('Mailbox unavailable', ERROR_CODES.RECIPIENT_REJECTED));
+
+      await expect(send({ messageId: 'rejected-1' })).rejects.toMatchObject({ code: ERROR_CODES.RECIPIENT_REJECTED });
+
+      expect(await emailService.getDeadLetter('rejected-1')).toEqual({
+        message: expect.objectContaining({ id: 'rejected-1', to: sentMessage.to }),
+        error: { code: ERROR_CODES.RECIPIENT_REJECTED, category: 'permanent', message: 'Mailbox unavailable' },
+        attempts: 1,
+        history: [
+          expect.objectContaining({ type: MESSAGE_STATE.QUEUED }),
+          expect.objectContaining({ type: 'attempt', provider: 'MockProvider1' }),
+        ],
+        failedAt: currentTime,
+      });
+      expect(emailService.getMetrics().get(`${METRICS.DEAD_LETTER_COUNTER}{code="RECIPIENT_REJECTED"}`)).toBe(1);
+    });
+
+    it('should replay a dead letter through a chosen provider', async () => {
+      mockProvider1.send.mockRejectedValue(new EmailError('Mailbox unavailable', ERROR_CODES.RECIPIENT_REJECTED));
+      await send({ messageId: 'rejected-1' }).catch(() => undefined);
+
+      await expect(emailService.replayDeadLetter('rejected-1', { provider: 'MockProvider2' })).resolves.toMatchObject({
+        messageId: 'rejected-1',
+        status: EMAIL_STATUS.SENT,
+        provider: 'MockProvider2',
+      });
+      expect(mockProvider1.send).toHaveBeenCalledTimes(1);
+      expect(await emailService.listDeadLetters()).toEqual([]);
+    });
+
+    it('should dead-letter a replayed message again when it fails again', async () => {
+      mockProvider1.send.mockRejectedValue(new EmailError('Mailbox unavailable', ERROR_CODES.RECIPIENT_REJECTED));
+      await send({ messageId: 'rejected-1' }).catch(() => undefined);
+      currentTime += 5000;
+
+      await expect(emailService.replayDeadLetter('rejected-1')).rejects.toMatchObject({
+        code: ERROR_CODES.RECIPIENT_REJECTED,
+      });
+      expect(await emailService.getDeadLetter('rejected-1')).toMatchObject({ failedAt: currentTime });
+    });
+
+    it('should list, purge and replay dead letters in bulk', async () => {
+      mockProvider1.send
+        .mockRejectedValueOnce(new EmailError('Mailbox unavailable', ERROR_CODES.RECIPIENT_REJECTED))
+        .mockRejectedValueOnce(new EmailError('Message refused', ERROR_CODES.REQUEST_REJECTED))
+        .mockRejectedValueOnce(new EmailError('Mailbox unavailable', ERROR_CODES.RECIPIENT_REJECTED));
+      for (const id of ['rejected-1', 'refused-1', 'rejected-2']) {
+        await send({ messageId: id }).catch(() => undefined);
+        currentTime += 1000;
+      }
+
+      const rejected = await emailService.listDeadLetters({ code: ERROR_CODES.RECIPIENT_REJECTED });
+      expect(rejected.map(letter => letter.message.id)).toEqual(['rejected-2', 'rejected-1']);
+      const recent = await emailService.listDeadLetters({ since: 2000, limit: 1 });
+      expect(recent.map(letter => letter.message.id)).toEqual(['rejected-2']);
+
+      await expect(emailService.purgeDeadLetters({ code: ERROR_CODES.REQUEST_REJECTED })).resolves.toBe(1);
+      const results = await emailService.replayDeadLetters({}, { provider: 'MockProvider2' });
+      expect(results).toEqual([
+        expect.objectContaining({ messageId: 'rejected-2', status: EMAIL_STATUS.SENT }),
+        expect.objectContaining({ messageId: 'rejected-1', status: EMAIL_STATUS.SENT }),
+      ]);
+      expect(await emailService.listDeadLetters()).toEqual([]);
+    });
+
+    it('should keep a dead letter whose replay the queue refuses', async () => {
+      let releaseBusy: () => void = () => undefined;
+      mockProvider1.send.mockImplementation((message: EmailMessage) => message.id === 'busy-1'
+        ? new Promise(resolve => {
+          releaseBusy = () => resolve({
+            messageId: message.id,
+            status: EMAIL_STATUS.SENT,
+            provider: mockProvider1.name,
+            attempts: 1,
+            lastAttempt: new Date(currentTime),
+          });
+        })
+        : Promise.reject(new EmailError('Mailbox unavailable', ERROR_CODES.RECIPIENT_REJECTED)));
+      emailService = createEmailService({
+        providers: [mockProvider1, mockProvider2],
+        queueConfig: { maxSize: 1 },
+      }, mockGetCurrentTime);
+      await send({ messageId: 'rejected-1' }).catch(() => undefined);
+      const busy = send({ messageId: 'busy-1' });
+      await new Promise(resolve => setImmediate(resolve));
+
+      await expect(emailService.replayDeadLetter('rejected-1')).rejects.toMatchObject({
+        code: ERROR_CODES.QUEUE_FULL,
+      });
+      expect(await emailService.getDeadLetter('rejected-1')).toMatchObject({
+        error: { code: ERROR_CODES.RECIPIENT_REJECTED },
+      });
+
+      releaseBusy();
+      await busy;
+    });
+
+    it('should replay a large backlog without overflowing the queue', async () => {
+      mockProvider1.send.mockRejectedValue(new EmailError('Mailbox unavailable', ERROR_CODES.RECIPIENT_REJECTED));
+      emailService = createEmailService({
+        providers: [mockProvider1, mockProvider2],
+        queueConfig: { maxSize: 2 },
+      }, mockGetCurrentTime);
+      for (let n = 1; n <= 5; n++) {
+        await send({ messageId: `rejected-${n}` }).catch(() => undefined);
+      }
+
+      const results = await emailService.replayDeadLetters({}, { provider: 'MockProvider2', concurrency: 2 });
+
+      expect(results).toHaveLength(5);
+      expect(results.every(result => !(result instanceof EmailError))).toBe(true);
+      expect(await emailService.listDeadLetters()).toEqual([]);
+      await expect(emailService.replayDeadLetters({}, { concurrency: NaN })).rejects.toMatchObject({
+        code: ERROR_CODES.INVALID_CONFIG,
+      });
+    });
+
+    it('should give up at once when the forced provider is misconfigured', async () => {
+      mockProvider1.send.mockRejectedValue(new EmailError('Mailbox unavailable', ERROR_CODES.RECIPIENT_REJECTED));
+      await send({ messageId: 'rejected-1' }).catch(() => undefined);
+      mockProvider1.send.mockRejectedValue(new EmailError('Bad credentials', ERROR_CODES.AUTH_FAILED));
+
+      await expect(emailService.replayDeadLetter('rejected-1', { provider: 'MockProvider1' })).rejects.toMatchObject({
+        code: ERROR_CODES.ALL_PROVIDERS_FAILED,
+        category: 'configuration',
+      });
+      expect(mockProvider1.send).toHaveBeenCalledTimes(2);
+      expect(mockProvider2.send).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown dead letters and providers', async () => {
+      mockProvider1.send.mockRejectedValue(new EmailError('Mailbox unavailable', ERROR_CODES.RECIPIENT_REJECTED));
+      await send({ messageId: 'rejected-1' }).catch(() => undefined);
+
+      await expect(emailService.replayDeadLetter('unknown')).rejects.toMatchObject({
+        code: ERROR_CODES.MESSAGE_NOT_FOUND,
+      });
+      await expect(emailService.purgeDeadLetter('unknown')).rejects.toMatchObject({
+        code: ERROR_CODES.MESSAGE_NOT_FOUND,
+      });
+      await expect(emailService.replayDeadLetter('rejected-1', { provider: 'Nope' })).rejects.toMatchObject({
+        code: ERROR_CODES.INVALID_CONFIG,
+      });
+      await emailService.purgeDeadLetter('rejected-1');
+      expect(await emailService.getDeadLetter('rejected-1')).toBeUndefined();
+    });
+  });
+
+  describe('sendMessage', () => {
+    beforeEach(() => {
+      jest.useRealTimers();
+      deliverAll(mockProvider1);
+      emailService = createEmailService({
+        providers: [mockProvider1],
+      }, mockGetCurrentTime);
+    });
+
+    it('should hand providers structured addresses and custom headers', async () => {
+      await emailService.sendMessage({
+        from: 'Example Support <support@example.com>',
+        to: ['jane@example.com', { name: 'John', address: 'john@example.com' }],
+        cc: 'team@example.com',
+        bcc: ['audit@example.com'],
+        replyTo: 'replies@example.com',
+        subject: testMessage.subject,
+        body: testMessage.body,
+        headers: { 'X-Entity-Ref-ID': 'ref-42' },
+      }, { messageId: 'rich-1' });
+
+      expect(mockProvider1.send).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'rich-1',
+        from: { name: 'Example Support', address: 'support@example.com' },
+        to: [{ address: 'jane@example.com' }, { name: 'John', address: 'john@example.com' }],
+        cc: [{ address: 'team@example.com' }],
+        bcc: [{ address: 'audit@example.com' }],
+        replyTo: [{ address: 'replies@example.com' }],
+        headers: { 'X-Entity-Ref-ID': 'ref-42' },
+      }), sendOptions);
+      expect(await emailService.getStatus('rich-1')).toMatchObject({
+        to: ['jane@example.com', 'john@example.com', 'team@example.com', 'audit@example.com'],
+      });
+    });
+
+    it('should validate every address', async () => {
+      const message = { from: testMessage.from, to: testMessage.to, subject: 'Hi', body: 'Hello' };
+
+      await expect(emailService.sendMessage({ ...message, cc: ['team@example.com', 'not-an-address'] }))
+        .rejects.toMatchObject({ code: ERROR_CODES.INVALID_CONFIG, message: 'Invalid email address in cc: not-an-address' });
+      await expect(emailService.sendMessage({ ...message, from: 'Support <support@>' }))
+        .rejects.toMatchObject({ code: ERROR_CODES.INVALID_CONFIG, message: 'Invalid email address in from: support@' });
+      await expect(emailService.sendMessage({ ...message, replyTo: { name: 'A\r\nBcc: x@example.com', address: 'a@example.com' } }))
+        .rejects.toMatchObject({ code: ERROR_CODES.INVALID_CONFIG });
+      await expect(emailService.sendMessage({ ...message, to: [] }))
+        .rejects.toMatchObject({ code: ERROR_CODES.INVALID_CONFIG, message: 'A message needs at least one recipient' });
+      await expect(emailService.sendMessage({ ...message, to: [], bcc: 'audit@example.com' }))
+        .resolves.toMatchObject({ status: EMAIL_STATUS.SENT });
+      expect(mockProvider1.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject headers that are malformed or set by the message itself', async () => {
+      const withHeaders = (headers: Record<string, string>) => emailService.sendMessage({
+        from: testMessage.from,
+        to: testMessage.to,
+        subject: testMessage.subject,
+        body: testMessage.body,
+        headers,
+      });
+
+      await expect(withHeaders({ 'X-Ref': 'a\r\nBcc: x@example.com' })).rejects.toMatchObject({
+        code: ERROR_CODES.INVALID_CONFIG,
+        message: 'Header X-Ref must not contain line breaks',
+      });
+      await expect(withHeaders({ 'Bad Name': 'x' })).rejects.toMatchObject({ code: ERROR_CODES.INVALID_CONFIG });
+      await expect(withHeaders({ bcc: 'x@example.com' })).rejects.toMatchObject({
+        code: ERROR_CODES.INVALID_CONFIG,
+        message: 'Invalid custom header: bcc',
+      });
+      expect(mockProvider1.send).not.toHaveBeenCalled();
+    });
+
+    it('should carry HTML, attachments and threading headers with binary content as base64', async () => {
+      await emailService.sendMessage({
+        from: testMessage.from,
+        to: testMessage.to,
+        subject: 'Re: Your invoice',
+        body: 'See attached.',
+        html: '<p>See attached.</p><img src="cid:logo">',
+        attachments: [
+          { filename: 'invoice.pdf', contentType: 'application/pdf', content: Buffer.from([0x25, 0x50, 0x44, 0x46]) },
+          { filename: 'notes.txt', content: 'größer' },
+          { filename: 'logo.png', contentType: 'image/png', content: new Uint8Array([0x89, 0x50]), contentId: 'logo' },
+        ],
+        inReplyTo: '<invoice-1@example.com>',
+        references: ['<invoice-1@example.com>'],
+      }, { messageId: 'reply-1' });
+
+      expect(mockProvider1.send).toHaveBeenCalledWith(expect.objectContaining({
+        html: '<p>See attached.</p><img src="cid:logo">',
+        attachments: [
+          { filename: 'invoice.pdf', contentType: 'application/pdf', content: 'JVBERg==' },
+          { filename: 'notes.txt', contentType: 'application/octet-stream', content: Buffer.from('größer').toString('base64') },
+          { filename: 'logo.png', contentType: 'image/png', content: 'iVA=', contentId: 'logo' },
+        ],
+        inReplyTo: '<invoice-1@example.com>',
+        references: ['<invoice-1@example.com>'],
+      }), sendOptions);
+    });
+
+    it('should reject malformed attachments and thread ids', async () => {
+      const message = { from: testMessage.from, to: testMessage.to, subject: 'Hi', body: 'Hello' };
+
+      await expect(emailService.sendMessage({
+        ...message,
+        attachments: [{ filename: 'a.pdf', contentType: 'pdf', content: 'x' }],
+      })).rejects.toMatchObject({ code: ERROR_CODES.INVALID_CONFIG, message: 'Invalid content type for a.pdf: pdf' });
+      await expect(emailService.sendMessage({
+        ...message,
+        attachments: [{ filename: 'a\r\nb.pdf', content: 'x' }],
+      })).rejects.toMatchObject({ code: ERROR_CODES.INVALID_CONFIG });
+      await expect(emailService.sendMessage({ ...message, references: ['not a message id'] }))
+        .rejects.toMatchObject({ code: ERROR_CODES.INVALID_CONFIG, message: 'Invalid Message-ID: not a message id' });
+      await expect(emailService.sendMessage({ ...message, headers: { 'In-Reply-To': '<a@example.com>' } }))
+        .rejects.toMatchObject({ code: ERROR_CODES.INVALID_CONFIG });
+      expect(mockProvider1.send).not.toHaveBeenCalled();
+    });
+  });
 });
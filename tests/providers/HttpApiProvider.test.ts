@@ -0,0 +1,190 @@
+import * as http from 'http';
+import { HttpApiProvider, HttpApiProviderConfig } from '../../src/providers/HttpApiProvider';
+import { EmailMessage, EmailError } from '../../src/core/types';
+import { ERROR_CODES } from '../../src/core/constants';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('HttpApiProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let respond: (request: RecordedRequest) => { status: number; body?: unknown };
+  const testMessage: EmailMessage = {
+    id: 'http-1',
+    to: [{ address: 'test@example.com' }],
+    from: { address: 'sender@example.com' },
+    subject: 'Test Subject',
+    body: 'Test Body',
+  };
+
+  const createProvider = (config: Partial<HttpApiProviderConfig> = {}) =>
+    new HttpApiProvider({
+      name: 'VendorApi',
+      endpoint: `${baseUrl}/v1/send`,
+      statusEndpoint: `${baseUrl}/v1/status`,
+      authHeader: { name: 'Authorization', value: 'Bearer test-key' },
+      mapRequest: message => ({
+        personalizations: [{ to: message.to.map(({ address }) => address) }],
+        sender: message.from.address,
+        subject: message.subject,
+        content: message.body,
+      }),
+      ...config,
+    });
+
+  beforeEach(async () => {
+    requests = [];
+    respond = () => ({ status: 202, body: { id: 'vendor-1' } });
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        const request = { method: req.method!, url: req.url!, headers: req.headers, body };
+        requests.push(request);
+        const reply = respond(request);
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(reply.body === undefined ? '' : JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('send', () => {
+    it('should post the mapped request body with the auth header', async () => {
+      const provider = createProvider();
+
+      const result = await provider.send(testMessage);
+
+      expect(result).toEqual({
+        messageId: testMessage.id,
+        status: 'sent',
+        provider: 'VendorApi',
+        attempts: 1,
+        lastAttempt: expect.any(Date),
+      });
+      expect(requests).toHaveLength(1);
+      expect(requests[0].method).toBe('POST');
+      expect(requests[0].url).toBe('/v1/send');
+      expect(requests[0].headers.authorization).toBe('Bearer test-key');
+      expect(requests[0].headers['content-type']).toBe('application/json');
+      expect(JSON.parse(requests[0].body)).toEqual({
+        personalizations: [{ to: ['test@example.com'] }],
+        sender: 'sender@example.com',
+        subject: 'Test Subject',
+        content: 'Test Body',
+      });
+    });
+
+    it('should use mapResponse to build the status', async () => {
+      const provider = createProvider({
+        mapResponse: (response, message) => ({
+          messageId: message.id,
+          status: 'sent',
+          provider: `VendorApi:${(response.body as { id: string }).id}`,
+          attempts: 1,
+          lastAttempt: new Date(0),
+        }),
+      });
+
+      const result = await provider.send(testMessage);
+      expect(result.provider).toBe('VendorApi:vendor-1');
+    });
+
+    it('should throw the EmailError returned by mapResponse', async () => {
+      respond = () => ({ status: 200, body: { accepted: false } });
+      const provider = createProvider({
+        mapResponse: () => new EmailError('Vendor refused message', ERROR_CODES.REQUEST_REJECTED),
+      });
+
+      await expect(provider.send(testMessage)).rejects.toThrow('Vendor refused message');
+    });
+
+    it.each([
+      [429, ERROR_CODES.RATE_LIMIT_EXCEEDED, 'rate-limited'],
+      [503, ERROR_CODES.SERVICE_DEGRADED, 'transient'],
+      [401, ERROR_CODES.AUTH_FAILED, 'configuration'],
+      [422, ERROR_CODES.REQUEST_REJECTED, 'permanent'],
+      [408, ERROR_CODES.REQUEST_REJECTED, 'transient'],
+    ])('should map HTTP %i to %s (%s)', async (status, code, category) => {
+      respond = () => ({ status, body: { error: 'nope' } });
+      const provider = createProvider();
+
+      await expect(provider.send(testMessage)).rejects.toMatchObject({ code, category });
+    });
+
+    it('should pass the abort signal on to fetch', async () => {
+      const fetch = jest.fn((_url: string, init: RequestInit) => new Promise<Response>((_, reject) => {
+        init.signal!.addEventListener('abort', () => reject(new Error('The operation was aborted')));
+      }));
+      const provider = createProvider({ fetch: fetch as unknown as typeof globalThis.fetch });
+      const controller = new AbortController();
+
+      const sending = provider.send(testMessage, { signal: controller.signal });
+      controller.abort();
+
+      await expect(sending).rejects.toMatchObject({ code: ERROR_CODES.CONNECTION_FAILED });
+      expect(fetch.mock.calls[0][1].signal).toBe(controller.signal);
+    });
+
+    it('should forward the traceparent from the message metadata', async () => {
+      const provider = createProvider();
+      const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+      await provider.send({ ...testMessage, metadata: { traceparent } });
+      await provider.send(testMessage);
+
+      expect(requests[0].headers.traceparent).toBe(traceparent);
+      expect(requests[1].headers.traceparent).toBeUndefined();
+    });
+
+    it('should let mapRequest send the message as raw MIME', async () => {
+      const provider = createProvider({
+        mapRequest: (message, mime) => ({ raw: Buffer.from(mime()).toString('base64') }),
+      });
+
+      await provider.send(testMessage, { date: new Date(Date.UTC(2026, 9, 19, 9, 30)) });
+
+      const raw = Buffer.from(JSON.parse(requests[0].body).raw, 'base64').toString('utf8');
+      expect(raw).toContain('From: sender@example.com\r\nTo: test@example.com\r\nSubject: Test Subject\r\n');
+      expect(raw).toContain('\r\nDate: Mon, 19 Oct 2026 09:30:00 +0000\r\n');
+      expect(raw.endsWith('\r\n\r\nTest Body')).toBe(true);
+    });
+
+    it('should map network failures to CONNECTION_FAILED', async () => {
+      const provider = createProvider({ endpoint: 'http://127.0.0.1:1/v1/send' });
+
+      await expect(provider.send(testMessage)).rejects.toMatchObject({
+        code: ERROR_CODES.CONNECTION_FAILED,
+      });
+    });
+  });
+
+  describe('isAvailable', () => {
+    it('should query the status endpoint', async () => {
+      const provider = createProvider();
+
+      await expect(provider.isAvailable()).resolves.toBe(true);
+      expect(requests[0].method).toBe('GET');
+      expect(requests[0].url).toBe('/v1/status');
+      expect(requests[0].headers.authorization).toBe('Bearer test-key');
+    });
+
+    it('should return false when the status endpoint reports an error', async () => {
+      respond = () => ({ status: 500 });
+      const provider = createProvider();
+
+      await expect(provider.isAvailable()).resolves.toBe(false);
+    });
+  });
+});
@@ -6,9 +6,10 @@ describe('MockProvider1', () => {
   let provider: MockProvider1;
   const testMessage: EmailMessage = {
     id: 'test-1',
-    to: 'test@example.com',
-    from: 'sender@example.com',
+    to: [{ address: 'test@example.com' }],
+    from: { address: 'sender@example.com' },
     subject: 'Test Subject',
+    body: 'Test Body',
   };
 
   beforeEach(() => {
@@ -25,7 +26,9 @@ describe('MockProvider1', () => {
       expect(result).toEqual({
         messageId: testMessage.id,
         status: 'sent',
-        
+        provider: provider.name,
+        attempts: 1,
+        lastAttempt: expect.any(Date),
       });
     });
 
@@ -6,7 +6,8 @@ describe('MockProvider2', () => {
   let provider: MockProvider2;
   const testMessage: EmailMessage = {
     id: 'test-2',
-
+    to: [{ address: 'test@example.com' }],
+    from: { address: 'sender@example.com' },
     subject: 'Test Subject',
     body: 'Test Body',
   };
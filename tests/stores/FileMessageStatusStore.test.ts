@@ -0,0 +1,90 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileMessageStatusStore } from '../../src/stores/FileMessageStatusStore';
+import { MessageStatusEntry } from '../../src/core/types';
+import { MESSAGE_STATE } from '../../src/core/constants';
+
+describe('FileMessageStatusStore', () => {
+  let directory: string;
+  let journalPath: string;
+  let currentTime: number;
+  const queued = (at: number): MessageStatusEntry => ({
+    type: MESSAGE_STATE.QUEUED,
+    at,
+    to: ['test@example.com'],
+    priority: 'normal',
+  });
+
+  beforeEach(async () => {
+    currentTime = 1000;
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'status-store-'));
+    journalPath = path.join(directory, 'status', 'journal.log');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should return the recorded history to a new instance after a restart', async () => {
+    const store = new FileMessageStatusStore({ path: journalPath }, () => currentTime);
+    await store.append('a', queued(1000));
+    await store.append('a', { type: 'attempt', at: 1100, provider: 'primary', attempt: 1 });
+    await store.append('a', { type: MESSAGE_STATE.SENT, at: 1100, provider: 'primary' });
+    await store.append('b', queued(1200));
+    await store.close();
+
+    const restarted = new FileMessageStatusStore({ path: journalPath }, () => currentTime);
+
+    expect(await restarted.get('a')).toMatchObject({ state: MESSAGE_STATE.SENT, provider: 'primary', attempts: 1 });
+    expect((await restarted.list()).map(record => record.messageId)).toEqual(['b', 'a']);
+    await restarted.close();
+  });
+
+  it('should ignore a torn final line left by a crash', async () => {
+    const store = new FileMessageStatusStore({ path: journalPath }, () => currentTime);
+    await store.append('a', queued(1000));
+    await store.close();
+    await fs.appendFile(journalPath, '{"id":"a","entry":{"type":"se');
+
+    const restarted = new FileMessageStatusStore({ path: journalPath }, () => currentTime);
+
+    expect(await restarted.get('a')).toMatchObject({ state: MESSAGE_STATE.QUEUED });
+    await restarted.close();
+  });
+
+  it('should drop records past retention from the journal when it is loaded', async () => {
+    const store = new FileMessageStatusStore({ path: journalPath, retention: 5000 }, () => currentTime);
+    await store.append('old', queued(1000));
+    await store.append('old', { type: MESSAGE_STATE.SENT, at: 1000 });
+    await store.append('recent', queued(4000));
+    await store.close();
+
+    currentTime = 10000;
+    const restarted = new FileMessageStatusStore({ path: journalPath, retention: 5000 }, () => currentTime);
+    expect(await restarted.get('old')).toBeUndefined();
+    await restarted.close();
+
+    const lines = (await fs.readFile(journalPath, 'utf8')).trim().split('\n');
+    expect(lines.map(line => JSON.parse(line).id)).toEqual(['recent']);
+  });
+
+  it('should rewrite the journal while running once evicted records outnumber the kept ones', async () => {
+    const idsOf = async () => (await fs.readFile(journalPath, 'utf8')).trim().split('\n').map(line => JSON.parse(line).id);
+    const store = new FileMessageStatusStore({ path: journalPath, maxMessages: 2, retention: 5000 }, () => currentTime);
+    for (const id of ['a', 'b', 'c']) {
+      await store.append(id, queued(1000));
+    }
+    expect(await idsOf()).toEqual(['a', 'b', 'c']);
+
+    await store.append('d', queued(1000));
+    expect(await idsOf()).toEqual(['c', 'd']);
+
+    await store.append('c', { type: MESSAGE_STATE.SENT, at: 1000 });
+    await store.append('d', { type: MESSAGE_STATE.SENT, at: 1000 });
+    currentTime = 10000;
+    expect(await store.list()).toEqual([]);
+    expect(await fs.readFile(journalPath, 'utf8')).toBe('');
+    await store.close();
+  });
+});
@@ -0,0 +1,99 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileQueueStore } from '../../src/stores/FileQueueStore';
+import { EmailMessage } from '../../src/core/types';
+
+describe('FileQueueStore', () => {
+  let directory: string;
+  let journalPath: string;
+  const createMessage = (id: string): EmailMessage => ({
+    id,
+    to: [{ address: 'test@example.com' }],
+    from: { address: 'sender@example.com' },
+    subject: 'Test Subject',
+    body: 'Test Body',
+    metadata: { campaign: 'welcome' },
+  });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'queue-store-'));
+    journalPath = path.join(directory, 'queue', 'journal.log');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should return pending records to a new instance after a restart', async () => {
+    const store = new FileQueueStore({ path: journalPath });
+    await store.add({ message: createMessage('a'), attempts: 0, enqueuedAt: 1 });
+    await store.add({ message: createMessage('b'), attempts: 0, enqueuedAt: 2 });
+    await store.add({ message: createMessage('c'), attempts: 0, enqueuedAt: 3 });
+    await store.update({ message: createMessage('b'), attempts: 2, enqueuedAt: 2 });
+    await store.remove('a');
+    await store.close();
+
+    const restarted = new FileQueueStore({ path: journalPath });
+    const records = await restarted.load();
+
+    expect(records).toEqual([
+      { message: createMessage('b'), attempts: 2, enqueuedAt: 2 },
+      { message: createMessage('c'), attempts: 0, enqueuedAt: 3 },
+    ]);
+    await restarted.close();
+  });
+
+  it('should ignore a torn final line left by a crash', async () => {
+    const store = new FileQueueStore({ path: journalPath });
+    await store.add({ message: createMessage('a'), attempts: 0, enqueuedAt: 1 });
+    await store.close();
+    await fs.appendFile(journalPath, '{"op":"remove","id":');
+
+    const restarted = new FileQueueStore({ path: journalPath });
+    expect((await restarted.load()).map(record => record.message.id)).toEqual(['a']);
+    await restarted.close();
+  });
+
+  it('should compact the journal to the live records on load', async () => {
+    const store = new FileQueueStore({ path: journalPath, fsync: false });
+    for (const id of ['a', 'b', 'c']) {
+      await store.add({ message: createMessage(id), attempts: 0, enqueuedAt: 1 });
+    }
+    await store.remove('a');
+    await store.remove('c');
+
+    await store.load();
+    await store.add({ message: createMessage('d'), attempts: 0, enqueuedAt: 2 });
+    await store.close();
+
+    const lines = (await fs.readFile(journalPath, 'utf8')).trim().split('\n');
+    expect(lines.map(line => JSON.parse(line).op)).toEqual(['add', 'add']);
+    const restarted = new FileQueueStore({ path: journalPath });
+    expect((await restarted.load()).map(record => record.message.id)).toEqual(['b', 'd']);
+    await restarted.close();
+  });
+
+  it('should compact the journal while running once it grows past the threshold', async () => {
+    const store = new FileQueueStore({ path: journalPath, fsync: false, compactThreshold: 3 });
+    const opsOf = async () => (await fs.readFile(journalPath, 'utf8')).trim().split('\n').map(line => JSON.parse(line).op);
+
+    await store.add({ message: createMessage('a'), attempts: 0, enqueuedAt: 1 });
+    await store.add({ message: createMessage('b'), attempts: 0, enqueuedAt: 2 });
+    expect(await opsOf()).toEqual(['add', 'add']);
+    await store.remove('a');
+    await store.update({ message: createMessage('b'), attempts: 1, enqueuedAt: 2 });
+    await store.close();
+
+    expect(await opsOf()).toEqual(['add', 'update']);
+    const restarted = new FileQueueStore({ path: journalPath });
+    expect(await restarted.load()).toEqual([{ message: createMessage('b'), attempts: 1, enqueuedAt: 2 }]);
+    await restarted.close();
+  });
+
+  it('should return nothing when no journal exists yet', async () => {
+    const store = new FileQueueStore({ path: journalPath });
+    await expect(store.load()).resolves.toEqual([]);
+    await store.close();
+  });
+});
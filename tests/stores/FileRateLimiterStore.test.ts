@@ -0,0 +1,92 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileRateLimiterStore } from '../../src/stores/FileRateLimiterStore';
+import { RateLimitState } from '../../src/core/types';
+
+describe('FileRateLimiterStore', () => {
+  let directory: string;
+  let statePath: string;
+  const increment = (state: RateLimitState | undefined) => {
+    const next = state ?? { timestamps: [], tokens: 0, lastRefill: 0 };
+    next.tokens++;
+    return { state: next, result: next.tokens };
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'rate-limit-store-'));
+    statePath = path.join(directory, 'limits', 'state.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should not lose updates made concurrently through separate instances', async () => {
+    // Separate instances stand in for separate processes: they only share the file
+    const stores = [new FileRateLimiterStore({ path: statePath }), new FileRateLimiterStore({ path: statePath })];
+
+    const results = await Promise.all(
+      Array.from({ length: 20 }, (_, n) => stores[n % 2].update('global', increment))
+    );
+
+    expect([...results].sort((a, b) => a - b)).toEqual(Array.from({ length: 20 }, (_, n) => n + 1));
+    const saved = JSON.parse(await fs.readFile(statePath, 'utf8'));
+    expect(saved.global.tokens).toBe(20);
+    await expect(fs.access(`${statePath}.lock`)).rejects.toThrow();
+  });
+
+  it('should keep each key separate', async () => {
+    const store = new FileRateLimiterStore({ path: statePath });
+
+    await store.update('provider:a', increment);
+    await store.update('provider:a', increment);
+    await expect(store.update('provider:b', increment)).resolves.toBe(1);
+  });
+
+  it('should break a lock left behind by a dead process', async () => {
+    await fs.mkdir(path.dirname(statePath), { recursive: true });
+    await fs.writeFile(`${statePath}.lock`, '');
+    const old = new Date(Date.now() - 60000);
+    await fs.utimes(`${statePath}.lock`, old, old);
+    const store = new FileRateLimiterStore({ path: statePath, staleLockAge: 1000 });
+
+    await expect(store.update('global', increment)).resolves.toBe(1);
+  });
+
+  it('should not break a lock that another process took after the stale one was seen', async () => {
+    const lockPath = `${statePath}.lock`;
+    await fs.mkdir(path.dirname(statePath), { recursive: true });
+    await fs.writeFile(lockPath, '');
+    const old = new Date(Date.now() - 60000);
+    await fs.utimes(lockPath, old, old);
+    const store = new FileRateLimiterStore({ path: statePath, staleLockAge: 1000, lockTimeout: 50 });
+
+    // Another process breaks the stale lock and takes its own just before this one moves it aside
+    const rename = fs.rename;
+    const renameSpy = jest.spyOn(fs, 'rename').mockImplementationOnce(async (from, to) => {
+      await fs.rm(lockPath);
+      await fs.writeFile(lockPath, 'other');
+      return rename(from, to);
+    });
+
+    try {
+      await expect(store.update('global', increment)).rejects.toThrow('Timed out waiting for rate limit lock');
+    } finally {
+      renameSpy.mockRestore();
+    }
+    await expect(fs.readFile(lockPath, 'utf8')).resolves.toBe('other');
+    expect((await fs.readdir(path.dirname(statePath))).filter(name => name.endsWith('.stale'))).toEqual([]);
+  });
+
+  it('should fail when the lock is held past the lock timeout', async () => {
+    await fs.mkdir(path.dirname(statePath), { recursive: true });
+    await fs.writeFile(`${statePath}.lock`, '');
+    const store = new FileRateLimiterStore({ path: statePath, lockTimeout: 50 });
+
+    await expect(store.update('global', increment)).rejects.toThrow('Timed out waiting for rate limit lock');
+    // A failed update does not block the next one
+    await fs.rm(`${statePath}.lock`);
+    await expect(store.update('global', increment)).resolves.toBe(1);
+  });
+});
@@ -0,0 +1,41 @@
+import { InMemoryDeadLetterStore } from '../../src/stores/InMemoryDeadLetterStore';
+import { DeadLetter } from '../../src/core/types';
+
+describe('InMemoryDeadLetterStore', () => {
+  let store: InMemoryDeadLetterStore;
+  const letter = (id: string, failedAt: number): DeadLetter => ({
+    message: {
+      id,
+      to: [{ address: 'test@example.com' }],
+      from: { address: 'sender@example.com' },
+      subject: 'Test Subject',
+      body: 'Test Body',
+    },
+    error: { code: 'RECIPIENT_REJECTED', category: 'permanent', message: 'Mailbox unavailable' },
+    attempts: 1,
+    history: [],
+    failedAt,
+  });
+
+  beforeEach(() => {
+    store = new InMemoryDeadLetterStore();
+  });
+
+  it('should list dead letters in the order they failed', async () => {
+    await store.add(letter('a', 1000));
+    await store.add(letter('b', 2000));
+    await store.add(letter('a', 3000));
+
+    const letters = await store.list();
+    expect(letters.map(({ message, failedAt }) => [message.id, failedAt])).toEqual([['b', 2000], ['a', 3000]]);
+    await expect(store.get('a')).resolves.toMatchObject({ failedAt: 3000 });
+  });
+
+  it('should report whether a dead letter was removed', async () => {
+    await store.add(letter('a', 1000));
+
+    await expect(store.remove('a')).resolves.toBe(true);
+    await expect(store.remove('a')).resolves.toBe(false);
+    expect(store.size()).toBe(0);
+  });
+});
@@ -0,0 +1,62 @@
+import { InMemoryIdempotencyStore } from '../../src/stores/InMemoryIdempotencyStore';
+import { EmailStatus } from '../../src/core/types';
+import { EMAIL_STATUS } from '../../src/core/constants';
+
+describe('InMemoryIdempotencyStore', () => {
+  let currentTime: number;
+  let store: InMemoryIdempotencyStore;
+  const status = (messageId: string): EmailStatus => ({
+    messageId,
+    status: EMAIL_STATUS.SENT,
+    provider: 'test',
+    attempts: 1,
+    lastAttempt: new Date(0),
+  });
+
+  beforeEach(() => {
+    currentTime = 1000;
+    store = new InMemoryIdempotencyStore(() => currentTime);
+  });
+
+  it('should return a stored status until its TTL expires', async () => {
+    await store.set('key-1', status('a'), 500);
+
+    currentTime += 499;
+    await expect(store.get('key-1')).resolves.toEqual(status('a'));
+
+    currentTime += 1;
+    await expect(store.get('key-1')).resolves.toBeUndefined();
+    expect(store.size()).toBe(0);
+  });
+
+  it('should evict expired entries when new keys are written', async () => {
+    await store.set('key-1', status('a'), 100);
+    await store.set('key-2', status('b'), 100);
+    currentTime += 100;
+
+    await store.set('key-3', status('c'), 100);
+
+    expect(store.size()).toBe(1);
+    await expect(store.get('key-3')).resolves.toEqual(status('c'));
+  });
+
+  it('should refresh the expiry when a key is written again', async () => {
+    await store.set('key-1', status('a'), 100);
+    currentTime += 50;
+    await store.set('key-1', status('b'), 100);
+    currentTime += 99;
+
+    await expect(store.get('key-1')).resolves.toEqual(status('b'));
+  });
+
+  it('should delete and clear keys', async () => {
+    await store.set('key-1', status('a'), 100);
+    await store.set('key-2', status('b'), 100);
+
+    await store.delete('key-1');
+    await expect(store.get('key-1')).resolves.toBeUndefined();
+
+    await store.clear();
+    expect(store.size()).toBe(0);
+  });
+});
@@ -0,0 +1,102 @@
+import { InMemoryMessageStatusStore } from '../../src/stores/InMemoryMessageStatusStore';
+import { MessageStatusEntry } from '../../src/core/types';
+import { ERROR_CODES, MESSAGE_STATE } from '../../src/core/constants';
+
+describe('InMemoryMessageStatusStore', () => {
+  let currentTime: number;
+  let store: InMemoryMessageStatusStore;
+  const queued = (at: number, ...to: string[]): MessageStatusEntry => ({
+    type: MESSAGE_STATE.QUEUED,
+    at,
+    to: to.length > 0 ? to : ['test@example.com'],
+    priority: 'normal',
+  });
+  const connectionError = {
+    code: ERROR_CODES.CONNECTION_FAILED,
+    category: 'transient' as const,
+    message: 'Connection refused',
+  };
+
+  beforeEach(() => {
+    currentTime = 1000;
+    store = new InMemoryMessageStatusStore({}, () => currentTime);
+  });
+
+  it('should fold entries into the current state of a message', async () => {
+    await store.append('m1', queued(1000));
+    await store.append('m1', { type: 'attempt', at: 1100, provider: 'primary', attempt: 1, error: connectionError });
+    await store.append('m1', { type: 'attempt', at: 1200, provider: 'backup', attempt: 1 });
+    await store.append('m1', { type: MESSAGE_STATE.SENT, at: 1200, provider: 'backup' });
+
+    const record = await store.get('m1');
+
+    expect(record).toMatchObject({
+      messageId: 'm1',
+      to: ['test@example.com'],
+      state: MESSAGE_STATE.SENT,
+      provider: 'backup',
+      attempts: 2,
+      createdAt: 1000,
+      updatedAt: 1200,
+      lastError: connectionError,
+    });
+    expect(record!.history.map(entry => entry.type)).toEqual(['queued', 'attempt', 'attempt', 'sent']);
+  });
+
+  it('should ignore entries for messages it has no record of', async () => {
+    await store.append('unknown', { type: MESSAGE_STATE.SENT, at: 1000 });
+
+    expect(await store.get('unknown')).toBeUndefined();
+  });
+
+  it('should hand out copies', async () => {
+    await store.append('m1', queued(1000));
+
+    (await store.get('m1'))!.history.push({ type: MESSAGE_STATE.SENT, at: 0 });
+
+    expect((await store.get('m1'))!.history).toHaveLength(1);
+  });
+
+  it('should list matching messages newest first', async () => {
+    await store.append('a', queued(1000, 'first@example.com'));
+    await store.append('b', queued(2000, 'second@example.com'));
+    await store.append('c', queued(3000, 'other@example.com', 'first@example.com'));
+    await store.append('a', { type: MESSAGE_STATE.FAILED, at: 3000, error: connectionError });
+    await store.append('c', { type: MESSAGE_STATE.SENT, at: 3100, provider: 'primary' });
+
+    const ids = async (query: Parameters<InMemoryMessageStatusStore['list']>[0]) =>
+      (await store.list(query)).map(record => record.messageId);
+
+    expect(await ids({})).toEqual(['c', 'b', 'a']);
+    expect(await ids({ to: 'FIRST@example.com' })).toEqual(['c', 'a']);
+    expect(await ids({ state: [MESSAGE_STATE.FAILED, MESSAGE_STATE.QUEUED] })).toEqual(['b', 'a']);
+    expect(await ids({ provider: 'primary' })).toEqual(['c']);
+    expect(await ids({ since: 2000, until: new Date(3000) })).toEqual(['b']);
+    expect(await ids({ limit: 2 })).toEqual(['c', 'b']);
+  });
+
+  it('should drop the oldest records beyond maxMessages', async () => {
+    store = new InMemoryMessageStatusStore({ maxMessages: 2 }, () => currentTime);
+
+    await store.append('a', queued(1000));
+    await store.append('b', queued(1001));
+    await store.append('c', queued(1002));
+
+    expect(store.size()).toBe(2);
+    expect(await store.get('a')).toBeUndefined();
+  });
+
+  it('should forget finished messages after the retention period but keep queued ones', async () => {
+    store = new InMemoryMessageStatusStore({ retention: 5000 }, () => currentTime);
+    await store.append('sent', queued(1000));
+    await store.append('sent', { type: MESSAGE_STATE.SENT, at: 1000 });
+    await store.append('waiting', queued(1000));
+
+    currentTime = 6000;
+    expect(await store.get('sent')).toBeDefined();
+
+    currentTime = 6001;
+    expect(await store.get('sent')).toBeUndefined();
+    expect(await store.get('waiting')).toBeDefined();
+  });
+});
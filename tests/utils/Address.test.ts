@@ -0,0 +1,55 @@
+import { formatAddress, formatAddressList, parseAddress, parseAddressList, recipientsOf } from '../../src/utils/Address';
+
+describe('Address', () => {
+  describe('parseAddress', () => {
+    it('should accept bare addresses, display-name strings and address objects', () => {
+      expect(parseAddress(' jane@example.com ')).toEqual({ address: 'jane@example.com' });
+      expect(parseAddress('Jane Doe <jane@example.com>')).toEqual({ name: 'Jane Doe', address: 'jane@example.com' });
+      expect(parseAddress('"Doe, Jane \\"JD\\"" <jane@example.com>')).toEqual({
+        name: 'Doe, Jane "JD"',
+        address: 'jane@example.com',
+      });
+      expect(parseAddress('<jane@example.com>')).toEqual({ address: 'jane@example.com' });
+      expect(parseAddress({ name: '', address: 'jane@example.com' })).toEqual({ address: 'jane@example.com' });
+    });
+
+    it('should turn a single address or a list into a list', () => {
+      expect(parseAddressList('a@example.com')).toEqual([{ address: 'a@example.com' }]);
+      expect(parseAddressList(['a@example.com', { name: 'B', address: 'b@example.com' }])).toEqual([
+        { address: 'a@example.com' },
+        { name: 'B', address: 'b@example.com' },
+      ]);
+      expect(parseAddressList(undefined)).toEqual([]);
+    });
+  });
+
+  describe('formatAddress', () => {
+    it('should quote display names only when they need it', () => {
+      expect(formatAddress({ address: 'jane@example.com' })).toBe('jane@example.com');
+      expect(formatAddress({ name: 'Jane Doe', address: 'jane@example.com' })).toBe('Jane Doe <jane@example.com>');
+      expect(formatAddress({ name: 'Doe, Jane "JD"', address: 'jane@example.com' })).toBe(
+        '"Doe, Jane \\"JD\\"" <jane@example.com>'
+      );
+      expect(formatAddressList([{ address: 'a@example.com' }, { name: 'B', address: 'b@example.com' }])).toBe(
+        'a@example.com, B <b@example.com>'
+      );
+    });
+
+    it('should round-trip through parseAddress', () => {
+      const address = { name: 'Support (EU) <team>', address: 'support@example.com' };
+      expect(parseAddress(formatAddress(address))).toEqual(address);
+    });
+  });
+
+  describe('recipientsOf', () => {
+    it('should list to, cc and bcc recipients once each', () => {
+      expect(
+        recipientsOf({
+          to: [{ address: 'a@example.com' }, { address: 'b@example.com' }],
+          cc: [{ address: 'A@example.com' }],
+          bcc: [{ address: 'c@example.com' }],
+        })
+      ).toEqual(['a@example.com', 'b@example.com', 'c@example.com']);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { CircuitBreaker } from '../../src/utils/CircuitBreaker';
+import { CIRCUIT_STATE } from '../../src/core/constants';
+
+describe('CircuitBreaker', () => {
+  let currentTime: number;
+  let breaker: CircuitBreaker;
+  const fail = () => Promise.reject(new Error('Provider failed'));
+
+  beforeEach(() => {
+    currentTime = 1000;
+    breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 500 }, () => currentTime);
+  });
+
+  const open = async () => {
+    await expect(breaker.execute(fail)).rejects.toThrow('Provider failed');
+    await expect(breaker.execute(fail)).rejects.toThrow('Provider failed');
+    expect(breaker.getState()).toBe(CIRCUIT_STATE.OPEN);
+  };
+
+  it('should reject calls while open', async () => {
+    await open();
+
+    expect(breaker.isCallPermitted()).toBe(false);
+    await expect(breaker.execute(async () => 'ok')).rejects.toThrow('CIRCUIT');
+  });
+
+  it('should let a single probe through once the reset timeout has passed', async () => {
+    await open();
+    currentTime += 500;
+    let finishProbe: () => void = () => undefined;
+
+    const probe = breaker.execute(() => new Promise<string>(resolve => (finishProbe = () => resolve('ok'))));
+    expect(breaker.getState()).toBe(CIRCUIT_STATE.HALF_OPEN);
+    expect(breaker.isCallPermitted()).toBe(false);
+    await expect(breaker.execute(async () => 'concurrent')).rejects.toThrow('CIRCUIT');
+
+    finishProbe();
+    await expect(probe).resolves.toBe('ok');
+    expect(breaker.getState()).toBe(CIRCUIT_STATE.CLOSED);
+  });
+
+  it('should reopen when the probe fails', async () => {
+    await open();
+    currentTime += 500;
+
+    await expect(breaker.execute(fail)).rejects.toThrow('Provider failed');
+
+    expect(breaker.getState()).toBe(CIRCUIT_STATE.OPEN);
+    expect(breaker.isCallPermitted()).toBe(false);
+  });
+
+  it('should ignore errors the isFailure predicate rejects', async () => {
+    breaker = new CircuitBreaker({
+      failureThreshold: 2,
+      resetTimeout: 500,
+      isFailure: error => (error as Error).message !== 'Mailbox does not exist',
+    }, () => currentTime);
+    const reject = () => Promise.reject(new Error('Mailbox does not exist'));
+
+    await expect(breaker.execute(reject)).rejects.toThrow('Mailbox does not exist');
+    await expect(breaker.execute(reject)).rejects.toThrow('Mailbox does not exist');
+    expect(breaker.getState()).toBe(CIRCUIT_STATE.CLOSED);
+
+    await open();
+    currentTime += 500;
+    // An ignored error from a probe neither closes nor reopens the circuit
+    await expect(breaker.execute(reject)).rejects.toThrow('Mailbox does not exist');
+    expect(breaker.getState()).toBe(CIRCUIT_STATE.HALF_OPEN);
+    expect(breaker.isCallPermitted()).toBe(true);
+  });
+
+  describe('rolling window', () => {
+    const succeed = () => Promise.resolve('ok');
+    const run = async (outcomes: boolean[]) => {
+      for (const ok of outcomes) {
+        await breaker.execute(ok ? succeed : fail).catch(() => undefined);
+      }
+    };
+
+    it('should open once the failure rate over the last calls reaches the threshold', async () => {
+      breaker = new CircuitBreaker({
+        failureThreshold: 1,
+        resetTimeout: 500,
+        mode: 'rolling-window',
+        failureRateThreshold: 50,
+        windowSize: 4,
+        minimumVolume: 4,
+      }, () => currentTime);
+
+      await run([false, true, true]);
+      // Below the minimum volume a failure does not trip the breaker
+      expect(breaker.getState()).toBe(CIRCUIT_STATE.CLOSED);
+      await run([true, false, true]);
+      expect(breaker.getFailureRate()).toBe(25);
+      expect(breaker.getState()).toBe(CIRCUIT_STATE.CLOSED);
+
+      await run([false]);
+      expect(breaker.getFailureRate()).toBe(50);
+      expect(breaker.getState()).toBe(CIRCUIT_STATE.OPEN);
+    });
+
+    it('should forget failures older than the window duration', async () => {
+      breaker = new CircuitBreaker({
+        failureThreshold: 1,
+        resetTimeout: 500,
+        mode: 'rolling-window',
+        windowDuration: 1000,
+        minimumVolume: 2,
+      }, () => currentTime);
+
+      await run([false]);
+      currentTime += 1000;
+      await run([false, true, true]);
+
+      expect(breaker.getFailureRate()).toBeCloseTo(33.33, 1);
+      expect(breaker.getState()).toBe(CIRCUIT_STATE.CLOSED);
+    });
+  });
+
+  describe('half-open probing', () => {
+    const hold = () => {
+      let finish: (ok: boolean) => void = () => undefined;
+      const call = breaker.execute(
+        () => new Promise<string>((resolve, reject) => {
+          finish = ok => (ok ? resolve('ok') : reject(new Error('Provider failed')));
+        })
+      );
+      return { call: call.catch(error => error), finish: (ok: boolean) => finish(ok) };
+    };
+
+    it('should allow up to halfOpenMaxProbes concurrent probes', async () => {
+      breaker = new CircuitBreaker(
+        { failureThreshold: 2, resetTimeout: 500, halfOpenMaxProbes: 2, successThreshold: 2 },
+        () => currentTime
+      );
+      await open();
+      currentTime += 500;
+
+      const probes = [hold(), hold()];
+      expect(breaker.isCallPermitted()).toBe(false);
+      probes[0].finish(true);
+      await probes[0].call;
+      // One success is not enough to close, but it frees a probe slot
+      expect(breaker.getState()).toBe(CIRCUIT_STATE.HALF_OPEN);
+      expect(breaker.isCallPermitted()).toBe(true);
+
+      probes[1].finish(true);
+      await probes[1].call;
+      expect(breaker.getState()).toBe(CIRCUIT_STATE.CLOSED);
+    });
+
+    it('should reopen and start counting again when any probe fails', async () => {
+      breaker = new CircuitBreaker(
+        { failureThreshold: 2, resetTimeout: 500, halfOpenMaxProbes: 2, successThreshold: 2 },
+        () => currentTime
+      );
+      await open();
+      currentTime += 500;
+
+      const probes = [hold(), hold()];
+      probes[0].finish(false);
+      await probes[0].call;
+      expect(breaker.getState()).toBe(CIRCUIT_STATE.OPEN);
+
+      probes[1].finish(true);
+      await probes[1].call;
+      expect(breaker.getState()).toBe(CIRCUIT_STATE.OPEN);
+    });
+  });
+
+  it('should report every state transition', async () => {
+    const onStateChange = jest.fn();
+    breaker = new CircuitBreaker(
+      { failureThreshold: 2, resetTimeout: 500, name: 'primary', onStateChange },
+      () => currentTime
+    );
+
+    await open();
+    currentTime += 500;
+    await breaker.execute(async () => 'ok');
+
+    expect(onStateChange.mock.calls.map(([change]) => [change.from, change.to])).toEqual([
+      [CIRCUIT_STATE.CLOSED, CIRCUIT_STATE.OPEN],
+      [CIRCUIT_STATE.OPEN, CIRCUIT_STATE.HALF_OPEN],
+      [CIRCUIT_STATE.HALF_OPEN, CIRCUIT_STATE.CLOSED],
+    ]);
+    expect(onStateChange).toHaveBeenLastCalledWith({
+      name: 'primary',
+      from: CIRCUIT_STATE.HALF_OPEN,
+      to: CIRCUIT_STATE.CLOSED,
+      at: 1500,
+    });
+  });
+
+  it('should log transitions with the circuit name and failure count', async () => {
+    const logger = { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() };
+    breaker = new CircuitBreaker(
+      { failureThreshold: 2, resetTimeout: 500, name: 'primary', logger },
+      () => currentTime
+    );
+
+    await open();
+
+    expect(logger.warn).toHaveBeenCalledWith('Circuit opened', {
+      circuit: 'primary',
+      from: CIRCUIT_STATE.CLOSED,
+      circuitState: CIRCUIT_STATE.OPEN,
+      failureCount: 2,
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { EventEmitter } from '../../src/utils/EventEmitter';
+import { Logger } from '../../src/core/types';
+
+interface TestEvents {
+  sent: { id: string };
+  failed: { reason: string };
+}
+
+describe('EventEmitter', () => {
+  let emitter: EventEmitter<TestEvents>;
+  let logger: jest.Mocked<Logger>;
+
+  beforeEach(() => {
+    logger = { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() };
+    emitter = new EventEmitter<TestEvents>(logger);
+  });
+
+  it('should call listeners of the emitted event only', () => {
+    const sent = jest.fn();
+    const failed = jest.fn();
+    emitter.on('sent', sent);
+    emitter.on('failed', failed);
+
+    emitter.emit('sent', { id: 'a' });
+
+    expect(sent).toHaveBeenCalledWith({ id: 'a' });
+    expect(failed).not.toHaveBeenCalled();
+  });
+
+  it('should stop calling a listener once it unsubscribes', () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const unsubscribe = emitter.on('sent', first);
+    emitter.on('sent', second);
+
+    unsubscribe();
+    emitter.off('sent', second);
+    emitter.emit('sent', { id: 'a' });
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+    expect(emitter.listenerCount('sent')).toBe(0);
+  });
+
+  it('should keep calling listeners after one throws', () => {
+    const after = jest.fn();
+    emitter.on('sent', () => {
+      throw new Error('listener bug');
+    });
+    emitter.on('sent', after);
+
+    expect(() => emitter.emit('sent', { id: 'a' })).not.toThrow();
+    expect(after).toHaveBeenCalled();
+    expect(logger.error).toHaveBeenCalledWith('Event listener failed', {
+      event: 'sent',
+      error: expect.objectContaining({ message: 'listener bug' }),
+    });
+  });
+});
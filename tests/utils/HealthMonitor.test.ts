@@ -0,0 +1,79 @@
+import { HealthMonitor } from '../../src/utils/HealthMonitor';
+import { EmailProvider } from '../../src/core/types';
+
+describe('HealthMonitor', () => {
+  let currentTime: number;
+  let provider: jest.Mocked<EmailProvider>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    currentTime = 1000;
+    provider = {
+      name: 'primary',
+      send: jest.fn(),
+      isAvailable: jest.fn().mockResolvedValue(true),
+    };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const advance = async (ms: number) => {
+    currentTime += ms;
+    await jest.advanceTimersByTimeAsync(ms);
+  };
+
+  const createMonitor = (onHealthChange = jest.fn()) => new HealthMonitor([provider], {
+    interval: 1000,
+    timeout: 200,
+    unhealthyThreshold: 2,
+    healthyThreshold: 1,
+    onHealthChange,
+  }, () => currentTime);
+
+  it('should fail a check that does not answer within the timeout', async () => {
+    provider.isAvailable.mockReturnValue(new Promise(() => undefined));
+    const monitor = createMonitor();
+
+    const check = monitor.checkAll();
+    await advance(200);
+    await check;
+
+    expect(monitor.getHealth('primary')?.lastCheck).toEqual({
+      at: 1000,
+      ok: false,
+      latency: 200,
+      error: 'Health check timed out after 200ms',
+    });
+  });
+
+  it('should report health changes once the thresholds are met', async () => {
+    const onHealthChange = jest.fn();
+    const monitor = createMonitor(onHealthChange);
+    provider.isAvailable.mockResolvedValue(false);
+
+    await monitor.checkAll();
+    expect(onHealthChange).not.toHaveBeenCalled();
+    await monitor.checkAll();
+    expect(onHealthChange).toHaveBeenLastCalledWith({ name: 'primary', healthy: false, at: 1000 });
+    expect(monitor.isHealthy('primary')).toBe(false);
+
+    provider.isAvailable.mockResolvedValue(true);
+    await monitor.checkAll();
+    expect(onHealthChange).toHaveBeenLastCalledWith({ name: 'primary', healthy: true, at: 1000 });
+  });
+
+  it('should poll on the interval until stopped', async () => {
+    const monitor = createMonitor();
+
+    monitor.start();
+    await advance(0);
+    await advance(2000);
+    expect(provider.isAvailable).toHaveBeenCalledTimes(3);
+
+    monitor.stop();
+    await advance(5000);
+    expect(provider.isAvailable).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,95 @@
+import { JsonLogger, noopLogger } from '../../src/utils/Logger';
+import { EmailError } from '../../src/core/types';
+import { ERROR_CODES, LOG_LEVELS } from '../../src/core/constants';
+
+describe('JsonLogger', () => {
+  let lines: string[];
+  const write = (line: string) => lines.push(line);
+  const entries = () => lines.map(line => JSON.parse(line));
+
+  beforeEach(() => {
+    lines = [];
+  });
+
+  it('should write one JSON object per entry with time, level, message and context', () => {
+    const logger = new JsonLogger({ level: LOG_LEVELS.DEBUG, write }, () => 0);
+
+    logger.info('Email sent', { messageId: 'm1', provider: 'primary', attempt: 2, skipped: undefined });
+
+    expect(entries()).toEqual([
+      {
+        time: '1970-01-01T00:00:00.000Z',
+        level: LOG_LEVELS.INFO,
+        message: 'Email sent',
+        messageId: 'm1',
+        provider: 'primary',
+        attempt: 2,
+      },
+    ]);
+  });
+
+  it('should drop entries below its level', () => {
+    const logger = new JsonLogger({ level: LOG_LEVELS.WARN, write });
+
+    logger.debug('noise');
+    logger.info('noise');
+    logger.warn('kept');
+    logger.error('kept');
+
+    expect(entries().map(entry => entry.level)).toEqual([LOG_LEVELS.WARN, LOG_LEVELS.ERROR]);
+    expect(logger.isEnabled(LOG_LEVELS.INFO)).toBe(false);
+  });
+
+  it('should default to WARN', () => {
+    const logger = new JsonLogger({ write });
+
+    logger.info('noise');
+    logger.warn('kept');
+
+    expect(lines).toHaveLength(1);
+  });
+
+  it('should serialize errors with their code and category', () => {
+    const logger = new JsonLogger({ write });
+
+    logger.error('Provider failed to send', {
+      error: new EmailError('Mailbox unavailable', ERROR_CODES.RECIPIENT_REJECTED),
+    });
+
+    expect(entries()[0].error).toEqual({
+      name: 'EmailError',
+      message: 'Mailbox unavailable',
+      code: ERROR_CODES.RECIPIENT_REJECTED,
+      category: 'permanent',
+    });
+  });
+
+  it('should add child context to every entry, letting entry fields win', () => {
+    const logger = new JsonLogger({ write, context: { service: 'mail' } }).child({ component: 'queue' });
+
+    logger.warn('Queue is full', { component: 'lane' });
+
+    expect(entries()[0]).toMatchObject({ service: 'mail', component: 'lane' });
+  });
+
+  it('should swallow failures from the sink', () => {
+    const logger = new JsonLogger({
+      write: () => {
+        throw new Error('disk full');
+      },
+    });
+
+    expect(() => logger.error('lost')).not.toThrow();
+  });
+});
+
+describe('noopLogger', () => {
+  it('should accept entries without writing anything', () => {
+    const consoleError = jest.spyOn(console, 'error');
+
+    noopLogger.error('ignored', { messageId: 'm1' });
+
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
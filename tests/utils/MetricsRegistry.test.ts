@@ -0,0 +1,81 @@
+import { MetricsRegistry } from '../../src/utils/MetricsRegistry';
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  it('should count per label set', () => {
+    const counter = registry.counter('sent_total', 'Messages sent');
+
+    counter.inc({ provider: 'a' });
+    counter.inc({ provider: 'a' }, 2);
+    counter.inc({ provider: 'b' });
+
+    expect(counter.get({ provider: 'a' })).toBe(3);
+    expect(counter.get({ provider: 'b' })).toBe(1);
+    expect(counter.get({ provider: 'c' })).toBe(0);
+  });
+
+  it('should refuse to decrease a counter', () => {
+    expect(() => registry.counter('sent_total').inc({}, -1)).toThrow('can only go up');
+  });
+
+  it('should return the registered metric for a known name and reject a different type', () => {
+    const counter = registry.counter('sent_total', 'Messages sent');
+
+    expect(registry.counter('sent_total')).toBe(counter);
+    expect(() => registry.gauge('sent_total')).toThrow('already registered as a counter');
+  });
+
+  it('should set and adjust gauges', () => {
+    const gauge = registry.gauge('queue_size');
+
+    gauge.set({}, 5);
+    gauge.inc({}, -2);
+
+    expect(gauge.get()).toBe(3);
+  });
+
+  it('should put histogram observations into cumulative buckets', () => {
+    const histogram = registry.histogram('latency_seconds', 'Latency', [0.1, 1]);
+
+    histogram.observe({ provider: 'a' }, 0.05);
+    histogram.observe({ provider: 'a' }, 0.5);
+    histogram.observe({ provider: 'a' }, 3);
+
+    const snapshot = registry.snapshot();
+    expect(snapshot.get('latency_seconds_bucket{provider="a",le="0.1"}')).toBe(1);
+    expect(snapshot.get('latency_seconds_bucket{provider="a",le="1"}')).toBe(2);
+    expect(snapshot.get('latency_seconds_bucket{provider="a",le="+Inf"}')).toBe(3);
+    expect(snapshot.get('latency_seconds_count{provider="a"}')).toBe(3);
+    expect(histogram.getSum({ provider: 'a' })).toBeCloseTo(3.55);
+  });
+
+  it('should render the Prometheus text format', () => {
+    registry.counter('sent_total', 'Messages sent').inc({ provider: 'a', code: 'say "hi"\n' });
+    registry.gauge('queue_size').set({}, 2);
+    registry.histogram('latency_seconds', 'Latency', [0.5]).observe({}, 0.25);
+
+    expect(registry.render()).toBe([
+      '# HELP sent_total Messages sent',
+      '# TYPE sent_total counter',
+      'sent_total{provider="a",code="say \\"hi\\"\\n"} 1',
+      '# TYPE queue_size gauge',
+      'queue_size 2',
+      '# HELP latency_seconds Latency',
+      '# TYPE latency_seconds histogram',
+      'latency_seconds_bucket{le="0.5"} 1',
+      'latency_seconds_bucket{le="+Inf"} 1',
+      'latency_seconds_sum 0.25',
+      'latency_seconds_count 1',
+      '',
+    ].join('\n'));
+  });
+
+  it('should render nothing when empty', () => {
+    expect(registry.render()).toBe('');
+  });
+});
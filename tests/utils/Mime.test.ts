@@ -0,0 +1,141 @@
+import { buildMime, encodeHeaderValue, encodeQuotedPrintable, messageIdOf } from '../../src/utils/Mime';
+import { EmailMessage } from '../../src/core/types';
+
+describe('Mime', () => {
+  const date = new Date(Date.UTC(2026, 9, 19, 9, 30, 0));
+  const createMessage = (fields: Partial<EmailMessage> = {}): EmailMessage => ({
+    id: 'mime-1',
+    from: { name: 'Example Support', address: 'support@example.com' },
+    to: [{ address: 'jane@example.com' }],
+    subject: 'Test Subject',
+    body: 'Hello\nWorld',
+    ...fields,
+  });
+  const build = (fields: Partial<EmailMessage> = {}) =>
+    buildMime(createMessage(fields), { hostname: 'mail.example.com', date });
+  const headersOf = (mime: string) => mime.slice(0, mime.indexOf('\r\n\r\n'));
+  const boundaryOf = (headers: string) => /boundary="([^"]+)"/.exec(headers)![1];
+  // The parts of a multipart body, each as its raw headers and body
+  const partsOf = (mime: string) => {
+    const boundary = boundaryOf(headersOf(mime));
+    const body = mime.slice(mime.indexOf('\r\n\r\n') + 4);
+    return body
+      .split(`--${boundary}`)
+      .slice(1, -1)
+      .map(part => part.replace(/^\r\n/, '').replace(/\r\n$/, ''));
+  };
+  const decodeQuotedPrintable = (text: string) =>
+    Buffer.from(
+      text
+        .replace(/=\r\n/g, '')
+        .replace(/=([0-9A-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+      'latin1'
+    ).toString('utf8');
+  const decodeWords = (value: string) =>
+    value
+      .split('\r\n ')
+      .map(word => Buffer.from(/^=\?UTF-8\?B\?(.*)\?=$/.exec(word)![1], 'base64').toString('utf8'))
+      .join('');
+
+  it('should write a plain-text message with CRLF line breaks', () => {
+    const mime = build({ bcc: [{ address: 'audit@example.com' }], headers: { 'X-Entity-Ref-ID': 'ref-42' } });
+
+    expect(headersOf(mime).split('\r\n')).toEqual([
+      'From: Example Support <support@example.com>',
+      'To: jane@example.com',
+      'Subject: Test Subject',
+      'Date: Mon, 19 Oct 2026 09:30:00 +0000',
+      'Message-ID: <mime-1@mail.example.com>',
+      'X-Entity-Ref-ID: ref-42',
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 7bit',
+    ]);
+    expect(mime.endsWith('\r\n\r\nHello\r\nWorld')).toBe(true);
+    expect(mime).not.toContain('audit@example.com');
+  });
+
+  it('should encode non-ASCII subjects and display names as encoded-words', () => {
+    const subject = 'Ihre Bestellung ist unterwegs — größer als erwartet 📦 und noch ein wenig länger';
+    const mime = build({ subject, from: { name: 'Zoë Support', address: 'support@example.com' } });
+    const headers = headersOf(mime);
+
+    const encodedSubject = /^Subject: ((?:.|\r\n )+)$/m.exec(headers)![1];
+    expect(decodeWords(encodedSubject)).toBe(subject);
+    for (const word of encodedSubject.split('\r\n ')) {
+      expect(word.length).toBeLessThanOrEqual(75);
+    }
+    expect(headers).toContain(`From: ${encodeHeaderValue('Zoë Support')} <support@example.com>`);
+    expect(encodeHeaderValue('Plain')).toBe('Plain');
+  });
+
+  it('should use quoted-printable for non-ASCII text and keep lines within 76 characters', () => {
+    const text = `Grüße = regards \n${'long line '.repeat(20)}\ntrailing space `;
+    const encoded = encodeQuotedPrintable(text);
+
+    for (const line of encoded.split('\r\n')) {
+      expect(line.length).toBeLessThanOrEqual(76);
+      expect(line).not.toMatch(/[ \t]$/);
+    }
+    expect(encoded).toContain('Gr=C3=BC=C3=9Fe =3D regards=20');
+    expect(decodeQuotedPrintable(encoded)).toBe(text.replace(/\n/g, '\r\n'));
+
+    const mime = build({ body: 'Grüße' });
+    expect(headersOf(mime)).toContain('Content-Transfer-Encoding: quoted-printable');
+    expect(mime.endsWith('\r\n\r\nGr=C3=BC=C3=9Fe')).toBe(true);
+  });
+
+  it('should nest HTML, inline images and attachments', () => {
+    const pdf = Buffer.alloc(200, 7).toString('base64');
+    const mime = build({
+      html: '<p>Hello <img src="cid:logo@example.com"></p>',
+      attachments: [
+        { filename: 'logo.png', contentType: 'image/png', content: 'iVBORw0KGgo=', contentId: 'logo@example.com' },
+        { filename: 'Rechnung März.pdf', contentType: 'application/pdf', content: pdf },
+      ],
+    });
+
+    expect(headersOf(mime)).toMatch(/Content-Type: multipart\/mixed; boundary="[^"]+"$/);
+    const [content, attachment] = partsOf(mime);
+    expect(content).toMatch(/^Content-Type: multipart\/alternative/);
+    const [text, related] = partsOf(content);
+    expect(text).toBe('Content-Type: text/plain; charset=utf-8\r\nContent-Transfer-Encoding: 7bit\r\n\r\nHello\r\nWorld');
+    expect(related).toMatch(/^Content-Type: multipart\/related/);
+    const [html, image] = partsOf(related);
+    expect(html).toContain('Content-Type: text/html; charset=utf-8');
+    expect(image.split('\r\n\r\n')[0].split('\r\n')).toEqual([
+      'Content-Type: image/png',
+      'Content-Transfer-Encoding: base64',
+      'Content-Disposition: inline; filename="logo.png"',
+      'Content-ID: <logo@example.com>',
+    ]);
+
+    const [attachmentHeaders, attachmentBody] = attachment.split('\r\n\r\n');
+    expect(attachmentHeaders).toContain("Content-Disposition: attachment; filename*=UTF-8''Rechnung%20M%C3%A4rz.pdf");
+    expect(attachmentBody.split('\r\n').every(line => line.length <= 76)).toBe(true);
+    expect(attachmentBody.replace(/\r\n/g, '')).toBe(pdf);
+  });
+
+  it('should treat inline parts of a message without HTML as attachments', () => {
+    const mime = build({
+      attachments: [{ filename: 'logo.png', contentType: 'image/png', content: 'iVBORw0KGgo=', contentId: 'logo' }],
+    });
+
+    const [text, image] = partsOf(mime);
+    expect(text).toMatch(/^Content-Type: text\/plain/);
+    expect(image).toContain('Content-Disposition: attachment; filename="logo.png"');
+  });
+
+  it('should write threading headers and a stable Message-ID', () => {
+    const headers = headersOf(build({
+      id: 'order 42/confirm',
+      inReplyTo: 'thread-2@example.com',
+      references: ['<thread-1@example.com>', 'thread-2@example.com'],
+    }));
+
+    expect(headers).toContain('Message-ID: <order-42/confirm@mail.example.com>');
+    expect(headers).toContain('In-Reply-To: <thread-2@example.com>');
+    expect(headers).toContain('References: <thread-1@example.com>\r\n <thread-2@example.com>');
+    expect(messageIdOf(createMessage(), 'mail.example.com')).toBe('<mime-1@mail.example.com>');
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  PriorityFailoverSelector,
+  WeightedRoundRobinSelector,
+  LeastLatencySelector,
+  LowestCostSelector,
+  createProviderSelector,
+} from '../../src/utils/ProviderSelector';
+import { EmailMessage, EmailProvider, ProviderSelector } from '../../src/core/types';
+
+describe('ProviderSelector', () => {
+  const provider = (name: string): EmailProvider => ({
+    name,
+    send: jest.fn(),
+    isAvailable: jest.fn().mockResolvedValue(true),
+  });
+  const primary = provider('primary');
+  const secondary = provider('secondary');
+  const tertiary = provider('tertiary');
+  const providers = [primary, secondary, tertiary];
+  const message: EmailMessage = {
+    id: 'message-1',
+    to: [{ address: 'to@example.com' }],
+    from: { address: 'from@example.com' },
+    subject: 'Subject',
+    body: 'Body',
+  };
+  const names = (selected: EmailProvider[]) => selected.map(({ name }) => name);
+
+  it('should keep the configured order for priority failover', () => {
+    const selector = new PriorityFailoverSelector();
+
+    expect(names(selector.select(providers))).toEqual(['primary', 'secondary', 'tertiary']);
+  });
+
+  it('should lead with providers in proportion to their weights', () => {
+    const selector = new WeightedRoundRobinSelector({ primary: 3, secondary: 1, tertiary: 0 });
+
+    const leaders = Array.from({ length: 8 }, () => selector.select(providers)[0].name);
+
+    expect(leaders.filter(name => name === 'primary')).toHaveLength(6);
+    expect(leaders.filter(name => name === 'secondary')).toHaveLength(2);
+    // Picks are interleaved rather than sent in runs
+    expect(leaders.slice(0, 4)).toContain('secondary');
+  });
+
+  it('should keep the other providers as failovers behind the weighted pick', () => {
+    const selector = new WeightedRoundRobinSelector();
+
+    expect(names(selector.select(providers))).toEqual(['primary', 'secondary', 'tertiary']);
+    expect(names(selector.select(providers))).toEqual(['secondary', 'primary', 'tertiary']);
+    expect(names(selector.select(providers))).toEqual(['tertiary', 'primary', 'secondary']);
+  });
+
+  it('should try unmeasured providers first, then the fastest', () => {
+    const selector = new LeastLatencySelector(0.5);
+    selector.recordResult('primary', { ok: true, latency: 300 });
+    selector.recordResult('secondary', { ok: true, latency: 100 });
+
+    expect(names(selector.select(providers))).toEqual(['tertiary', 'secondary', 'primary']);
+  });
+
+  it('should smooth latency samples and ignore failed attempts', () => {
+    const selector = new LeastLatencySelector(0.5);
+    selector.recordResult('primary', { ok: true, latency: 100 });
+    selector.recordResult('primary', { ok: true, latency: 300 });
+    selector.recordResult('primary', { ok: false, latency: 5000 });
+
+    expect(selector.getLatency('primary')).toBe(200);
+  });
+
+  it('should prefer the cheapest provider and put unpriced ones last', () => {
+    const selector = new LowestCostSelector({ primary: 0.002, tertiary: 0.001 });
+
+    expect(names(selector.select(providers))).toEqual(['tertiary', 'primary', 'secondary']);
+  });
+
+  it('should build the configured strategy, or use a custom selector as given', () => {
+    const custom: ProviderSelector = { select: candidates => [...candidates].reverse() };
+
+    expect(createProviderSelector()).toBeInstanceOf(PriorityFailoverSelector);
+    expect(createProviderSelector({ strategy: 'lowest-cost' })).toBeInstanceOf(LowestCostSelector);
+    expect(createProviderSelector({ strategy: 'least-latency', selector: custom })).toBe(custom);
+    expect(names(custom.select(providers, message))).toEqual(['tertiary', 'secondary', 'primary']);
+  });
+});
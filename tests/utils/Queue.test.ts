@@ -0,0 +1,746 @@
+import { Queue } from '../../src/utils/Queue';
+import { InMemoryQueueStore } from '../../src/stores/InMemoryQueueStore';
+import { EmailMessage, EmailPriority, EmailStatus } from '../../src/core/types';
+import { EMAIL_STATUS } from '../../src/core/constants';
+import { BasicTracer, InMemorySpanExporter } from '../../src/utils/Tracing';
+
+describe('Queue', () => {
+  let store: InMemoryQueueStore;
+  let queue: Queue;
+  const createMessage = (
+    id: string,
+    priority?: EmailPriority,
+    to = 'test@example.com'
+  ): EmailMessage => ({
+    id,
+    to: [{ address: to }],
+    from: { address: 'sender@example.com' },
+    subject: 'Test Subject',
+    body: 'Test Body',
+    priority,
+  });
+  const sentStatus = (message: EmailMessage): EmailStatus => ({
+    messageId: message.id,
+    status: EMAIL_STATUS.SENT,
+    provider: 'test',
+    attempts: 1,
+    lastAttempt: new Date(0),
+  });
+
+  beforeEach(() => {
+    store = new InMemoryQueueStore();
+    queue = new Queue({ maxAttempts: 2, store }, () => 1000);
+  });
+
+  describe('enqueue', () => {
+    it('should process messages in FIFO order', async () => {
+      const processed: string[] = [];
+      const processor = jest.fn(async (message: EmailMessage) => {
+        processed.push(message.id);
+        return sentStatus(message);
+      });
+
+      await Promise.all([
+        queue.enqueue(createMessage('a'), processor),
+        queue.enqueue(createMessage('b'), processor),
+        queue.enqueue(createMessage('c'), processor),
+      ]);
+
+      expect(processed).toEqual(['a', 'b', 'c']);
+      expect(queue.getQueueLength()).toBe(0);
+    });
+
+    it('should keep processing messages enqueued after the queue drained', async () => {
+      const processor = jest.fn(async (message: EmailMessage) => sentStatus(message));
+
+      await queue.enqueue(createMessage('a'), processor);
+      await expect(queue.enqueue(createMessage('b'), processor)).resolves.toMatchObject({
+        messageId: 'b',
+      });
+    });
+
+    it('should persist the message until it is delivered', async () => {
+      let storedDuringSend: string[] = [];
+      const processor = jest.fn(async (message: EmailMessage) => {
+        storedDuringSend = (await store.load()).map(record => record.message.id);
+        return sentStatus(message);
+      });
+
+      await queue.enqueue(createMessage('a'), processor);
+
+      expect(storedDuringSend).toEqual(['a']);
+      expect(await store.load()).toEqual([]);
+    });
+
+    it('should retry a failing message and record attempts in the store', async () => {
+      const attemptsSeen: number[] = [];
+      const processor = jest.fn(async (message: EmailMessage) => {
+        const [record] = await store.load();
+        attemptsSeen.push(record.attempts);
+        if (attemptsSeen.length < 3) {
+          throw new Error('Provider failed');
+        }
+        return sentStatus(message);
+      });
+
+      await expect(queue.enqueue(createMessage('a'), processor)).resolves.toMatchObject({
+        messageId: 'a',
+      });
+      expect(attemptsSeen).toEqual([0, 1, 2]);
+    });
+
+    it('should reject and drop the message once attempts are exhausted', async () => {
+      const processor = jest.fn(async () => {
+        throw new Error('Provider failed');
+      });
+
+      await expect(queue.enqueue(createMessage('a'), processor)).rejects.toThrow('Provider failed');
+      expect(processor).toHaveBeenCalledTimes(3);
+      expect(await store.load()).toEqual([]);
+    });
+
+    it('should not retry errors marked as not retryable', async () => {
+      const processor = jest.fn(async () => {
+        throw Object.assign(new Error('Mailbox does not exist'), { retryable: false });
+      });
+
+      await expect(queue.enqueue(createMessage('a'), processor)).rejects.toThrow('Mailbox does not exist');
+      expect(processor).toHaveBeenCalledTimes(1);
+      expect(await store.load()).toEqual([]);
+    });
+
+    it('should hand a message that failed for good to the dead-letter hook before dropping it', async () => {
+      let storedDuringHook: string[] = [];
+      const onDeadLetter = jest.fn(async () => {
+        storedDuringHook = (await store.load()).map(record => record.message.id);
+      });
+      queue = new Queue({ maxAttempts: 2, store, onDeadLetter }, () => 1000);
+      const error = new Error('Provider failed');
+
+      await expect(queue.enqueue(createMessage('a'), async () => { throw error; })).rejects.toBe(error);
+
+      expect(onDeadLetter).toHaveBeenCalledTimes(1);
+      expect(onDeadLetter).toHaveBeenCalledWith(
+        expect.objectContaining({ message: expect.objectContaining({ id: 'a' }), attempts: 2 }),
+        error
+      );
+      expect(storedDuringHook).toEqual(['a']);
+      expect(await store.load()).toEqual([]);
+    });
+
+    it('should still reject the message when the dead-letter hook fails', async () => {
+      const logger = { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() };
+      const onDeadLetter = jest.fn(async () => {
+        throw new Error('store offline');
+      });
+      queue = new Queue({ maxAttempts: 0, store, onDeadLetter, logger }, () => 1000);
+
+      await expect(
+        queue.enqueue(createMessage('a'), async () => { throw new Error('Provider failed'); })
+      ).rejects.toThrow('Provider failed');
+
+      expect(logger.error).toHaveBeenCalledWith('Failed to dead-letter message', {
+        messageId: 'a',
+        error: expect.objectContaining({ message: 'store offline' }),
+      });
+      expect(await store.load()).toEqual([]);
+    });
+  });
+
+  describe('restore', () => {
+    it('should deliver records left in the store by a previous process', async () => {
+      await store.add({ message: createMessage('a'), attempts: 1, enqueuedAt: 500 });
+      await store.add({ message: createMessage('b'), attempts: 0, enqueuedAt: 600 });
+      const processor = jest.fn(async (message: EmailMessage) => sentStatus(message));
+
+      const restored = await queue.restore(processor);
+      const statuses = await Promise.all(restored.map(({ delivery }) => delivery));
+
+      expect(statuses.map(status => status.messageId)).toEqual(['a', 'b']);
+      expect(processor).toHaveBeenCalledTimes(2);
+      expect(await store.load()).toEqual([]);
+    });
+
+    it('should not queue a record twice when restore runs more than once', async () => {
+      await store.add({ message: createMessage('a'), attempts: 0, enqueuedAt: 500 });
+      let release: () => void = () => undefined;
+      const processor = jest.fn(
+        (message: EmailMessage) =>
+          new Promise<EmailStatus>(resolve => {
+            release = () => resolve(sentStatus(message));
+          })
+      );
+
+      const first = await queue.restore(processor);
+      const second = await queue.restore(processor);
+      release();
+      await Promise.all(first.map(({ delivery }) => delivery));
+
+      expect(first).toHaveLength(1);
+      expect(second).toHaveLength(0);
+      expect(processor).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('priority lanes', () => {
+    // Holds the first message in flight so the rest pile up in their lanes
+    const createGatedProcessor = (processed: string[]) => {
+      let open: () => void = () => undefined;
+      const gate = new Promise<void>(resolve => (open = resolve));
+      const processor = jest.fn(async (message: EmailMessage) => {
+        if (message.id === 'gate') {
+          await gate;
+        }
+        processed.push(message.id);
+        return sentStatus(message);
+      });
+      return { processor, open: () => open() };
+    };
+
+    it('should serve higher lanes first', async () => {
+      const processed: string[] = [];
+      const { processor, open } = createGatedProcessor(processed);
+
+      const deliveries = [queue.enqueue(createMessage('gate'), processor)];
+      deliveries.push(queue.enqueue(createMessage('low-1', 'low'), processor));
+      deliveries.push(queue.enqueue(createMessage('normal-1'), processor));
+      deliveries.push(queue.enqueue(createMessage('high-1', 'high'), processor));
+      await new Promise(resolve => setImmediate(resolve));
+      open();
+      await Promise.all(deliveries);
+
+      expect(processed).toEqual(['gate', 'high-1', 'normal-1', 'low-1']);
+    });
+
+    it('should not starve lower lanes while higher lanes are busy', async () => {
+      queue = new Queue({ maxAttempts: 0, store, priorityWeights: { high: 3, normal: 1, low: 1 } });
+      const processed: string[] = [];
+      const { processor, open } = createGatedProcessor(processed);
+
+      const deliveries = [queue.enqueue(createMessage('gate'), processor)];
+      for (let n = 0; n < 6; n++) {
+        deliveries.push(queue.enqueue(createMessage(`high-${n}`, 'high'), processor));
+      }
+      deliveries.push(queue.enqueue(createMessage('low-0', 'low'), processor));
+      await new Promise(resolve => setImmediate(resolve));
+      open();
+      await Promise.all(deliveries);
+
+      // With weights 3:1 the low message goes out after at most three high ones
+      expect(processed.indexOf('low-0')).toBeLessThanOrEqual(4);
+    });
+
+    it('should report queue depth per lane', async () => {
+      const processed: string[] = [];
+      const { processor, open } = createGatedProcessor(processed);
+
+      const deliveries = [queue.enqueue(createMessage('gate'), processor)];
+      deliveries.push(queue.enqueue(createMessage('high-1', 'high'), processor));
+      deliveries.push(queue.enqueue(createMessage('high-2', 'high'), processor));
+      deliveries.push(queue.enqueue(createMessage('low-1', 'low'), processor));
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(queue.getQueueDepthByLane()).toEqual({ high: 2, normal: 0, low: 1 });
+      open();
+      await Promise.all(deliveries);
+      expect(queue.getQueueDepthByLane()).toEqual({ high: 0, normal: 0, low: 0 });
+    });
+  });
+
+  describe('concurrency', () => {
+    // Each send stays in flight until the test releases it
+    const createControlledProcessor = () => {
+      const pending = new Map<string, { resolve: () => void; reject: (error: Error) => void }>();
+      const processor = jest.fn(
+        (message: EmailMessage) =>
+          new Promise<EmailStatus>((resolve, reject) => {
+            pending.set(message.id, {
+              resolve: () => resolve(sentStatus(message)),
+              reject,
+            });
+          })
+      );
+      return { processor, pending };
+    };
+    const tick = () => new Promise(resolve => setImmediate(resolve));
+
+    it('should run up to the configured number of sends at once', async () => {
+      queue = new Queue({ maxAttempts: 0, store, concurrency: 2 });
+      const { processor, pending } = createControlledProcessor();
+
+      const deliveries = ['a', 'b', 'c'].map(id => queue.enqueue(createMessage(id), processor));
+      await tick();
+      expect(Array.from(pending.keys())).toEqual(['a', 'b']);
+      expect(queue.getInFlightCount()).toBe(2);
+
+      pending.get('a')!.resolve();
+      await deliveries[0];
+      await tick();
+      expect(Array.from(pending.keys())).toEqual(['a', 'b', 'c']);
+
+      pending.get('b')!.resolve();
+      pending.get('c')!.resolve();
+      await Promise.all(deliveries);
+      expect(queue.getQueueLength()).toBe(0);
+    });
+
+    it('should keep sends to the same recipient in order when requested', async () => {
+      queue = new Queue({ maxAttempts: 1, store, concurrency: 3, preserveRecipientOrder: true });
+      const { processor, pending } = createControlledProcessor();
+
+      const deliveries = [
+        queue.enqueue(createMessage('alice-1', undefined, 'alice@example.com'), processor),
+        queue.enqueue(createMessage('alice-2', undefined, 'ALICE@example.com'), processor),
+        queue.enqueue(createMessage('bob-1', undefined, 'bob@example.com'), processor),
+      ];
+      await tick();
+      expect(Array.from(pending.keys())).toEqual(['alice-1', 'bob-1']);
+
+      // A retried message still goes out before the next one to the same recipient
+      pending.get('alice-1')!.reject(new Error('Provider failed'));
+      pending.delete('alice-1');
+      await tick();
+      await tick();
+      expect(Array.from(pending.keys())).toEqual(['bob-1', 'alice-1']);
+
+      pending.get('alice-1')!.resolve();
+      pending.get('bob-1')!.resolve();
+      await tick();
+      await tick();
+      expect(Array.from(pending.keys())).toEqual(['bob-1', 'alice-1', 'alice-2']);
+
+      pending.get('alice-2')!.resolve();
+      await Promise.all(deliveries);
+    });
+
+    it('should hold back a later send behind a waiting message that shares a recipient', async () => {
+      queue = new Queue({ maxAttempts: 0, store, concurrency: 3, preserveRecipientOrder: true });
+      const { processor, pending } = createControlledProcessor();
+      const toBoth: EmailMessage = {
+        ...createMessage('both'),
+        to: [{ address: 'x@example.com' }, { address: 'y@example.com' }],
+      };
+
+      const deliveries = [
+        queue.enqueue(createMessage('x-1', undefined, 'x@example.com'), processor),
+        queue.enqueue(toBoth, processor),
+        queue.enqueue(createMessage('y-1', undefined, 'y@example.com'), processor),
+      ];
+      await tick();
+      expect(Array.from(pending.keys())).toEqual(['x-1']);
+
+      pending.get('x-1')!.resolve();
+      await tick();
+      await tick();
+      expect(Array.from(pending.keys())).toEqual(['x-1', 'both']);
+
+      pending.get('both')!.resolve();
+      await tick();
+      await tick();
+      pending.get('y-1')!.resolve();
+      await Promise.all(deliveries);
+    });
+
+    it('should reject waiting messages on clear and let in-flight sends finish', async () => {
+      const { processor, pending } = createControlledProcessor();
+
+      const inFlight = queue.enqueue(createMessage('a'), processor);
+      const waiting = queue.enqueue(createMessage('b'), processor);
+      await tick();
+
+      queue.clear(new Error('cleared'));
+      await expect(waiting).rejects.toThrow('cleared');
+      expect(queue.getQueueLength()).toBe(1);
+
+      pending.get('a')!.resolve();
+      await expect(inFlight).resolves.toMatchObject({ messageId: 'a' });
+      expect(processor).toHaveBeenCalledTimes(1);
+      expect(await store.load()).toEqual([]);
+    });
+
+    it('should not retry a send that fails after the queue was cleared', async () => {
+      const { processor, pending } = createControlledProcessor();
+
+      const delivery = queue.enqueue(createMessage('a'), processor);
+      await tick();
+      queue.clear();
+
+      pending.get('a')!.reject(new Error('Provider failed'));
+      await expect(delivery).rejects.toThrow('Provider failed');
+      expect(processor).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not dead-letter a send that fails after the queue was cleared', async () => {
+      const onDeadLetter = jest.fn();
+      queue = new Queue({ maxAttempts: 0, store, onDeadLetter });
+      const { processor, pending } = createControlledProcessor();
+
+      const delivery = queue.enqueue(createMessage('a'), processor);
+      await tick();
+      queue.clear();
+
+      pending.get('a')!.reject(new Error('Provider failed'));
+      await expect(delivery).rejects.toThrow('Provider failed');
+      expect(onDeadLetter).not.toHaveBeenCalled();
+    });
+
+    it('should resolve drain once ready and in-flight messages are done', async () => {
+      queue = new Queue({ maxAttempts: 0, store, concurrency: 2 });
+      const { processor, pending } = createControlledProcessor();
+      const drained = jest.fn();
+
+      const deliveries = ['a', 'b', 'c'].map(id => queue.enqueue(createMessage(id), processor));
+      await tick();
+      queue.drain().then(drained);
+      pending.get('a')!.resolve();
+      pending.get('b')!.resolve();
+      await tick();
+      await tick();
+      expect(drained).not.toHaveBeenCalled();
+
+      pending.get('c')!.resolve();
+      await Promise.all(deliveries);
+      await tick();
+      expect(drained).toHaveBeenCalled();
+      await expect(queue.drain()).resolves.toBeUndefined();
+    });
+
+    it('should report and wait for a message whose record is still being stored', async () => {
+      queue = new Queue({ maxAttempts: 0, store });
+      const { processor, pending } = createControlledProcessor();
+      const drained = jest.fn();
+
+      let finishAdd = () => {};
+      const add = store.add.bind(store);
+      jest.spyOn(store, 'add').mockImplementationOnce(
+        record => new Promise<void>(resolve => { finishAdd = () => add(record).then(resolve); })
+      );
+      const delivery = queue.enqueue(createMessage('a'), processor);
+      await tick();
+      expect(queue.has('a')).toBe(true);
+      queue.drain().then(drained);
+      await tick();
+      expect(drained).not.toHaveBeenCalled();
+
+      finishAdd();
+      await tick();
+      await tick();
+      pending.get('a')!.resolve();
+      await delivery;
+      await tick();
+      expect(drained).toHaveBeenCalled();
+      expect(queue.has('a')).toBe(false);
+    });
+  });
+
+  describe('capacity', () => {
+    // Keeps the first message in flight so later ones stay queued
+    const createBlockedProcessor = () => {
+      const releases: (() => void)[] = [];
+      const processor = jest.fn(
+        (message: EmailMessage) =>
+          new Promise<EmailStatus>(resolve => releases.push(() => resolve(sentStatus(message))))
+      );
+      const releaseAll = async () => {
+        while (releases.length > 0 || queue.getQueueLength() > 0) {
+          releases.splice(0).forEach(release => release());
+          await new Promise(resolve => setImmediate(resolve));
+        }
+      };
+      return { processor, releaseAll };
+    };
+    const tick = () => new Promise(resolve => setImmediate(resolve));
+
+    it('should reject messages beyond the maximum size', async () => {
+      queue = new Queue({ maxAttempts: 0, store, maxSize: 2 });
+      const { processor, releaseAll } = createBlockedProcessor();
+
+      const deliveries = [
+        queue.enqueue(createMessage('a'), processor),
+        queue.enqueue(createMessage('b'), processor),
+      ];
+      await expect(queue.enqueue(createMessage('c'), processor)).rejects.toThrow('QUEUE_FULL');
+      expect(await store.load()).toHaveLength(2);
+
+      await tick();
+      await releaseAll();
+      await Promise.all(deliveries);
+
+      const later = queue.enqueue(createMessage('d'), processor);
+      await tick();
+      await releaseAll();
+      await expect(later).resolves.toMatchObject({ messageId: 'd' });
+    });
+
+    it('should let senders wait for space when the wait policy is set', async () => {
+      queue = new Queue({ maxAttempts: 0, store, maxSize: 1, overflowPolicy: 'wait' });
+      const { processor, releaseAll } = createBlockedProcessor();
+
+      const first = queue.enqueue(createMessage('a'), processor);
+      const second = queue.enqueue(createMessage('b'), processor);
+      await tick();
+      expect(queue.getQueueLength()).toBe(1);
+
+      expect(processor).toHaveBeenCalledTimes(1);
+
+      await releaseAll();
+      await expect(Promise.all([first, second])).resolves.toHaveLength(2);
+      expect(processor).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up waiting after the overflow timeout', async () => {
+      jest.useFakeTimers();
+      try {
+        queue = new Queue({
+          maxAttempts: 0,
+          store,
+          maxSize: 1,
+          overflowPolicy: 'wait',
+          overflowTimeout: 1000,
+        });
+        const { processor } = createBlockedProcessor();
+
+        queue.enqueue(createMessage('a'), processor);
+        const waiting = queue.enqueue(createMessage('b'), processor);
+        const outcome = expect(waiting).rejects.toThrow('QUEUE_FULL');
+        await jest.advanceTimersByTimeAsync(1000);
+        await outcome;
+        expect(queue.getQueueLength()).toBe(1);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should shed the newest lowest-priority message for a more urgent one', async () => {
+      queue = new Queue({ maxAttempts: 0, store, maxSize: 3, overflowPolicy: 'shed-lowest-priority' });
+      const { processor, releaseAll } = createBlockedProcessor();
+
+      const gate = queue.enqueue(createMessage('gate', 'high'), processor);
+      const low1 = queue.enqueue(createMessage('low-1', 'low'), processor);
+      const low2 = queue.enqueue(createMessage('low-2', 'low'), processor);
+      await tick();
+
+      const high = queue.enqueue(createMessage('high-1', 'high'), processor);
+      await expect(low2).rejects.toThrow('QUEUE_SHED');
+      // Nothing below normal is left to displace for a low message
+      await expect(queue.enqueue(createMessage('low-3', 'low'), processor)).rejects.toThrow('QUEUE_FULL');
+
+      await releaseAll();
+      await expect(Promise.all([gate, low1, high])).resolves.toHaveLength(3);
+      expect((await store.load()).map(record => record.message.id)).toEqual([]);
+    });
+
+    it('should shed the oldest waiting message', async () => {
+      let currentTime = 0;
+      queue = new Queue({ maxAttempts: 0, store, maxSize: 3, overflowPolicy: 'shed-oldest' }, () => currentTime++);
+      const { processor, releaseAll } = createBlockedProcessor();
+
+      const gate = queue.enqueue(createMessage('gate'), processor);
+      const oldest = queue.enqueue(createMessage('old', 'high'), processor);
+      const newer = queue.enqueue(createMessage('newer', 'low'), processor);
+      await tick();
+
+      const latest = queue.enqueue(createMessage('latest'), processor);
+      await expect(oldest).rejects.toThrow('QUEUE_SHED');
+
+      await releaseAll();
+      await expect(Promise.all([gate, newer, latest])).resolves.toHaveLength(3);
+    });
+
+    it('should track the high-water mark', async () => {
+      const { processor, releaseAll } = createBlockedProcessor();
+
+      const deliveries = ['a', 'b', 'c'].map(id => queue.enqueue(createMessage(id), processor));
+      await tick();
+      await releaseAll();
+      await Promise.all(deliveries);
+
+      expect(queue.getHighWaterMark()).toBe(3);
+      queue.resetHighWaterMark();
+      expect(queue.getHighWaterMark()).toBe(0);
+    });
+  });
+
+  describe('scheduling', () => {
+    let currentTime: number;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      currentTime = 1000;
+      queue = new Queue({ maxAttempts: 2, store }, () => currentTime);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    const advance = async (ms: number) => {
+      currentTime += ms;
+      await jest.advanceTimersByTimeAsync(ms);
+    };
+
+    it('should hold a message until its send time', async () => {
+      const processor = jest.fn(async (message: EmailMessage) => sentStatus(message));
+
+      const delivery = queue.enqueue(createMessage('later'), processor, 6000);
+      await advance(4999);
+      expect(processor).not.toHaveBeenCalled();
+      expect(queue.getScheduled().map(record => record.message.id)).toEqual(['later']);
+
+      await advance(1);
+      await expect(delivery).resolves.toMatchObject({ messageId: 'later' });
+      expect(queue.getScheduled()).toEqual([]);
+    });
+
+    it('should let immediate messages overtake scheduled ones', async () => {
+      const processed: string[] = [];
+      const processor = jest.fn(async (message: EmailMessage) => {
+        processed.push(message.id);
+        return sentStatus(message);
+      });
+
+      const later = queue.enqueue(createMessage('later'), processor, 2000);
+      const now = queue.enqueue(createMessage('now'), processor);
+      await advance(0);
+      await now;
+      await advance(1000);
+      await later;
+
+      expect(processed).toEqual(['now', 'later']);
+    });
+
+    it('should release scheduled messages in send-time order', async () => {
+      const processed: string[] = [];
+      const processor = jest.fn(async (message: EmailMessage) => {
+        processed.push(message.id);
+        return sentStatus(message);
+      });
+
+      const deliveries = [
+        queue.enqueue(createMessage('third'), processor, 4000),
+        queue.enqueue(createMessage('first'), processor, 2000),
+        queue.enqueue(createMessage('second'), processor, 3000),
+      ];
+      await advance(0);
+      await advance(3000);
+      await Promise.all(deliveries);
+
+      expect(processed).toEqual(['first', 'second', 'third']);
+    });
+
+    it('should reschedule a waiting message', async () => {
+      const processor = jest.fn(async (message: EmailMessage) => sentStatus(message));
+      const delivery = queue.enqueue(createMessage('a'), processor, 10000);
+      await advance(0);
+
+      await expect(queue.reschedule('a', 3000)).resolves.toBe(true);
+      expect((await store.load())[0].notBefore).toBe(3000);
+      await advance(2000);
+
+      await expect(delivery).resolves.toMatchObject({ messageId: 'a' });
+      await expect(queue.reschedule('a', 5000)).resolves.toBe(false);
+    });
+
+    it('should keep a message queued while its reschedule is being stored', async () => {
+      const processor = jest.fn(async (message: EmailMessage) => sentStatus(message));
+      const delivery = queue.enqueue(createMessage('a'), processor, 10000);
+      await advance(0);
+
+      let finishUpdate = () => {};
+      jest.spyOn(store, 'update').mockImplementationOnce(
+        () => new Promise<void>(resolve => { finishUpdate = resolve; })
+      );
+      const rescheduled = queue.reschedule('a', 5000);
+      expect(queue.has('a')).toBe(true);
+
+      queue.clear(new Error('cleared'));
+      await expect(delivery).rejects.toThrow('cleared');
+      finishUpdate();
+      await expect(rescheduled).resolves.toBe(true);
+      await advance(5000);
+      expect(processor).not.toHaveBeenCalled();
+    });
+
+    it('should cancel a waiting message and reject its promise', async () => {
+      const processor = jest.fn(async (message: EmailMessage) => sentStatus(message));
+      const delivery = queue.enqueue(createMessage('a'), processor, 10000);
+      await advance(0);
+
+      await expect(queue.cancel('a', new Error('cancelled'))).resolves.toBe(true);
+      await expect(delivery).rejects.toThrow('cancelled');
+      expect(await store.load()).toEqual([]);
+
+      await advance(10000);
+      expect(processor).not.toHaveBeenCalled();
+    });
+
+    it('should defer a message the processor asks to retry later without using an attempt', async () => {
+      queue = new Queue({ maxAttempts: 0, store }, () => currentTime);
+      const processor = jest
+        .fn()
+        .mockRejectedValueOnce(Object.assign(new Error('throttled'), { retryAfter: 2000 }))
+        .mockImplementation(async (message: EmailMessage) => sentStatus(message));
+
+      const delivery = queue.enqueue(createMessage('a'), processor);
+      await advance(1);
+      expect(queue.getScheduled()).toEqual([
+        expect.objectContaining({ attempts: 0, notBefore: 3001 }),
+      ]);
+      expect((await store.load())[0].notBefore).toBe(3001);
+
+      await advance(2000);
+      await expect(delivery).resolves.toMatchObject({ messageId: 'a' });
+      expect(processor).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep the schedule of restored records', async () => {
+      await store.add({ message: createMessage('a'), attempts: 0, enqueuedAt: 0, notBefore: 5000 });
+      const processor = jest.fn(async (message: EmailMessage) => sentStatus(message));
+
+      const [{ delivery }] = await queue.restore(processor);
+      await advance(3000);
+      expect(processor).not.toHaveBeenCalled();
+
+      await advance(1000);
+      await expect(delivery).resolves.toMatchObject({ messageId: 'a' });
+    });
+  });
+
+  describe('tracing', () => {
+    it('should record how long each message waited for a worker', async () => {
+      let currentTime = 1000;
+      const exporter = new InMemorySpanExporter();
+      const tracer = new BasicTracer({ exporter }, () => currentTime);
+      queue = new Queue({ maxAttempts: 1, store, tracer }, () => currentTime);
+      const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+      let finishFirst: () => void = () => undefined;
+      const firstSending = new Promise<void>(resolve => (finishFirst = resolve));
+      const processor = jest.fn(async (message: EmailMessage) => {
+        if (message.id === 'a') {
+          await firstSending;
+        }
+        return sentStatus(message);
+      });
+
+      const deliveries = [
+        queue.enqueue(createMessage('a'), processor),
+        queue.enqueue({ ...createMessage('b', 'low'), metadata: { traceparent } }, processor),
+      ];
+      await new Promise(resolve => setImmediate(resolve));
+      currentTime += 250;
+      finishFirst();
+      await Promise.all(deliveries);
+
+      const [first, second] = exporter.getFinishedSpans();
+      expect(first).toMatchObject({ name: 'email.queue.wait', startTime: 1000, endTime: 1000 });
+      expect(second).toMatchObject({
+        name: 'email.queue.wait',
+        parentSpanId: '00f067aa0ba902b7',
+        startTime: 1000,
+        endTime: 1250,
+        attributes: { 'email.message_id': 'b', 'email.queue.lane': 'low', 'email.queue.attempt': 1 },
+      });
+      expect(second.spanContext.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    });
+  });
+});
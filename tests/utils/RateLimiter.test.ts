@@ -0,0 +1,216 @@
+import { RateLimiter } from '../../src/utils/RateLimiter';
+import { InMemoryRateLimiterStore } from '../../src/stores/InMemoryRateLimiterStore';
+
+describe('RateLimiter', () => {
+  let currentTime: number;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    currentTime = 1000;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const advance = async (ms: number) => {
+    currentTime += ms;
+    await jest.advanceTimersByTimeAsync(ms);
+  };
+
+  describe('sliding window', () => {
+    it('should reject requests beyond the window limit', async () => {
+      const limiter = new RateLimiter({ maxRequests: 2, timeWindow: 1000 }, () => currentTime);
+
+      await limiter.acquire();
+      await limiter.acquire();
+      await expect(limiter.acquire()).rejects.toThrow('RATE_LIMIT');
+      expect(limiter.getTimeUntilNextAvailable()).toBe(1000);
+
+      await advance(1000);
+      await expect(limiter.acquire()).resolves.toBeUndefined();
+    });
+
+    it('should measure the time until the next slot with the injected clock', async () => {
+      const limiter = new RateLimiter({ maxRequests: 1, timeWindow: 1000 }, () => currentTime);
+
+      await limiter.acquire();
+      currentTime += 400;
+
+      expect(limiter.getTimeUntilNextAvailable()).toBe(600);
+      expect(limiter.getCurrentRequestCount()).toBe(1);
+      expect(limiter.getLimit()).toBe(1);
+    });
+  });
+
+  describe('release', () => {
+    it('should give a slot back to the window', async () => {
+      const limiter = new RateLimiter({ maxRequests: 1, timeWindow: 1000 }, () => currentTime);
+
+      await limiter.acquire();
+      await limiter.release();
+
+      expect(limiter.getCurrentRequestCount()).toBe(0);
+      await expect(limiter.acquire()).resolves.toBeUndefined();
+    });
+
+    it('should return a token without exceeding the burst capacity', async () => {
+      const limiter = new RateLimiter(
+        { maxRequests: 2, timeWindow: 1000, strategy: 'token-bucket' },
+        () => currentTime
+      );
+
+      await limiter.release();
+      await limiter.acquire();
+      await limiter.release();
+      await limiter.acquire();
+      await limiter.acquire();
+      await expect(limiter.acquire()).rejects.toThrow('RATE_LIMIT');
+    });
+
+    it('should hand a returned slot to a waiting caller', async () => {
+      const limiter = new RateLimiter(
+        { maxRequests: 1, timeWindow: 1000, wait: true },
+        () => currentTime
+      );
+      const next = jest.fn();
+
+      await limiter.acquire();
+      limiter.acquire().then(next);
+      await advance(0);
+      await limiter.release();
+      await advance(0);
+
+      expect(next).toHaveBeenCalled();
+    });
+  });
+
+  describe('waiting mode', () => {
+    it('should resolve waiting callers in order as slots free up', async () => {
+      const limiter = new RateLimiter(
+        { maxRequests: 1, timeWindow: 1000, wait: true },
+        () => currentTime
+      );
+      const order: string[] = [];
+
+      await limiter.acquire();
+      const first = limiter.acquire().then(() => order.push('first'));
+      const second = limiter.acquire().then(() => order.push('second'));
+      await advance(0);
+      expect(limiter.getWaitingCount()).toBe(2);
+
+      await advance(1000);
+      expect(order).toEqual(['first']);
+      await advance(1000);
+      await Promise.all([first, second]);
+      expect(order).toEqual(['first', 'second']);
+    });
+
+    it('should give up after maxWait', async () => {
+      const limiter = new RateLimiter(
+        { maxRequests: 1, timeWindow: 1000, wait: true, maxWait: 500 },
+        () => currentTime
+      );
+
+      await limiter.acquire();
+      const waiting = expect(limiter.acquire()).rejects.toThrow('RATE_LIMIT');
+      await advance(500);
+      await waiting;
+      expect(limiter.getWaitingCount()).toBe(0);
+    });
+
+    it('should stop waiting when the signal is aborted', async () => {
+      const limiter = new RateLimiter({ maxRequests: 1, timeWindow: 1000 }, () => currentTime);
+      const controller = new AbortController();
+
+      await limiter.acquire();
+      const waiting = limiter.acquire({ wait: true, signal: controller.signal });
+      controller.abort();
+
+      await expect(waiting).rejects.toThrow('ABORTED');
+      await expect(limiter.acquire({ signal: controller.signal })).rejects.toThrow('ABORTED');
+      expect(limiter.getWaitingCount()).toBe(0);
+    });
+  });
+
+  describe('token bucket', () => {
+    it('should allow a burst up to the bucket size and refill gradually', async () => {
+      const limiter = new RateLimiter(
+        { maxRequests: 2, timeWindow: 1000, strategy: 'token-bucket', burstCapacity: 4 },
+        () => currentTime
+      );
+
+      for (let n = 0; n < 4; n++) {
+        await limiter.acquire();
+      }
+      await expect(limiter.acquire()).rejects.toThrow('RATE_LIMIT');
+      expect(limiter.getTimeUntilNextAvailable()).toBe(500);
+      expect(limiter.getCurrentRequestCount()).toBe(4);
+
+      currentTime += 500;
+      await expect(limiter.acquire()).resolves.toBeUndefined();
+      await expect(limiter.acquire()).rejects.toThrow('RATE_LIMIT');
+    });
+
+    it('should never hold more tokens than the burst capacity', async () => {
+      const limiter = new RateLimiter(
+        { maxRequests: 2, timeWindow: 1000, strategy: 'token-bucket' },
+        () => currentTime
+      );
+
+      currentTime += 60000;
+      await limiter.acquire();
+      await limiter.acquire();
+      await expect(limiter.acquire()).rejects.toThrow('RATE_LIMIT');
+    });
+
+    it('should smooth a burst when waiting', async () => {
+      const limiter = new RateLimiter(
+        { maxRequests: 10, timeWindow: 1000, strategy: 'token-bucket', burstCapacity: 1, wait: true },
+        () => currentTime
+      );
+
+      await limiter.acquire();
+      const next = jest.fn();
+      limiter.acquire().then(next);
+      await advance(99);
+      expect(next).not.toHaveBeenCalled();
+      await advance(1);
+      expect(next).toHaveBeenCalled();
+    });
+  });
+
+  describe('shared store', () => {
+    it('should enforce one limit across limiters that share a store and key', async () => {
+      const store = new InMemoryRateLimiterStore();
+      const config = { maxRequests: 2, timeWindow: 1000, store, key: 'vendor' };
+      const instances = [new RateLimiter(config, () => currentTime), new RateLimiter(config, () => currentTime)];
+
+      await instances[0].acquire();
+      await instances[1].acquire();
+      await expect(instances[0].acquire()).rejects.toThrow('RATE_LIMIT');
+      await expect(instances[1].acquire()).rejects.toThrow('RATE_LIMIT');
+    });
+
+    it('should count separate keys separately', async () => {
+      const store = new InMemoryRateLimiterStore();
+      const first = new RateLimiter({ maxRequests: 1, timeWindow: 1000, store, key: 'a' }, () => currentTime);
+      const second = new RateLimiter({ maxRequests: 1, timeWindow: 1000, store, key: 'b' }, () => currentTime);
+
+      await first.acquire();
+      await expect(second.acquire()).resolves.toBeUndefined();
+    });
+
+    it('should surface store failures to callers', async () => {
+      const store = new InMemoryRateLimiterStore();
+      const limiter = new RateLimiter(
+        { maxRequests: 1, timeWindow: 1000, wait: true, store },
+        () => currentTime
+      );
+      await limiter.acquire();
+      jest.spyOn(store, 'update').mockRejectedValue(new Error('store unavailable'));
+
+      await expect(limiter.acquire()).rejects.toThrow('store unavailable');
+    });
+  });
+});
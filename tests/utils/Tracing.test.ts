@@ -0,0 +1,135 @@
+import {
+  BasicTracer,
+  InMemorySpanExporter,
+  endSpan,
+  formatTraceparent,
+  noopTracer,
+  parseTraceparent,
+} from '../../src/utils/Tracing';
+import { EmailError } from '../../src/core/types';
+import { ERROR_CODES, SPAN_KIND, SPAN_STATUS } from '../../src/core/constants';
+
+describe('traceparent', () => {
+  const header = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+  it('should round-trip a span context', () => {
+    const context = parseTraceparent(header);
+
+    expect(context).toEqual({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+      traceFlags: 1,
+    });
+    expect(formatTraceparent(context!)).toBe(header);
+  });
+
+  it.each([
+    ['not a header'],
+    ['01-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'],
+    ['00-00000000000000000000000000000000-00f067aa0ba902b7-01'],
+    ['00-4bf92f3577b34da6a3ce929d0e0e4736-0000000000000000-01'],
+    [42],
+    [undefined],
+  ])('should ignore %p', value => {
+    expect(parseTraceparent(value)).toBeUndefined();
+  });
+});
+
+describe('BasicTracer', () => {
+  let currentTime: number;
+  let exporter: InMemorySpanExporter;
+  let tracer: BasicTracer;
+
+  beforeEach(() => {
+    currentTime = 1000;
+    exporter = new InMemorySpanExporter();
+    tracer = new BasicTracer({ exporter, serviceName: 'mailer' }, () => currentTime);
+  });
+
+  it('should export a span with its timing, attributes and events once it ends', () => {
+    const span = tracer.startSpan('email.send', { attributes: { 'email.message_id': 'm1' } });
+    currentTime += 40;
+    span.addEvent('retry', { 'email.attempt': 2 });
+    span.setAttribute('email.provider', 'primary');
+    expect(exporter.getFinishedSpans()).toEqual([]);
+
+    currentTime += 10;
+    endSpan(span);
+
+    const [data] = exporter.getFinishedSpans();
+    expect(data).toMatchObject({
+      name: 'email.send',
+      kind: SPAN_KIND.INTERNAL,
+      startTime: 1000,
+      endTime: 1050,
+      attributes: { 'email.message_id': 'm1', 'email.provider': 'primary' },
+      events: [{ name: 'retry', time: 1040, attributes: { 'email.attempt': 2 } }],
+      status: { code: SPAN_STATUS.OK },
+      resource: { 'service.name': 'mailer' },
+    });
+    expect(data.parentSpanId).toBeUndefined();
+    expect(data.spanContext.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(data.spanContext.spanId).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('should continue the parent trace', () => {
+    const parent = tracer.startSpan('email.send');
+    const child = tracer.startSpan('email.provider.send', { parent: parent.spanContext(), kind: SPAN_KIND.CLIENT });
+    child.end();
+
+    const [data] = exporter.getFinishedSpans();
+    expect(data.spanContext.traceId).toBe(parent.spanContext().traceId);
+    expect(data.parentSpanId).toBe(parent.spanContext().spanId);
+    expect(data.kind).toBe(SPAN_KIND.CLIENT);
+  });
+
+  it('should record failures as an exception event and an error status', () => {
+    const span = tracer.startSpan('email.provider.send');
+
+    endSpan(span, new EmailError('Connection refused', ERROR_CODES.CONNECTION_FAILED));
+
+    expect(exporter.getFinishedSpans()[0]).toMatchObject({
+      status: { code: SPAN_STATUS.ERROR, message: 'Connection refused' },
+      events: [{
+        name: 'exception',
+        attributes: {
+          'exception.type': 'EmailError',
+          'exception.message': 'Connection refused',
+          'email.error_code': ERROR_CODES.CONNECTION_FAILED,
+        },
+      }],
+    });
+  });
+
+  it('should export a span only once and ignore changes after it ended', () => {
+    const span = tracer.startSpan('email.send');
+    span.end();
+    span.setAttribute('late', true);
+    span.end();
+
+    expect(exporter.getFinishedSpans()).toHaveLength(1);
+    expect(exporter.getFinishedSpans()[0].attributes).toEqual({});
+    expect(span.isRecording()).toBe(false);
+  });
+
+  it('should log exporter failures instead of throwing', async () => {
+    const logger = { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() };
+    tracer = new BasicTracer({ exporter: { export: () => Promise.reject(new Error('collector down')) } }, () => 0, logger);
+
+    expect(() => tracer.startSpan('email.send').end()).not.toThrow();
+    await Promise.resolve();
+
+    expect(logger.error).toHaveBeenCalledWith('Span export failed', expect.objectContaining({ span: 'email.send' }));
+  });
+});
+
+describe('noopTracer', () => {
+  it('should record nothing but keep the parent context', () => {
+    const parent = parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+
+    const span = noopTracer.startSpan('email.send', { parent });
+
+    expect(span.isRecording()).toBe(false);
+    expect(span.spanContext()).toBe(parent);
+  });
+});